@@ -0,0 +1,210 @@
+/*
+ * Copyright(C) 2021 Chris Pikul. Under MIT license.
+ * See "LICENSE" in the root project folder.
+ */
+import type { CurrencyDenomination } from './currency';
+
+/**
+ * The coin properties of a Currency object, which systems must use as keys.
+ */
+const denominationKeys:ReadonlyArray<string> = [
+  'copper',
+  'silver',
+  'electrum',
+  'gold',
+  'platinum',
+];
+
+/**
+ * A single coin within a currency system.
+ */
+export interface ICurrencySystemDenomination {
+
+  /**
+   * Which property of a Currency object holds this coin.
+   *
+   * Currency objects only have the five coin properties of the PHB, so a
+   * system can rename, re-value, or leave out any of those coins, but can
+   * not add coins of it's own.
+   */
+  key : CurrencyDenomination;
+
+  /**
+   * Short name, ie. "gp".
+   */
+  abbreviation : string;
+
+  /**
+   * Full name of a single coin, ie. "gold piece".
+   */
+  name : string;
+
+  /**
+   * Full name of multiple coins, ie. "gold pieces".
+   */
+  plural : string;
+
+  /**
+   * Other names accepted when parsing, ie. "gold".
+   */
+  aliases ?: Array<string>;
+
+  /**
+   * How many of the lowest denomination one of this coin is worth.
+   */
+  value : number;
+};
+
+/**
+ * Defines the coins of a setting and the exchange rates between them.
+ *
+ * Each coin takes one of the five slots a Currency object has (copper,
+ * silver, electrum, gold, and platinum), giving it new names and a new
+ * value. Settings needing more than five coins are not supported.
+ */
+export interface ICurrencySystem {
+  name : string;
+
+  /**
+   * The denomination plain numbers are measured in, ie. a "gold value".
+   */
+  standard : CurrencyDenomination;
+
+  /**
+   * Each coin, ordered from the lowest value to the highest.
+   */
+  denominations : ReadonlyArray<ICurrencySystemDenomination>;
+};
+
+/**
+ * Gets every name a denomination is parsed by, in lower case.
+ *
+ * @param info Denomination
+ * @returns Array of lower case names
+ */
+const getLowerCaseNames = (info:ICurrencySystemDenomination):Array<string> => [
+  info.abbreviation,
+  info.name,
+  info.plural,
+  ...(info.aliases ?? []),
+].map((name:string) => String(name).toLowerCase());
+
+/**
+ * Checks and creates a new currency system, with the denominations ordered
+ * from lowest to highest value.
+ *
+ * The lowest denomination must have a value of 1, as every other value is
+ * measured in it, and all values must be whole numbers. Each denomination
+ * must use one of the coin properties of a Currency object as it's key.
+ * No two denominations may share an abbreviation, name, or alias, compared
+ * case-insensitively, as parsing could not tell them apart.
+ *
+ * @throws TypeError if the definition is malformed
+ * @param props Currency system definition
+ * @returns New ICurrencySystem object
+ */
+export const makeCurrencySystem = (props:ICurrencySystem):ICurrencySystem => {
+  if(!props || !Array.isArray(props.denominations) || props.denominations.length === 0)
+    throw new TypeError(`Currency system requires at least one denomination.`);
+
+  const denominations = props.denominations
+    .map((ent:ICurrencySystemDenomination) => ({
+      ...ent,
+      aliases: [ ...(ent.aliases ?? []) ],
+    }))
+    .sort((lhs:ICurrencySystemDenomination, rhs:ICurrencySystemDenomination) => lhs.value - rhs.value);
+
+  denominations.forEach((ent:ICurrencySystemDenomination, ind:number) => {
+    if(!denominationKeys.includes(ent.key))
+      throw new TypeError(`Currency system "${props.name}" uses the unknown denomination "${ent.key}", expected one of ${denominationKeys.join(', ')}.`);
+    if(!Number.isInteger(ent.value) || ent.value < 1)
+      throw new TypeError(`Currency system "${props.name}" requires whole number values, instead found "${ent.value}" for "${ent.key}".`);
+    if(denominations.findIndex((other:ICurrencySystemDenomination) => other.key === ent.key) !== ind)
+      throw new TypeError(`Currency system "${props.name}" uses the denomination "${ent.key}" more than once.`);
+
+    const names = getLowerCaseNames(ent);
+    const clash = denominations.slice(0, ind).find((other:ICurrencySystemDenomination) => (
+      getLowerCaseNames(other).some((name:string) => names.includes(name))
+    ));
+    if(clash)
+      throw new TypeError(`Currency system "${props.name}" uses the same abbreviation or name for "${clash.key}" and "${ent.key}".`);
+  });
+
+  if(denominations[0].value !== 1)
+    throw new TypeError(`Currency system "${props.name}" requires the lowest denomination to have a value of 1.`);
+  if(!denominations.some((ent:ICurrencySystemDenomination) => ent.key === props.standard))
+    throw new TypeError(`Currency system "${props.name}" does not have it's standard denomination "${props.standard}".`);
+
+  return {
+    name: props.name,
+    standard: props.standard,
+    denominations,
+  };
+};
+
+/**
+ * The coins and exchange rates from the Player's Handbook.
+ *
+ * 1 pp = 10 gp = 20 ep = 100 sp = 1,000 cp
+ */
+export const CurrencySystemPHB:ICurrencySystem = makeCurrencySystem({
+  name: 'PHB',
+  standard: 'gold',
+  denominations: [
+    {
+      key: 'copper',
+      abbreviation: 'cp',
+      name: 'copper piece',
+      plural: 'copper pieces',
+      aliases: [ 'copper' ],
+      value: 1,
+    },
+    {
+      key: 'silver',
+      abbreviation: 'sp',
+      name: 'silver piece',
+      plural: 'silver pieces',
+      aliases: [ 'silver' ],
+      value: 10,
+    },
+    {
+      key: 'electrum',
+      abbreviation: 'ep',
+      name: 'electrum piece',
+      plural: 'electrum pieces',
+      aliases: [ 'electrum' ],
+      value: 50,
+    },
+    {
+      key: 'gold',
+      abbreviation: 'gp',
+      name: 'gold piece',
+      plural: 'gold pieces',
+      aliases: [ 'gold' ],
+      value: 100,
+    },
+    {
+      key: 'platinum',
+      abbreviation: 'pp',
+      name: 'platinum piece',
+      plural: 'platinum pieces',
+      aliases: [ 'platinum' ],
+      value: 1000,
+    },
+  ],
+});
+
+/**
+ * Finds a denomination within a currency system.
+ *
+ * @param system Currency system
+ * @param key Denomination key
+ * @returns The denomination, or null if the system does not use it
+ */
+export const getCurrencyDenomination = (
+  system:ICurrencySystem,
+  key:CurrencyDenomination,
+):ICurrencySystemDenomination | null => {
+  const info = system.denominations.find((ent:ICurrencySystemDenomination) => ent.key === key);
+  return info ?? null;
+};
@@ -5,9 +5,22 @@
 import {
   positive,
   randomFloat,
+  roundWith,
   isPlainObject,
+  getDefaultRandom,
+  ERoundingMode,
+  RoundingModes,
 } from './utils';
 
+import {
+  CurrencySystemPHB,
+  ICurrencySystem,
+  ICurrencySystemDenomination,
+  getCurrencyDenomination,
+} from './currency-system';
+
+import type { IRandomSource } from './interfaces';
+
 /**
  * Describes the value of something, or a general ammount of monetary
  * treasure.
@@ -53,6 +66,312 @@ export type CurrencyTuple = [
   number,
 ];
 
+/**
+ * The name of one of the denominations, matching the properties of
+ * ICurrency.
+ */
+export type CurrencyDenomination = keyof ICurrency;
+
+/**
+ * Options for formatting a Currency object into a string.
+ */
+export interface ICurrencyFormatOptions {
+
+  /**
+   * Use the full names, ie. "gold pieces", instead of the abbreviations,
+   * ie. "gp". Default false.
+   */
+  fullNames?: boolean;
+
+  /**
+   * Leave out any denominations with no value. Default true.
+   */
+  omitZero?: boolean;
+
+  /**
+   * Express the whole value in a single denomination, ie. "7.3 gp" instead
+   * of "7 gp 3 sp".
+   *
+   * The amount is exact, and can be read back by Currency.parse(), whenever
+   * it can be written as a decimal. Otherwise, ie. 1 iron bit in crowns of
+   * 240 bits, it is rounded to enough places to tell each lowest coin apart.
+   */
+  single?: CurrencyDenomination;
+
+  /**
+   * Group the thousands of each amount with commas, ie. "1,500 gp".
+   * Default false.
+   */
+  grouping?: boolean;
+}
+
+/**
+ * The denominations, in the same order as CurrencyTuple.
+ */
+const tupleKeys: Array<CurrencyDenomination> = [
+  'copper',
+  'silver',
+  'electrum',
+  'gold',
+  'platinum',
+];
+
+/**
+ * Matches the text allowed between amounts, ie. "2pp, 5sp" or "2pp and 5sp".
+ */
+const regexpCurrencySeparators = /^(?:[\s,+&]|and)*$/i;
+
+/**
+ * Gets the denominations of a system that are used when breaking a value
+ * down. The lowest denomination is always used, so no value is lost.
+ *
+ * @param system Currency system
+ * @param usePlatinum Whether to use platinum
+ * @param useElectrum Whether to use electrum
+ * @returns Array of denominations, lowest to highest
+ */
+const getUsableDenominations = (
+  system: ICurrencySystem,
+  usePlatinum: boolean,
+  useElectrum: boolean,
+): Array<ICurrencySystemDenomination> => system.denominations.filter((ent: ICurrencySystemDenomination) => {
+  if(ent.value === 1)
+    return true;
+  if(ent.key === 'platinum')
+    return usePlatinum;
+  if(ent.key === 'electrum')
+    return useElectrum;
+  return true;
+});
+
+/**
+ * Removes floating-point error from an amount of the lowest denomination.
+ * Values within the error of a whole number are treated as that number, so
+ * 0.29 gold is exactly 29 copper rather than 28.999...
+ *
+ * @param value Amount of the lowest denomination
+ * @returns The whole number, or the original value if a true fraction
+ */
+const snapBaseUnits = (value: number): number => {
+  const nearest = Math.round(value);
+  if(Math.abs(value - nearest) <= 1e-9 * Math.max(1, Math.abs(value)))
+    return nearest;
+  return value;
+};
+
+/**
+ * Totals the value of the denominations in the lowest denomination of the
+ * system. Any fractional coins are rounded to the nearest whole amount of
+ * the lowest denomination.
+ *
+ * @throws RangeError if there are coins the system does not use
+ * @param props Currency properties
+ * @param system Currency system
+ * @returns Total value in the lowest denomination
+ */
+const totalBaseUnits = (props: ICurrency, system: ICurrencySystem): number => tupleKeys
+  .reduce((acc: number, key: CurrencyDenomination) => {
+    const amount = props[key] ?? 0;
+    if(!amount)
+      return acc;
+
+    const info = getCurrencyDenomination(system, key);
+    if(!info)
+      throw new RangeError(`Currency has ${amount} ${key}, which the "${system.name}" currency system does not use.`);
+
+    return acc + roundWith(snapBaseUnits(amount * info.value), RoundingModes.ROUND);
+  }, 0);
+
+/**
+ * Breaks down a value in the lowest denomination into the fewest coins of
+ * the given denominations. Negative values give negative coins.
+ *
+ * @param total Value in the lowest denomination
+ * @param denominations Usable denominations, lowest to highest
+ * @returns New currency properties, without empty denominations
+ */
+const breakDownBaseUnits = (total: number, denominations: Array<ICurrencySystemDenomination>): ICurrency => {
+  const props: ICurrency = {};
+  const sign = total < 0 ? -1 : 1;
+
+  [ ...denominations ].reverse().reduce((rem: number, info: ICurrencySystemDenomination) => {
+    const count = Math.floor(rem / info.value);
+    if(count)
+      props[info.key] = count * sign;
+    return rem - (count * info.value);
+  }, Math.abs(total));
+
+  return props;
+};
+
+/**
+ * Counts the decimal places needed to write a fraction of whole numbers
+ * exactly. Only fractions whose reduced denominator has no factors other
+ * than 2 and 5 end, ie. 1/8 is "0.125" while 1/12 is "0.0833...".
+ *
+ * @param numerator Whole number to divide
+ * @param denominator Whole number to divide by, above 0
+ * @returns Number of decimal places, or null if the decimals never end
+ */
+const getExactDecimalPlaces = (numerator: number, denominator: number): number | null => {
+  // Greatest common divisor of the two, to reduce the fraction
+  let gcd = denominator;
+  let rem = Math.abs(numerator) % denominator;
+  while(rem !== 0)
+    [ gcd, rem ] = [ rem, gcd % rem ];
+
+  let divisor = denominator / gcd;
+  const counts = [ 2, 5 ].map((factor: number) => {
+    let count = 0;
+    while(divisor % factor === 0) {
+      divisor /= factor;
+      count++;
+    }
+    return count;
+  });
+  return divisor === 1 ? Math.max(...counts) : null;
+};
+
+/**
+ * Gets every name a denomination can be written with.
+ *
+ * @param info Denomination
+ * @returns Array of names
+ */
+const getDenominationNames = (info: ICurrencySystemDenomination): Array<string> => [
+  info.abbreviation,
+  info.name,
+  info.plural,
+  ...(info.aliases ?? []),
+];
+
+/**
+ * Creates a regexp matching each amount within a written value for the given
+ * system, ie. "1,500gp" or "2 silver pieces".
+ *
+ * @param system Currency system
+ * @returns New RegExp object
+ */
+const makeAmountRegExp = (system: ICurrencySystem): RegExp => {
+  const names = system.denominations
+    .reduce((acc: Array<string>, info: ICurrencySystemDenomination) => acc.concat(getDenominationNames(info)), [])
+    .sort((lhs: string, rhs: string) => rhs.length - lhs.length)
+    .map((name: string) => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+
+  return new RegExp(`(\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.(\\d+))?\\s*(${names.join('|')})(?![a-z])`, 'gi');
+};
+
+/**
+ * Adds a parsed amount to the properties of a currency. Fractional amounts
+ * are broken down into the lower denominations, skipping electrum.
+ *
+ * @throws SyntaxError if the amount is finer than the lowest denomination
+ * @param props Currency properties to add to, IN PLACE
+ * @param info The denomination of the amount
+ * @param whole The whole number part of the amount
+ * @param fraction The digits after the decimal point, if any
+ * @param system Currency system
+ */
+const addParsedAmount = (
+  props: ICurrency,
+  info: ICurrencySystemDenomination,
+  whole: number,
+  fraction: string,
+  system: ICurrencySystem,
+): void => {
+  const lower = parseFloat(`0.${fraction || '0'}`) * info.value;
+  if(Math.abs(lower - Math.round(lower)) > 1e-9)
+    throw new SyntaxError(`Currency amount "${whole}.${fraction} ${info.abbreviation}" is finer than the lowest denomination.`);
+
+  props[info.key] = (props[info.key] ?? 0) + whole;
+
+  const change = breakDownBaseUnits(Math.round(lower), getUsableDenominations(system, true, false)
+    .filter((ent: ICurrencySystemDenomination) => ent.value < info.value));
+  tupleKeys.forEach((key: CurrencyDenomination) => {
+    if(change[key])
+      props[key] = (props[key] ?? 0) + (change[key] ?? 0);
+  });
+};
+
+/**
+ * Counts the whole coins of a denomination, ignoring any negative or
+ * fractional amounts.
+ *
+ * @param props Currency properties
+ * @param key Denomination
+ * @returns Number of whole coins
+ */
+const countCoins = (props: ICurrency, key: CurrencyDenomination): number => Math.max(Math.floor(props[key] ?? 0), 0);
+
+/**
+ * Takes coins from a supply, highest value first, totalling as much of the
+ * amount as possible without going over.
+ *
+ * @param amount Value to take in the lowest denomination
+ * @param supply Coins available
+ * @param denominations Denominations to take, lowest to highest
+ * @returns Tuple of the coins taken, and the value not covered by them
+ */
+const takeCoins = (
+  amount: number,
+  supply: ICurrency,
+  denominations: ReadonlyArray<ICurrencySystemDenomination>,
+): [ICurrency, number] => {
+  const taken: ICurrency = {};
+  const remaining = [ ...denominations ].reverse().reduce((rem: number, info: ICurrencySystemDenomination) => {
+    const count = Math.min(countCoins(supply, info.key), Math.floor(rem / info.value));
+    if(count)
+      taken[info.key] = count;
+    return rem - (count * info.value);
+  }, amount);
+
+  return [ taken, remaining ];
+};
+
+/**
+ * Thrown when a purse does not hold enough coins to pay a price.
+ *
+ * The amounts are in the lowest denomination of the currency system used
+ * (copper in the PHB).
+ */
+export class InsufficientFundsError extends Error {
+  /**
+   * The price being paid.
+   */
+  readonly price: number;
+
+  /**
+   * The value of the coins available to pay with.
+   */
+  readonly available: number;
+
+  /**
+   * Constructs a new InsufficientFundsError object.
+   *
+   * @param price The price being paid, in the lowest denomination
+   * @param available The value available, in the lowest denomination
+   * @param system Currency system the amounts are in
+   */
+  constructor(price: number, available: number, system: ICurrencySystem = CurrencySystemPHB) {
+    const unit = system.denominations[0]?.abbreviation ?? '';
+    super(`Insufficient funds to pay ${price} ${unit}, only ${available} ${unit} is available.`);
+
+    // Keeps instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, new.target.prototype);
+
+    this.name = 'InsufficientFundsError';
+    this.price = price;
+    this.available = available;
+  }
+
+  /**
+   * How much more value is needed to pay the price.
+   */
+  get shortfall(): number {
+    return this.price - this.available;
+  }
+}
+
 /**
  * Describes an amount of money, or currency. Breaks the values down between
  * the denominations copper, silver, electrum, gold, and platinum.
@@ -66,10 +385,11 @@ export default class Currency implements ICurrency {
    *
    * @param min Minimum gold value, inclusive
    * @param max Maximum gold value, inclusive
+   * @param rng Random source, defaults to getDefaultRandom()
    * @returns New Currency object representing the balanced value
    */
-  static random = (min: number, max: number): Currency => {
-    const goldValue = randomFloat(min, max);
+  static random = (min: number, max: number, rng: IRandomSource = getDefaultRandom()): Currency => {
+    const goldValue = randomFloat(min, max, rng);
     return new Currency(goldValue);
   };
 
@@ -87,6 +407,130 @@ export default class Currency implements ICurrency {
    */
   static reduce = (value: number, div = 10): Array<number> => [ value % div, Math.floor(value / div) ];
 
+  /**
+   * Parses a written amount of money into a new Currency object.
+   *
+   * Accepts any number of amounts, each followed by a denomination as either
+   * an abbreviation ("gp") or a full name ("gold", "gold pieces"), ignoring
+   * case. Amounts may group thousands with commas, and may have decimals
+   * which are broken down into the lower denominations. For example,
+   * "15 gp", "2pp 5sp", "1,500gp", or "7.3 gp".
+   *
+   * Repeated denominations are added together.
+   *
+   * @throws SyntaxError if the string is not a valid amount of money
+   * @param str Written amount
+   * @param system Currency system the names are from, defaults to the PHB
+   * @returns New Currency object
+   */
+  static parse = (str: string, system: ICurrencySystem = CurrencySystemPHB): Currency => {
+    if(typeof str !== 'string')
+      throw new TypeError(`Currency.parse expects a string, instead found "${typeof str}".`);
+
+    const regexp = makeAmountRegExp(system);
+    const matches = Array.from(str.matchAll(regexp));
+    if(matches.length === 0 || !regexpCurrencySeparators.test(str.replace(regexp, '')))
+      throw new SyntaxError(`Currency could not parse "${str}", expected amounts followed by their denominations (ie. "2pp 5sp").`);
+
+    const props: ICurrency = {};
+    matches.forEach((match: RegExpMatchArray) => {
+      const name = match[3].toLowerCase().replace(/\s+/g, ' ');
+      const info = system.denominations.find((ent: ICurrencySystemDenomination) => (
+        getDenominationNames(ent).some((ind: string) => ind.toLowerCase() === name)
+      ));
+      if(info)
+        addParsedAmount(props, info, parseInt(match[1].replace(/,/g, ''), 10), match[2], system);
+    });
+
+    return new Currency(props, true, true);
+  };
+
+  /**
+   * Checks if the string is a valid amount of money for Currency.parse().
+   *
+   * @param str Written amount
+   * @param system Currency system the names are from, defaults to the PHB
+   * @returns True if valid
+   */
+  static test = (str: string, system: ICurrencySystem = CurrencySystemPHB): boolean => {
+    try {
+      Currency.parse(str, system);
+      return true;
+    } catch (err) {
+      return false;
+    }
+  };
+
+  /**
+   * Creates a new Currency object from a whole amount of the lowest
+   * denomination (copper in the PHB), broken down into the fewest coins.
+   *
+   * Keeping ledgers in these whole amounts avoids the floating-point drift
+   * of working in fractional gold.
+   *
+   * @throws RangeError if the amount is not a whole number
+   * @param units Whole amount of the lowest denomination
+   * @param usePlatinum Whether to use platinum
+   * @param useElectrum Whether to use electrum
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @returns New Currency object
+   */
+  static fromBaseUnits = (
+    units: number,
+    usePlatinum = true,
+    useElectrum = false,
+    system: ICurrencySystem = CurrencySystemPHB,
+  ): Currency => {
+    if(!Number.isInteger(units))
+      throw new RangeError(`Currency.fromBaseUnits requires a whole number, instead found "${units}".`);
+
+    const denominations = getUsableDenominations(system, usePlatinum, useElectrum);
+    return new Currency(breakDownBaseUnits(units, denominations), true, true);
+  };
+
+  /**
+   * Totals a value as a whole amount of the lowest denomination.
+   *
+   * @param value Currency object, or Gold Value number
+   * @param system Currency system for the exchange rates
+   * @returns Whole amount of the lowest denomination
+   */
+  private static readonly baseUnitsOf = (value: Currency | number, system: ICurrencySystem): number => {
+    if(value instanceof Currency)
+      return value.toBaseUnits(system);
+    return new Currency(value, true, false, system).toBaseUnits(system);
+  };
+
+  /**
+   * Compares two values, for use with `Array.sort()`. Only the total values
+   * are compared, not the denominations they are made of.
+   *
+   * @throws RangeError if there are coins the system does not use
+   * @param lhs Currency object, or Gold Value number
+   * @param rhs Currency object, or Gold Value number
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @returns -1 if lhs is less than rhs, 1 if greater, or 0 if they are equal
+   */
+  static compare = (
+    lhs: Currency | number,
+    rhs: Currency | number,
+    system: ICurrencySystem = CurrencySystemPHB,
+  ): number => Math.sign(Currency.baseUnitsOf(lhs, system) - Currency.baseUnitsOf(rhs, system));
+
+  /**
+   * Adds together a list of values into a new Currency object. The
+   * denominations are kept as they are, use `balance()` on the result to
+   * exchange them.
+   *
+   * @throws RangeError if there are coins the system does not use
+   * @param list Array of Currency objects, or Gold Value numbers
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @returns New Currency object
+   */
+  static sum = (list: Array<Currency | number>, system: ICurrencySystem = CurrencySystemPHB): Currency => (
+    list.reduce<Currency>((acc: Currency, value: Currency | number) => acc.plus(value, false, system), new Currency())
+  );
+
   copper?: number;
 
   silver?: number;
@@ -119,8 +563,17 @@ export default class Currency implements ICurrency {
    * @param props Either an object, or a number
    * @param usePlatinum If a number was provided, whether to use platinum
    * @param useElectrum If a number was provided, whether to use electrum
+   * @param system If a number was provided, the currency system to use
+   * @param rounding If a number was provided, how to round fractions of the
+   * lowest denomination, defaults to rounding down
    */
-  constructor(props: any = null, usePlatinum = true, useElectrum = false) {
+  constructor(
+    props: any = null,
+    usePlatinum = true,
+    useElectrum = false,
+    system: ICurrencySystem = CurrencySystemPHB,
+    rounding: ERoundingMode = RoundingModes.FLOOR,
+  ) {
     // Check if any properties where supplied
     if(typeof props !== 'undefined' && props !== null) {
       if(props instanceof Currency || isPlainObject(props)) {
@@ -136,7 +589,7 @@ export default class Currency implements ICurrency {
         if(usePlatinum && props.platinum && typeof props.platinum === 'number')
           this.platinum = positive(props.platinum);
       } else if(typeof props === 'number') {
-        this.fromGold(props, usePlatinum, useElectrum);
+        this.fromGold(props, usePlatinum, useElectrum, system, rounding);
       } else {
         console.warn(`Attemnpting to instantiate AlignmentAxes with invalid property.`);
       }
@@ -191,27 +644,76 @@ export default class Currency implements ICurrency {
     return `[${denoms.join(', ')}]`;
   };
 
+  /**
+   * Formats this value into a written amount, which can be read back using
+   * Currency.parse(). By default the amounts are abbreviated from the
+   * highest denomination down, leaving out empty ones, ie. "2 pp 5 sp".
+   *
+   * @throws RangeError if there are coins the system does not use
+   * @param options Formatting options
+   * @param system Currency system the names are from, defaults to the PHB
+   * @returns Formatted string
+   */
+  format = (options: ICurrencyFormatOptions = {}, system: ICurrencySystem = CurrencySystemPHB): string => {
+    const {
+      fullNames = false,
+      omitZero = true,
+      single,
+      grouping = false,
+    } = options;
+
+    const write = (info: ICurrencySystemDenomination, amount: number): string => {
+      const num = grouping ? amount.toLocaleString('en-US', { maximumFractionDigits: 20 }) : `${amount}`;
+      if(fullNames)
+        return `${num} ${amount === 1 ? info.name : info.plural}`;
+      return `${num} ${info.abbreviation}`;
+    };
+
+    // Also checks that every coin is part of the system
+    const total = totalBaseUnits(this, system);
+
+    const singleInfo = single ? getCurrencyDenomination(system, single) : null;
+    if(singleInfo) {
+      const digits = getExactDecimalPlaces(total, singleInfo.value) ?? Math.ceil(Math.log10(singleInfo.value));
+      return write(singleInfo, parseFloat((total / singleInfo.value).toFixed(digits)));
+    }
+
+    const parts = system.denominations
+      .filter((info: ICurrencySystemDenomination) => !omitZero || this[info.key])
+      .map((info: ICurrencySystemDenomination) => write(info, this[info.key] ?? 0))
+      .reverse();
+
+    if(parts.length === 0)
+      return write(getCurrencyDenomination(system, system.standard) ?? system.denominations[0], 0);
+    return parts.join(' ');
+  };
+
+  /**
+   * Totals this value as a whole amount of the lowest denomination (copper in
+   * the PHB). Unlike toGold(), the result is exact.
+   *
+   * @throws RangeError if there are coins the system does not use
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @returns Whole amount of the lowest denomination
+   */
+  toBaseUnits = (system: ICurrencySystem = CurrencySystemPHB): number => totalBaseUnits(this, system);
+
   /**
    * Converts this object into a singular "Gold Value". This is done by
-   * converting each denomination to it's GP equivelent.
+   * converting each denomination to it's GP equivelent, or the standard
+   * denomination of the given currency system.
    *
    * The parameter `truncate` decides whether a whole integer is returned,
    * or a floating-point value (default).
    *
+   * @throws RangeError if there are coins the system does not use
    * @param truncate Whether to return an integer, or a floating point number
+   * @param system Currency system for the exchange rates, defaults to the PHB
    * @returns Number relating to the gold value
    */
-  toGold = (truncate = false): number => {
-    let gp = this.gold || 0;
-
-    if(this.platinum)
-      gp += this.platinum * 10;
-    if(this.electrum)
-      gp += this.electrum * 0.5;
-    if(this.silver)
-      gp += this.silver * 0.1;
-    if(this.copper)
-      gp += this.copper * 0.01;
+  toGold = (truncate = false, system: ICurrencySystem = CurrencySystemPHB): number => {
+    const standard = getCurrencyDenomination(system, system.standard)?.value ?? 1;
+    const gp = totalBaseUnits(this, system) / standard;
 
     if(truncate)
       return Math.floor(gp);
@@ -227,9 +729,18 @@ export default class Currency implements ICurrency {
    *
    * @param value Currency object, or Gold Value number
    * @param balanceAfter Whether to balance the currency after adding.
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @param rounding How to round fractions of the lowest denomination of a
+   * Gold Value number, defaults to rounding down
    */
-  add = (value: Currency | number, balanceAfter = false): void => {
-    const obj = new Currency(value);
+  add = (
+    value: Currency | number,
+    balanceAfter = false,
+    system: ICurrencySystem = CurrencySystemPHB,
+    rounding: ERoundingMode = RoundingModes.FLOOR,
+  ): void => {
+    // Currency objects are used as-is, keeping any electrum or negative amounts
+    const obj = value instanceof Currency ? value.clone() : new Currency(value, true, false, system, rounding);
 
     if(obj.copper)
       this.copper = (this.copper || 0) + obj.copper;
@@ -243,7 +754,7 @@ export default class Currency implements ICurrency {
       this.platinum = (this.platinum || 0) + obj.platinum;
 
     if(balanceAfter)
-      this.balance();
+      this.balance(true, false, system);
   };
 
   /**
@@ -255,9 +766,18 @@ export default class Currency implements ICurrency {
    *
    * @param value Currency object, or Gold Value number
    * @param balanceAfter Whether to balance the currency after subtracting.
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @param rounding How to round fractions of the lowest denomination of a
+   * Gold Value number, defaults to rounding down
    */
-  subtract = (value: Currency | number, balanceAfter = false): void => {
-    const obj = new Currency(value);
+  subtract = (
+    value: Currency | number,
+    balanceAfter = false,
+    system: ICurrencySystem = CurrencySystemPHB,
+    rounding: ERoundingMode = RoundingModes.FLOOR,
+  ): void => {
+    // Currency objects are used as-is, keeping any electrum or negative amounts
+    const obj = value instanceof Currency ? value.clone() : new Currency(value, true, false, system, rounding);
 
     if(obj.copper)
       this.copper = (this.copper || 0) - obj.copper;
@@ -271,7 +791,266 @@ export default class Currency implements ICurrency {
       this.platinum = (this.platinum || 0) - obj.platinum;
 
     if(balanceAfter)
-      this.balance();
+      this.balance(true, false, system);
+  };
+
+  /**
+   * Creates a copy of this object, keeping the denominations exactly as
+   * they are.
+   *
+   * @returns New Currency object
+   */
+  clone = (): Currency => {
+    const copy = new Currency();
+    tupleKeys.forEach((key: CurrencyDenomination) => {
+      if(this[key])
+        copy[key] = this[key];
+    });
+    return copy;
+  };
+
+  /**
+   * Compares the total value of this object with another.
+   *
+   * @throws RangeError if there are coins the system does not use
+   * @param other Currency object, or Gold Value number
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @returns -1 if this is less than the other, 1 if greater, or 0 if equal
+   */
+  compare = (other: Currency | number, system: ICurrencySystem = CurrencySystemPHB): number => (
+    Currency.compare(this, other, system)
+  );
+
+  /**
+   * Checks if this object is worth the same as another, regardless of the
+   * denominations, ie. 1 gp equals 10 sp.
+   *
+   * @throws RangeError if there are coins the system does not use
+   * @param other Currency object, or Gold Value number
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @returns True if they are worth the same
+   */
+  equals = (other: Currency | number, system: ICurrencySystem = CurrencySystemPHB): boolean => (
+    this.compare(other, system) === 0
+  );
+
+  /**
+   * Checks if this object is worth more than another.
+   *
+   * @throws RangeError if there are coins the system does not use
+   * @param other Currency object, or Gold Value number
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @returns True if this is worth more
+   */
+  greaterThan = (other: Currency | number, system: ICurrencySystem = CurrencySystemPHB): boolean => (
+    this.compare(other, system) > 0
+  );
+
+  /**
+   * Adds the given value into a new Currency object, leaving this one
+   * unchanged. See `add()`.
+   *
+   * @param value Currency object, or Gold Value number
+   * @param balanceAfter Whether to balance the result
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @param rounding How to round fractions of the lowest denomination of a
+   * Gold Value number, defaults to rounding down
+   * @returns New Currency object
+   */
+  plus = (
+    value: Currency | number,
+    balanceAfter = false,
+    system: ICurrencySystem = CurrencySystemPHB,
+    rounding: ERoundingMode = RoundingModes.FLOOR,
+  ): Currency => {
+    const copy = this.clone();
+    copy.add(value, balanceAfter, system, rounding);
+    return copy;
+  };
+
+  /**
+   * Subtracts the given value into a new Currency object, leaving this one
+   * unchanged. See `subtract()`.
+   *
+   * @param value Currency object, or Gold Value number
+   * @param balanceAfter Whether to balance the result
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @param rounding How to round fractions of the lowest denomination of a
+   * Gold Value number, defaults to rounding down
+   * @returns New Currency object
+   */
+  minus = (
+    value: Currency | number,
+    balanceAfter = false,
+    system: ICurrencySystem = CurrencySystemPHB,
+    rounding: ERoundingMode = RoundingModes.FLOOR,
+  ): Currency => {
+    const copy = this.clone();
+    copy.subtract(value, balanceAfter, system, rounding);
+    return copy;
+  };
+
+  /**
+   * Multiplies this value into a new Currency object, leaving this one
+   * unchanged. Useful for the price of a number of items.
+   *
+   * Multiplying by a whole number keeps the denominations. Otherwise the
+   * result is rounded to the lowest denomination using the `rounding` mode,
+   * and broken down into the fewest coins (using platinum, excluding
+   * electrum).
+   *
+   * @throws RangeError if there are coins the system does not use
+   * @param factor Number to multiply by
+   * @param rounding How to round fractions of the lowest denomination
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @returns New Currency object
+   */
+  times = (
+    factor: number,
+    rounding: ERoundingMode = RoundingModes.FLOOR,
+    system: ICurrencySystem = CurrencySystemPHB,
+  ): Currency => {
+    if(Number.isInteger(factor)) {
+      const copy = new Currency();
+      tupleKeys.forEach((key: CurrencyDenomination) => {
+        if(this[key])
+          copy[key] = (this[key] ?? 0) * factor;
+      });
+      return copy;
+    }
+
+    const units = roundWith(snapBaseUnits(totalBaseUnits(this, system) * factor), rounding);
+    return Currency.fromBaseUnits(units, true, false, system);
+  };
+
+  /**
+   * Pays a price using the coins held in this object, removing the coins
+   * handed over and adding any change received.
+   *
+   * Coins are chosen from the highest denomination down to pay the price
+   * exactly where possible. Otherwise the smallest single coin covering the
+   * rest is added, and any coins no longer needed are kept back, so the
+   * change due is as little as possible.
+   *
+   * By default the change is given in the fewest coins (using platinum,
+   * excluding electrum). If a `merchant` is supplied, the change is limited
+   * to the coins they carry, and any change they can not make is reported
+   * as `owed`. The merchant object is not modified.
+   *
+   * @throws InsufficientFundsError if this object does not hold enough coins
+   * @throws RangeError if the price is negative, or not a finite number
+   * @throws RangeError if there are coins the system does not use
+   * @param price Currency object, or Gold Value number
+   * @param merchant The coins available for change, or null for unlimited
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @returns Object of the coins `paid`, the `change` received, and any change
+   * `owed` by the merchant
+   */
+  pay = (
+    price: Currency | number,
+    merchant: Currency | null = null,
+    system: ICurrencySystem = CurrencySystemPHB,
+  ): { paid: Currency, change: Currency, owed: Currency } => {
+    if(typeof price === 'number' && (!Number.isFinite(price) || price < 0))
+      throw new RangeError(`Currency.pay requires a price of 0 or more, instead found "${price}".`);
+
+    const cost = Currency.baseUnitsOf(price, system);
+    if(cost < 0)
+      throw new RangeError(`Currency.pay requires a price of 0 or more, instead found ${cost}.`);
+
+    const available = system.denominations.reduce((acc: number, info: ICurrencySystemDenomination) => (
+      acc + (countCoins(this, info.key) * info.value)
+    ), 0);
+    if(available < cost)
+      throw new InsufficientFundsError(cost, available, system);
+
+    const [ paid, remaining ] = takeCoins(cost, this, system.denominations);
+    if(remaining > 0) {
+      // Every coin left over is worth more than the remaining price
+      const extra = system.denominations.find((info: ICurrencySystemDenomination) => (
+        countCoins(this, info.key) > (paid[info.key] ?? 0) && info.value >= remaining
+      ));
+      if(extra)
+        paid[extra.key] = (paid[extra.key] ?? 0) + 1;
+
+      // Keep back any coins that are no longer needed, largest first
+      [ ...system.denominations ].reverse().reduce((excess: number, info: ICurrencySystemDenomination) => {
+        const count = Math.min(paid[info.key] ?? 0, Math.floor(excess / info.value));
+        if(count)
+          paid[info.key] = (paid[info.key] ?? 0) - count;
+        return excess - (count * info.value);
+      }, totalBaseUnits(paid, system) - cost);
+    }
+
+    const due = totalBaseUnits(paid, system) - cost;
+    const denominations = getUsableDenominations(system, true, false);
+    let [ change, owed ]: [ICurrency, number] = [ breakDownBaseUnits(due, denominations), 0 ];
+    if(merchant)
+      [ change, owed ] = takeCoins(due, merchant, system.denominations);
+
+    tupleKeys.forEach((key: CurrencyDenomination) => {
+      const value = (this[key] ?? 0) - (paid[key] ?? 0) + (change[key] ?? 0);
+      if(value)
+        this[key] = value;
+      else
+        delete this[key];
+    });
+
+    return {
+      paid: new Currency(paid, true, true),
+      change: new Currency(change, true, true),
+      owed: Currency.fromBaseUnits(owed, true, false, system),
+    };
+  };
+
+  /**
+   * Splits the value of this object between a number of recipients, such as
+   * dividing treasure amongst the party. This object is not modified.
+   *
+   * The `shares` parameter is either the number of recipients for an even
+   * split, or an array of weights for each recipient (ie. `[ 1, 1, 0.5 ]`
+   * for a half share). Each share is rounded down to the lowest
+   * denomination, and whatever can not be divided is returned as the
+   * `remainder`, ie. for the party fund. The shares and remainder always add
+   * up to the exact value of this object.
+   *
+   * Each resulting Currency object is broken down into the fewest coins.
+   *
+   * @throws RangeError if the shares are invalid, or the value is negative
+   * @throws RangeError if there are coins the system does not use
+   * @param shares Number of recipients, or array of weights for each
+   * @param usePlatinum Whether to use platinum
+   * @param useElectrum Whether to use electrum
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @returns Object of the `shares` for each recipient, and the `remainder`
+   */
+  split = (
+    shares: number | Array<number>,
+    usePlatinum = true,
+    useElectrum = false,
+    system: ICurrencySystem = CurrencySystemPHB,
+  ): { shares: Array<Currency>, remainder: Currency } => {
+    if(!Array.isArray(shares) && (!Number.isInteger(shares) || shares < 1))
+      throw new RangeError(`Currency.split requires a positive whole number of recipients, instead found "${shares}".`);
+    const weights = Array.isArray(shares) ? shares : Array.from({ length: shares }, () => 1);
+    if(weights.length === 0 || weights.some((weight: number) => !Number.isFinite(weight) || weight < 0))
+      throw new RangeError(`Currency.split requires weights of 0 or more for each recipient.`);
+
+    const totalWeight = weights.reduce((acc: number, weight: number) => acc + weight, 0);
+    if(totalWeight <= 0)
+      throw new RangeError(`Currency.split requires at least one recipient with a share.`);
+
+    const total = totalBaseUnits(this, system);
+    if(total < 0)
+      throw new RangeError(`Currency.split can not split a negative value of ${total}.`);
+
+    const units = weights.map((weight: number) => Math.floor(snapBaseUnits((total * weight) / totalWeight)));
+    const remainder = total - units.reduce((acc: number, unit: number) => acc + unit, 0);
+
+    return {
+      shares: units.map((unit: number) => Currency.fromBaseUnits(unit, usePlatinum, useElectrum, system)),
+      remainder: Currency.fromBaseUnits(remainder, usePlatinum, useElectrum, system),
+    };
   };
 
   /**
@@ -295,63 +1074,37 @@ export default class Currency implements ICurrency {
    *  };
    * ```
    *
+   * The gold value is converted into a whole amount of the lowest
+   * denomination first. Floating-point error is ignored, so 0.3 gold is
+   * always 3 silver, and any true fraction of a copper is handled by the
+   * `rounding` mode. Rounding down (default) returns the remaining value.
+   *
    * @param gp Numerical (floating) gold value
-   * @returns any remaining value not exchanged
+   * @param usePlatinum Whether to use platinum
+   * @param useElectrum Whether to use electrum
+   * @param system Currency system for the exchange rates, defaults to the PHB
+   * @param rounding How to round fractions of the lowest denomination
+   * @returns any remaining value not exchanged, in gold
    */
   fromGold = (
     goldValue: number,
     usePlatinum = true,
-    useElectrum = false
+    useElectrum = false,
+    system: ICurrencySystem = CurrencySystemPHB,
+    rounding: ERoundingMode = RoundingModes.FLOOR,
   ): number => {
-    let cp = 0;
-    let sp = 0;
-    let ep = 0;
-    let gp = goldValue;
-    let pp = 0;
-    let rem = 0;
-
-    // Start with platinum if we are using it
-    if(usePlatinum) {
-      pp = Math.floor(gp * 0.1);
-      gp -= pp * 10;
-    }
-
-    /*
-     * Calculate the running remainder we will use for the rest of the
-     * Operations.
-     */
-    rem = gp - Math.floor(gp);
-
-    // Gold
-    gp = Math.floor(gp - rem);
-
-    // If we are using electrum, calculate that now.
-    if(useElectrum) {
-      ep = Math.floor(rem * 2);
-      rem -= ep * 0.5;
-    }
-
-    // Silver
-    sp = Math.floor(rem * 10);
-    rem -= sp * 0.1;
-
-    // Copper
-    cp = Math.floor(rem * 100);
-    rem -= cp * 0.01;
+    const standard = getCurrencyDenomination(system, system.standard)?.value ?? 1;
+    const total = snapBaseUnits(goldValue * standard);
+    const whole = roundWith(total, rounding);
 
     // Apply all the values if we have them
-    if(cp)
-      this.copper = cp;
-    if(sp)
-      this.silver = sp;
-    if(ep)
-      this.electrum = ep;
-    if(gp)
-      this.gold = gp;
-    if(pp)
-      this.platinum = pp;
-
-    return rem;
+    const props = breakDownBaseUnits(whole, getUsableDenominations(system, usePlatinum, useElectrum));
+    tupleKeys.forEach((key: CurrencyDenomination) => {
+      if(props[key])
+        this[key] = props[key];
+    });
+
+    return (total - whole) / standard;
   };
 
   /**
@@ -365,82 +1118,21 @@ export default class Currency implements ICurrency {
    * If the `useElectrum` switch is true, electrum will be used as well. If
    * false (default), then electrum will be enlarged to silver.
    *
+   * @throws RangeError if there are coins the system does not use
    * @param usePlatinum boolean (default: true)
    * @param useElectrum boolean (default: false)
+   * @param system Currency system for the exchange rates, defaults to the PHB
    */
-  balance = (usePlatinum = true, useElectrum = false): void => {
-    let cp = this.copper || 0;
-    let sp = this.silver || 0;
-    let ep = this.electrum || 0;
-    let gp = this.gold || 0;
-    let pp = this.platinum || 0;
-
-    // Work out the copper
-    if(cp) {
-      const [ rem, next ] = Currency.reduce(cp);
-      cp = rem;
-      sp += next;
-    }
-
-    /*
-     * Work out the silver.
-     * We need to know if we are using the electrum switch here.
-     */
-    if(useElectrum) {
-      const [ rem, next ] = Currency.reduce(sp, 5);
-      sp = rem;
-      ep += next;
-
-      // Work out the electrum since we are here.
-      const [ remEP, nextGP ] = Currency.reduce(ep, 2);
-      ep = remEP;
-      gp += nextGP;
-    } else {
-      // Enlarge any remaining electrum
-      sp = ep * 5;
-      ep = 0;
-
-      // Work the silver -> gold
-      const [ rem, next ] = Currency.reduce(sp);
-      sp = rem;
-      gp += next;
-    }
-
-    // Check how we are dealing with platinum
-    if(usePlatinum) {
-      const [ rem, next ] = Currency.reduce(gp, 10);
-      gp = rem;
-      pp = next;
-    } else {
-      // We are not using platinum, so we need to enlarge it.
-      gp += pp * 10;
-      pp = 0;
-    }
+  balance = (usePlatinum = true, useElectrum = false, system: ICurrencySystem = CurrencySystemPHB): void => {
+    const denominations = getUsableDenominations(system, usePlatinum, useElectrum);
+    const props = breakDownBaseUnits(totalBaseUnits(this, system), denominations);
 
     // Assign any values used, and remove any not used.
-    if(cp)
-      this.copper = cp;
-    else
-      delete this.copper;
-
-    if(sp)
-      this.silver = sp;
-    else
-      delete this.silver;
-
-    if(ep && useElectrum)
-      this.electrum = ep;
-    else
-      delete this.electrum;
-
-    if(gp)
-      this.gold = gp;
-    else
-      delete this.gold;
-
-    if(pp && usePlatinum)
-      this.platinum = pp;
-    else
-      delete this.platinum;
+    tupleKeys.forEach((key: CurrencyDenomination) => {
+      if(props[key])
+        this[key] = props[key];
+      else
+        delete this[key];
+    });
   };
 }
@@ -0,0 +1,275 @@
+/*
+ * Copyright(C) 2021 Chris Pikul. Under MIT license.
+ * See "LICENSE" in the root project folder.
+ */
+import DiceExpression, {
+  DiceModifiers,
+  DiceNode,
+  DiceNodeTypes,
+  IDiceNodeDice,
+  diceGroupProbabilities,
+  getDiceModifier,
+} from './dice';
+
+import { dieSizeAsSides, EDieSize } from './die-size';
+import { clampFloat, convolveProbabilities } from './utils';
+
+/**
+ * A single possible total and the probability of it occuring.
+ */
+export interface IDiceOutcome {
+  value : number;
+  probability : number;
+};
+
+/**
+ * The exact probability distribution of the totals of a dice expression.
+ *
+ * Distributions are calculated by convolution of each die's uniform
+ * distribution, so they are exact (within floating-point precision) rather
+ * than estimated by simulation.
+ */
+export default class DiceDistribution {
+  /**
+   * Creates the distribution of a single die.
+   *
+   * @param die Size of the die
+   * @returns New DiceDistribution object
+   */
+  public static readonly fromDie = (die:EDieSize):DiceDistribution => {
+    const sides = dieSizeAsSides(die);
+    if(sides === 0)
+      throw new Error(`DiceDistribution cannot be made from the unknown die size "${die}".`);
+
+    return new DiceDistribution(1, Array.from({ length: sides }, () => 1 / sides));
+  };
+
+  /**
+   * Creates the distribution of a value that is always the same.
+   *
+   * @param value Constant value
+   * @returns New DiceDistribution object
+   */
+  public static readonly fromConstant = (value:number):DiceDistribution => new DiceDistribution(value, [ 1 ]);
+
+  /**
+   * Creates the distribution of a group of dice, including any keep, reroll,
+   * minimum, or explode modifiers on it.
+   *
+   * @param node Dice node
+   * @returns New DiceDistribution object
+   */
+  public static readonly fromDiceNode = (node:IDiceNodeDice):DiceDistribution => {
+    const { min, probabilities } = diceGroupProbabilities(node);
+    return new DiceDistribution(min, probabilities);
+  };
+
+  /**
+   * Creates the distribution of a node within a dice expression.
+   *
+   * @throws Error if a modifier used is not supplied
+   * @param node Expression node
+   * @param modifiers Values for the named modifiers
+   * @returns New DiceDistribution object
+   */
+  public static readonly fromNode = (node:DiceNode, modifiers:DiceModifiers = {}):DiceDistribution => {
+    switch(node.type) {
+      case DiceNodeTypes.DICE:
+        return DiceDistribution.fromDiceNode(node);
+      case DiceNodeTypes.CONSTANT:
+        return DiceDistribution.fromConstant(node.value);
+      case DiceNodeTypes.MODIFIER:
+        return DiceDistribution.fromConstant(getDiceModifier(modifiers, node.name));
+      case DiceNodeTypes.NEGATE:
+        return DiceDistribution.fromNode(node.operand, modifiers).negate();
+      case DiceNodeTypes.ADD:
+        return DiceDistribution.fromNode(node.left, modifiers)
+          .add(DiceDistribution.fromNode(node.right, modifiers));
+      case DiceNodeTypes.SUBTRACT:
+        return DiceDistribution.fromNode(node.left, modifiers)
+          .subtract(DiceDistribution.fromNode(node.right, modifiers));
+      default:
+        return DiceDistribution.fromConstant(0);
+    }
+  };
+
+  /**
+   * Creates the distribution of a dice expression.
+   *
+   * @throws SyntaxError if the expression is a malformed string
+   * @throws Error if a modifier used is not supplied
+   * @param expression DiceExpression object, or dice notation string
+   * @param modifiers Values for the named modifiers
+   * @returns New DiceDistribution object
+   */
+  public static readonly fromExpression = (
+    expression:(DiceExpression | string),
+    modifiers:DiceModifiers = {},
+  ):DiceDistribution => {
+    const expr = expression instanceof DiceExpression ? expression : new DiceExpression(expression);
+    return DiceDistribution.fromNode(expr.root, modifiers);
+  };
+
+  /**
+   * The lowest possible total.
+   */
+  readonly min : number;
+
+  /**
+   * Probabilities of each total, starting at `min` and increasing by one
+   * for each index.
+   */
+  readonly probabilities : ReadonlyArray<number>;
+
+  /**
+   * Constructs a new DiceDistribution object.
+   *
+   * @param min The lowest total, which the first probability is for
+   * @param probabilities Probability of each consecutive total
+   */
+  constructor(min:number, probabilities:Array<number>) {
+    if(!Number.isInteger(min))
+      throw new TypeError(`DiceDistribution requires an integer minimum, instead found "${min}".`);
+    if(!Array.isArray(probabilities) || probabilities.length === 0)
+      throw new TypeError(`DiceDistribution requires a non-empty array of probabilities.`);
+
+    this.min = min;
+    this.probabilities = [ ...probabilities ];
+  }
+
+  /**
+   * The highest possible total.
+   */
+  get max():number {
+    return this.min + this.probabilities.length - 1;
+  }
+
+  /**
+   * Gets every possible total and it's probability, from lowest to highest.
+   *
+   * @returns New array of outcomes
+   */
+  getOutcomes = ():Array<IDiceOutcome> => this.probabilities.map((probability:number, ind:number) => ({
+    value: this.min + ind,
+    probability,
+  }));
+
+  /**
+   * Gets the probability of the total being exactly the given value.
+   *
+   * @param value Total to check
+   * @returns Probability from 0 to 1
+   */
+  probabilityOf = (value:number):number => this.probabilities[value - this.min] ?? 0;
+
+  /**
+   * Gets the probability of the total being equal to, or greater than, the
+   * given value. For example, the chance to meet a DC.
+   *
+   * @param value Total to check
+   * @returns Probability from 0 to 1
+   */
+  atLeast = (value:number):number => clampFloat(
+    this.probabilities
+      .slice(Math.max(Math.ceil(value) - this.min, 0))
+      .reduce((acc:number, prob:number) => acc + prob, 0),
+    0,
+    1,
+  );
+
+  /**
+   * Gets the probability of the total being equal to, or lower than, the
+   * given value.
+   *
+   * @param value Total to check
+   * @returns Probability from 0 to 1
+   */
+  atMost = (value:number):number => clampFloat(1 - this.atLeast(Math.floor(value) + 1), 0, 1);
+
+  /**
+   * Gets the mean (expected) total.
+   *
+   * @returns Expected total
+   */
+  mean = ():number => this.probabilities.reduce((acc:number, prob:number, ind:number) => (
+    acc + (prob * (this.min + ind))
+  ), 0);
+
+  /**
+   * Gets the variance of the total.
+   *
+   * @returns Variance
+   */
+  variance = ():number => {
+    const mean = this.mean();
+    return this.probabilities.reduce((acc:number, prob:number, ind:number) => (
+      acc + (prob * ((this.min + ind - mean) ** 2))
+    ), 0);
+  };
+
+  /**
+   * Gets the standard deviation of the total.
+   *
+   * @returns Standard deviation
+   */
+  standardDeviation = ():number => Math.sqrt(this.variance());
+
+  /**
+   * Gets the expected damage of an attack, or effect, that deals this
+   * distribution as damage.
+   *
+   * Damage can not be reduced below 0, so any negative totals count as 0.
+   * The `missMultiplier` allows for effects that still deal damage when they
+   * miss, such as spells dealing half damage on a successful save. Reduced
+   * damage is rounded down.
+   *
+   * @param hitChance Probability of hitting (or failing the save), 0 to 1
+   * @param missMultiplier Portion of the damage dealt on a miss, ie. 0.5
+   * @returns Expected damage
+   */
+  expectedDamage = (hitChance:number, missMultiplier = 0):number => {
+    const chance = clampFloat(hitChance, 0, 1);
+    const multiplier = clampFloat(missMultiplier, 0, 1);
+
+    return this.probabilities.reduce((acc:number, prob:number, ind:number) => {
+      const damage = Math.max(this.min + ind, 0);
+      const missDamage = Math.floor(damage * multiplier);
+
+      return acc + (prob * ((chance * damage) + ((1 - chance) * missDamage)));
+    }, 0);
+  };
+
+  /**
+   * Combines this distribution with another by adding their totals
+   * (convolution).
+   *
+   * @param other Distribution to add
+   * @returns New DiceDistribution object
+   */
+  add = (other:DiceDistribution):DiceDistribution => {
+    const { min, probabilities } = convolveProbabilities({
+      min: this.min,
+      probabilities: [ ...this.probabilities ],
+    }, {
+      min: other.min,
+      probabilities: [ ...other.probabilities ],
+    });
+
+    return new DiceDistribution(min, probabilities);
+  };
+
+  /**
+   * Combines this distribution with another by subtracting their totals.
+   *
+   * @param other Distribution to subtract
+   * @returns New DiceDistribution object
+   */
+  subtract = (other:DiceDistribution):DiceDistribution => this.add(other.negate());
+
+  /**
+   * Gets the distribution of the negative totals.
+   *
+   * @returns New DiceDistribution object
+   */
+  negate = ():DiceDistribution => new DiceDistribution(-this.max, [ ...this.probabilities ].reverse());
+}
@@ -0,0 +1,954 @@
+/*
+ * Copyright(C) 2021 Chris Pikul. Under MIT license.
+ * See "LICENSE" in the root project folder.
+ */
+import {
+  DieSizes,
+  EDieSize,
+  dieSizeAsSides,
+  dieSizeFromSides,
+} from './die-size';
+
+import { enumHas } from './utils/enums';
+import { getDefaultRandom } from './utils/random';
+
+import {
+  Probabilities,
+  convolveProbabilities,
+  keepProbabilities,
+  meanOfProbabilities,
+  trimProbabilities,
+  truncateProbabilities,
+} from './utils/probability';
+
+import type { IRandomSource } from './interfaces';
+
+/**
+ * Holds enumerated values for the types of nodes within a parsed dice
+ * expression.
+ */
+export const DiceNodeTypes = {
+
+  /**
+   * A group of same-sized dice, ie. "2d6".
+   */
+  DICE: 'DICE',
+
+  /**
+   * A flat number, ie. "3".
+   */
+  CONSTANT: 'CONSTANT',
+
+  /**
+   * A named value supplied when evaluating, ie. "MOD" or "PB".
+   */
+  MODIFIER: 'MODIFIER',
+
+  NEGATE: 'NEGATE',
+  ADD: 'ADD',
+  SUBTRACT: 'SUBTRACT',
+} as const;
+export type EDiceNodeType = typeof DiceNodeTypes[keyof typeof DiceNodeTypes];
+
+export const diceNodeTypeHas = (key:string):boolean => enumHas(DiceNodeTypes, key);
+
+/**
+ * Which of the dice in a group are kept towards the total.
+ */
+export interface IDiceKeep {
+
+  /**
+   * Whether the highest dice are kept, otherwise the lowest.
+   */
+  highest : boolean;
+
+  amount : number;
+};
+
+export interface IDiceNodeDice {
+  type : typeof DiceNodeTypes.DICE;
+
+  /**
+   * How many dice are rolled.
+   */
+  count : number;
+
+  die : EDieSize;
+
+  /**
+   * Keeps only some of the dice, ie. "4d6kh3". Advantage and disadvantage
+   * are keeping the highest, or lowest, 1 of 2d20.
+   */
+  keep ?: IDiceKeep;
+
+  /**
+   * Dice rolling this value or lower are rerolled once, and the new roll is
+   * used, ie. "2d6r2".
+   */
+  reroll ?: number;
+
+  /**
+   * Dice rolling lower than this value are treated as this value,
+   * ie. "1d20min10".
+   */
+  minimum ?: number;
+
+  /**
+   * Dice rolling their highest face are rolled again and added, ie. "1d6!".
+   */
+  explode ?: boolean;
+};
+
+export interface IDiceNodeConstant {
+  type : typeof DiceNodeTypes.CONSTANT;
+  value : number;
+};
+
+export interface IDiceNodeModifier {
+  type : typeof DiceNodeTypes.MODIFIER;
+
+  /**
+   * Upper-case name of the modifier.
+   */
+  name : string;
+};
+
+export interface IDiceNodeNegate<Node> {
+  type : typeof DiceNodeTypes.NEGATE;
+  operand : Node;
+};
+
+export interface IDiceNodeBinary<Node> {
+  type : typeof DiceNodeTypes.ADD | typeof DiceNodeTypes.SUBTRACT;
+  left : Node;
+  right : Node;
+};
+
+/**
+ * A node within the abstract syntax tree of a dice expression.
+ */
+export type DiceNode = IDiceNodeDice
+  | IDiceNodeConstant
+  | IDiceNodeModifier
+  | IDiceNodeNegate<DiceNode>
+  | IDiceNodeBinary<DiceNode>;
+
+/**
+ * Values for the named modifiers in an expression, keyed by their names.
+ * Names are matched case-insensitively.
+ */
+export type DiceModifiers = {[name:string]: number};
+
+/**
+ * The result of rolling a single die within a group.
+ */
+export interface IDieResult {
+
+  /**
+   * The final value of the die, after any rerolls, minimums, or explosions.
+   */
+  value : number;
+
+  /**
+   * Every face rolled for this die in order, including rerolls and
+   * explosions.
+   */
+  rolls : Array<number>;
+
+  /**
+   * Whether the die counts towards the total.
+   */
+  kept : boolean;
+
+  rerolled : boolean;
+  exploded : boolean;
+};
+
+/**
+ * The results of rolling a single group of dice.
+ */
+export interface IDiceGroupResult {
+  die : EDieSize;
+
+  /**
+   * The result of each die rolled, in the order they where rolled.
+   */
+  results : Array<IDieResult>;
+
+  /**
+   * The sum of the kept dice.
+   */
+  total : number;
+};
+
+/**
+ * The results of rolling a dice expression.
+ */
+export interface IDiceRollResult {
+  total : number;
+
+  /**
+   * Each group of dice rolled, in the order they appear in the expression.
+   */
+  groups : Array<IDiceGroupResult>;
+};
+
+/**
+ * A lexical token of a dice expression.
+ */
+type DiceToken = {
+  text : string;
+  position : number;
+};
+
+/**
+ * The most times a single exploding die may explode, to prevent endless
+ * rolling.
+ */
+export const MAX_DICE_EXPLOSIONS = 100;
+
+/**
+ * The most probability that may be cut from the tails of a single die's
+ * distribution before keeping the highest, or lowest, dice of a group.
+ */
+export const KEEP_PROBABILITY_THRESHOLD = 1e-12;
+
+/**
+ * Matches a group of dice, ie. "2d6" or "d%", with any modifiers after.
+ */
+const regexpDice = /^(\d*)d(\d+|%)(.*)$/i;
+
+/**
+ * Matches each of the modifiers after a group of dice.
+ */
+const regexpDiceModifiers = /(kh|kl|k|dh|dl|r<?|min)(\d+)|(adv|dis)|(!)/gi;
+
+/**
+ * Matches each of the tokens within an expression, including anything
+ * unexpected so it may be reported.
+ */
+const regexpTokens = /\d*d(?:\d+|%)(?:(?:kh|kl|k|dh|dl|r<?|min)\d+|adv|dis|!)*|\d+|[a-z][a-z_]*|[+-]|\S/gi;
+
+/**
+ * Splits an expression into it's tokens.
+ *
+ * @param str Dice expression
+ * @returns Array of tokens
+ */
+const tokenize = (str:string):Array<DiceToken> => Array.from(str.matchAll(regexpTokens), (match:RegExpMatchArray) => ({
+  text: match[0],
+  position: match.index ?? 0,
+}));
+
+/**
+ * Recursive-descent parser over the tokens of an expression.
+ *
+ * Grammar:
+ * ```
+ * expression  := unary (("+" | "-") unary)*
+ * unary       := ("+" | "-") unary | term
+ * term        := dice | number | modifier
+ * dice        := [count] "d" (sides | "%") dice-modifier* [keep-phrase]
+ * keep-phrase := ("keep" | "drop") ("highest" | "lowest") [amount]
+ * ```
+ *
+ * Dice modifiers are:
+ * - "khN" or "kN" keep the highest N, "klN" keep the lowest N
+ * - "dhN" drop the highest N, "dlN" drop the lowest N
+ * - "keep highest N", "drop lowest N", etc. spelled out after the dice, with
+ *   N defaulting to 1
+ * - "adv" advantage, "dis" disadvantage (single die only)
+ * - "rN" or "r<N" reroll N or lower once
+ * - "minN" treat rolls below N as N
+ * - "!" explode on the highest face
+ */
+class DiceParser {
+  readonly source : string;
+
+  readonly tokens : Array<DiceToken>;
+
+  index = 0;
+
+  constructor(source:string) {
+    this.source = source;
+    this.tokens = tokenize(source);
+  }
+
+  error = (message:string, token?:DiceToken):SyntaxError => {
+    const position = token ? token.position : this.source.length;
+    return new SyntaxError(`Dice expression "${this.source}" ${message} at position ${position}.`);
+  };
+
+  parse = ():DiceNode => {
+    if(this.tokens.length === 0)
+      throw this.error('is empty');
+
+    const node = this.parseExpression();
+
+    if(this.index < this.tokens.length)
+      throw this.error(`has an unexpected "${this.tokens[this.index].text}"`, this.tokens[this.index]);
+
+    return node;
+  };
+
+  parseExpression = ():DiceNode => {
+    let node = this.parseUnary();
+
+    while(this.index < this.tokens.length && (this.tokens[this.index].text === '+' || this.tokens[this.index].text === '-')) {
+      const { text } = this.tokens[this.index];
+      this.index += 1;
+
+      node = {
+        type: (text === '+' ? DiceNodeTypes.ADD : DiceNodeTypes.SUBTRACT),
+        left: node,
+        right: this.parseUnary(),
+      };
+    }
+
+    return node;
+  };
+
+  parseUnary = ():DiceNode => {
+    const token = this.tokens[this.index];
+    if(token && token.text === '+') {
+      this.index += 1;
+      return this.parseUnary();
+    }
+
+    if(token && token.text === '-') {
+      this.index += 1;
+      return {
+        type: DiceNodeTypes.NEGATE,
+        operand: this.parseUnary(),
+      };
+    }
+
+    return this.parseTerm();
+  };
+
+  parseTerm = ():DiceNode => {
+    const token = this.tokens[this.index];
+    if(!token)
+      throw this.error('ended unexpectedly');
+
+    this.index += 1;
+
+    const dice = regexpDice.exec(token.text);
+    if(dice) {
+      const count = dice[1] ? parseInt(dice[1], 10) : 1;
+      if(count < 1)
+        throw this.error(`must roll at least 1 die, instead found "${token.text}"`, token);
+
+      const die = dieSizeFromSides(dice[2] === '%' ? 100 : parseInt(dice[2], 10));
+      if(die === DieSizes.UNKNOWN)
+        throw this.error(`uses an unknown die size "${token.text}"`, token);
+
+      const node:IDiceNodeDice = {
+        type: DiceNodeTypes.DICE,
+        count,
+        die,
+      };
+
+      const modified = Array.from(dice[3].matchAll(regexpDiceModifiers))
+        .reduce((acc:IDiceNodeDice, match:RegExpMatchArray) => this.parseDiceModifier(acc, match, token), node);
+
+      return this.parseKeepPhrase(modified);
+    }
+
+    if(/^\d+$/.test(token.text)) {
+      return {
+        type: DiceNodeTypes.CONSTANT,
+        value: parseInt(token.text, 10),
+      };
+    }
+
+    if(/^[A-Za-z]/.test(token.text)) {
+      return {
+        type: DiceNodeTypes.MODIFIER,
+        name: token.text.toUpperCase(),
+      };
+    }
+
+    throw this.error(`has an unexpected "${token.text}"`, token);
+  };
+
+  /**
+   * Parses a spelled out keep, or drop, phrase following a group of dice,
+   * ie. "4d6 drop lowest", or "4d6 keep highest 3". The amount defaults to 1.
+   *
+   * @param node Dice node the phrase applies to
+   * @returns The node with the keep applied, or as-is if there is no phrase
+   */
+  parseKeepPhrase = (node:IDiceNodeDice):IDiceNodeDice => {
+    const verb = this.tokens[this.index];
+    const which = this.tokens[this.index + 1];
+    if(!verb || !which || !/^(?:keep|drop)$/i.test(verb.text) || !/^(?:highest|lowest)$/i.test(which.text))
+      return node;
+
+    this.index += 2;
+
+    let last = which;
+    let amount = 1;
+    const amountToken = this.tokens[this.index];
+    if(amountToken && /^\d+$/.test(amountToken.text)) {
+      amount = parseInt(amountToken.text, 10);
+      last = amountToken;
+      this.index += 1;
+    }
+
+    const phrase:DiceToken = {
+      text: this.source.slice(verb.position, last.position + last.text.length),
+      position: verb.position,
+    };
+
+    return this.applyKeep(node, `${verb.text[0]}${which.text[0]}`, amount, phrase);
+  };
+
+  /**
+   * Applies a keep, or drop, modifier to a group of dice.
+   *
+   * @param node Dice node
+   * @param name Modifier name, one of "k", "kh", "kl", "dh", or "dl"
+   * @param amount Number of dice kept, or dropped
+   * @param token Token the modifier was found in, for errors
+   * @returns New dice node
+   */
+  applyKeep = (node:IDiceNodeDice, name:string, amount:number, token:DiceToken):IDiceNodeDice => {
+    if(node.keep)
+      throw this.error(`has more than one keep, or drop, modifier in "${token.text}"`, token);
+
+    const lower = name.toLowerCase();
+    const dropping = lower.startsWith('d');
+    const keep:IDiceKeep = {
+      highest: (lower !== 'kl' && lower !== 'dh'),
+      amount: (dropping ? node.count - amount : amount),
+    };
+    if(keep.amount < 1 || keep.amount > node.count)
+      throw this.error(`must keep between 1 and ${node.count} dice in "${token.text}"`, token);
+
+    return {
+      ...node,
+      keep,
+    };
+  };
+
+  parseDiceModifier = (node:IDiceNodeDice, match:RegExpMatchArray, token:DiceToken):IDiceNodeDice => {
+    const [
+      ,
+      name,
+      amountStr,
+      advantage,
+      explode,
+    ] = match;
+    const sides = dieSizeAsSides(node.die);
+
+    if(explode) {
+      if(node.explode)
+        throw this.error(`has more than one explode modifier in "${token.text}"`, token);
+
+      return {
+        ...node,
+        explode: true,
+      };
+    }
+
+    if(advantage) {
+      if(node.keep)
+        throw this.error(`has more than one keep, or drop, modifier in "${token.text}"`, token);
+      if(node.count !== 1)
+        throw this.error(`can only use advantage or disadvantage with a single die, instead found "${token.text}"`, token);
+
+      return {
+        ...node,
+        count: 2,
+        keep: {
+          highest: advantage.toLowerCase() === 'adv',
+          amount: 1,
+        },
+      };
+    }
+
+    const amount = parseInt(amountStr, 10);
+    switch(name.toLowerCase()) {
+      case 'k':
+      case 'kh':
+      case 'kl':
+      case 'dh':
+      case 'dl':
+        return this.applyKeep(node, name, amount, token);
+      case 'r':
+      case 'r<':
+        if(node.reroll)
+          throw this.error(`has more than one reroll modifier in "${token.text}"`, token);
+        if(amount < 1 || amount >= sides)
+          throw this.error(`must reroll values between 1 and ${sides - 1} in "${token.text}"`, token);
+
+        return {
+          ...node,
+          reroll: amount,
+        };
+      default:
+        if(node.minimum)
+          throw this.error(`has more than one minimum modifier in "${token.text}"`, token);
+        if(amount < 1 || amount > sides)
+          throw this.error(`must have a minimum between 1 and ${sides} in "${token.text}"`, token);
+
+        return {
+          ...node,
+          minimum: amount,
+        };
+    }
+  };
+}
+
+/**
+ * Looks up the value of a named modifier, matching case-insensitively.
+ *
+ * @throws Error if the modifier was not supplied
+ * @param modifiers Modifier values
+ * @param name Upper-case name of the modifier
+ * @returns Modifier value
+ */
+export const getDiceModifier = (modifiers:DiceModifiers, name:string):number => {
+  const key = Object.keys(modifiers).find((ent:string) => ent.toUpperCase() === name);
+  if(!key || typeof modifiers[key] !== 'number')
+    throw new Error(`Dice expression requires a value for the modifier "${name}".`);
+
+  return modifiers[key];
+};
+
+/**
+ * Rolls a single die.
+ *
+ * @param sides Number of sides on the die
+ * @param rng Source of random numbers
+ * @returns Face value from 1 to sides
+ */
+const rollDie = (sides:number, rng:IRandomSource):number => Math.min(Math.floor(rng.next() * sides) + 1, sides);
+
+/**
+ * Rolls a single die of a group, applying the group's reroll, minimum, and
+ * explode modifiers.
+ *
+ * @param node Dice node
+ * @param rng Source of random numbers
+ * @returns New IDieResult object, marked as kept
+ */
+const rollModifiedDie = (node:IDiceNodeDice, rng:IRandomSource):IDieResult => {
+  const sides = dieSizeAsSides(node.die);
+  const result:IDieResult = {
+    value: 0,
+    rolls: [],
+    kept: true,
+    rerolled: false,
+    exploded: false,
+  };
+
+  let explosions = 0;
+  let rolling = true;
+  while(rolling) {
+    let face = rollDie(sides, rng);
+    result.rolls.push(face);
+
+    if(node.reroll && face <= node.reroll) {
+      face = rollDie(sides, rng);
+      result.rolls.push(face);
+      result.rerolled = true;
+    }
+
+    result.value += Math.max(face, node.minimum ?? 0);
+
+    rolling = !!node.explode && face === sides && explosions < MAX_DICE_EXPLOSIONS;
+    if(rolling) {
+      explosions += 1;
+      result.exploded = true;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Rolls a group of dice, marking which are kept.
+ *
+ * @param node Dice node
+ * @param rng Source of random numbers
+ * @returns New IDiceGroupResult object
+ */
+const rollDiceNode = (node:IDiceNodeDice, rng:IRandomSource):IDiceGroupResult => {
+  const results = Array.from({ length: node.count }, () => rollModifiedDie(node, rng));
+
+  if(node.keep) {
+    const { highest, amount } = node.keep;
+
+    // Sort the indices so ties keep the earlier rolled dice
+    const order = results
+      .map((_ent:IDieResult, ind:number) => ind)
+      .sort((lhs:number, rhs:number) => {
+        const diff = results[rhs].value - results[lhs].value;
+        return (highest ? diff : -diff) || (lhs - rhs);
+      });
+
+    order.slice(amount).forEach((ind:number) => {
+      results[ind].kept = false;
+    });
+  }
+
+  return {
+    die: node.die,
+    results,
+    total: results.reduce((acc:number, ent:IDieResult) => acc + (ent.kept ? ent.value : 0), 0),
+  };
+};
+
+/**
+ * Calculates the probability distribution of the value of a single die of a
+ * group, including the group's reroll, minimum, and explode modifiers.
+ *
+ * @param node Dice node
+ * @returns New distribution
+ */
+const dieProbabilities = (node:IDiceNodeDice):Probabilities => {
+  const sides = dieSizeAsSides(node.die);
+  const reroll = node.reroll ?? 0;
+  const minimum = node.minimum ?? 0;
+
+  // Chance of each face, after rerolling once
+  const faces = Array.from({ length: sides }, (_val:unknown, ind:number) => (
+    ((ind + 1 > reroll ? 1 : 0) + (reroll / sides)) / sides
+  ));
+
+  // Value of the faces that do not explode, the highest face may
+  const settled:Array<number> = new Array(sides).fill(0);
+  faces.forEach((prob:number, ind:number) => {
+    if(node.explode && ind === sides - 1)
+      return;
+    settled[Math.max(ind + 1, minimum) - 1] += prob;
+  });
+
+  if(!node.explode) {
+    return trimProbabilities({
+      min: 1,
+      probabilities: settled,
+    });
+  }
+
+  /*
+   * Build up from the last allowed explosion, where the highest face no
+   * longer explodes, back to the first roll.
+   */
+  const explodeChance = faces[sides - 1];
+  const last = [ ...settled ];
+  last[sides - 1] += explodeChance;
+
+  const probabilities = Array.from({ length: MAX_DICE_EXPLOSIONS })
+    .reduce<Array<number>>((acc:Array<number>) => settled.concat(acc.map((prob:number) => prob * explodeChance)), last);
+
+  return trimProbabilities({
+    min: 1,
+    probabilities,
+  });
+};
+
+/**
+ * Calculates the probability distribution of the total of a group of dice,
+ * including all of it's modifiers.
+ *
+ * @param node Dice node
+ * @returns New distribution
+ */
+export const diceGroupProbabilities = (node:IDiceNodeDice):Probabilities => {
+  const single = dieProbabilities(node);
+
+  if(node.keep) {
+    /*
+     * The work to keep dice grows with the number of values a die can have,
+     * so the near impossible tail of exploding dice is cut off first.
+     */
+    const truncated = truncateProbabilities(single, KEEP_PROBABILITY_THRESHOLD);
+    return trimProbabilities(keepProbabilities(truncated, node.count, node.keep.amount, node.keep.highest));
+  }
+
+  return Array.from({ length: node.count - 1 })
+    .reduce<Probabilities>((acc:Probabilities) => convolveProbabilities(acc, single), single);
+};
+
+/**
+ * Evaluates a node, rolling any dice within it.
+ *
+ * @param node Expression node
+ * @param modifiers Modifier values
+ * @param rng Source of random numbers
+ * @param groups Array to push the results of each dice group into
+ * @returns Total value of the node
+ */
+const rollNode = (node:DiceNode, modifiers:DiceModifiers, rng:IRandomSource, groups:Array<IDiceGroupResult>):number => {
+  switch(node.type) {
+    case DiceNodeTypes.DICE: {
+      const group = rollDiceNode(node, rng);
+      groups.push(group);
+      return group.total;
+    }
+    case DiceNodeTypes.CONSTANT:
+      return node.value;
+    case DiceNodeTypes.MODIFIER:
+      return getDiceModifier(modifiers, node.name);
+    case DiceNodeTypes.NEGATE:
+      return -rollNode(node.operand, modifiers, rng, groups);
+    case DiceNodeTypes.ADD:
+      return rollNode(node.left, modifiers, rng, groups) + rollNode(node.right, modifiers, rng, groups);
+    case DiceNodeTypes.SUBTRACT:
+      return rollNode(node.left, modifiers, rng, groups) - rollNode(node.right, modifiers, rng, groups);
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Calculates the lowest and highest possible totals of a node.
+ *
+ * @param node Expression node
+ * @param modifiers Modifier values
+ * @returns Tuple of [ minimum, maximum ]
+ */
+const rangeOfNode = (node:DiceNode, modifiers:DiceModifiers):[number, number] => {
+  switch(node.type) {
+    case DiceNodeTypes.DICE: {
+      const sides = dieSizeAsSides(node.die);
+      const kept = node.keep ? node.keep.amount : node.count;
+      const dieMax = node.explode ? sides * (MAX_DICE_EXPLOSIONS + 1) : sides;
+
+      return [ kept * Math.max(node.minimum ?? 1, 1), kept * dieMax ];
+    }
+    case DiceNodeTypes.CONSTANT:
+      return [ node.value, node.value ];
+    case DiceNodeTypes.MODIFIER: {
+      const value = getDiceModifier(modifiers, node.name);
+      return [ value, value ];
+    }
+    case DiceNodeTypes.NEGATE: {
+      const [ min, max ] = rangeOfNode(node.operand, modifiers);
+      return [ -max, -min ];
+    }
+    case DiceNodeTypes.ADD: {
+      const [ leftMin, leftMax ] = rangeOfNode(node.left, modifiers);
+      const [ rightMin, rightMax ] = rangeOfNode(node.right, modifiers);
+      return [ leftMin + rightMin, leftMax + rightMax ];
+    }
+    case DiceNodeTypes.SUBTRACT: {
+      const [ leftMin, leftMax ] = rangeOfNode(node.left, modifiers);
+      const [ rightMin, rightMax ] = rangeOfNode(node.right, modifiers);
+      return [ leftMin - rightMax, leftMax - rightMin ];
+    }
+    default:
+      return [ 0, 0 ];
+  }
+};
+
+/**
+ * Calculates the average (expected) total of a node.
+ *
+ * @param node Expression node
+ * @param modifiers Modifier values
+ * @returns Average total
+ */
+const averageOfNode = (node:DiceNode, modifiers:DiceModifiers):number => {
+  switch(node.type) {
+    case DiceNodeTypes.DICE:
+      if(node.keep)
+        return meanOfProbabilities(diceGroupProbabilities(node));
+      return node.count * meanOfProbabilities(dieProbabilities(node));
+    case DiceNodeTypes.CONSTANT:
+      return node.value;
+    case DiceNodeTypes.MODIFIER:
+      return getDiceModifier(modifiers, node.name);
+    case DiceNodeTypes.NEGATE:
+      return -averageOfNode(node.operand, modifiers);
+    case DiceNodeTypes.ADD:
+      return averageOfNode(node.left, modifiers) + averageOfNode(node.right, modifiers);
+    case DiceNodeTypes.SUBTRACT:
+      return averageOfNode(node.left, modifiers) - averageOfNode(node.right, modifiers);
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Converts a node back into it's standard notation.
+ *
+ * @param node Expression node
+ * @returns Dice notation string
+ */
+const stringifyNode = (node:DiceNode):string => {
+  switch(node.type) {
+    case DiceNodeTypes.DICE: {
+      let str = `${node.count}d${dieSizeAsSides(node.die)}`;
+      if(node.reroll)
+        str += `r${node.reroll}`;
+      if(node.minimum)
+        str += `min${node.minimum}`;
+      if(node.explode)
+        str += '!';
+      if(node.keep)
+        str += `${node.keep.highest ? 'kh' : 'kl'}${node.keep.amount}`;
+      return str;
+    }
+    case DiceNodeTypes.CONSTANT:
+      return `${node.value}`;
+    case DiceNodeTypes.MODIFIER:
+      return node.name;
+    case DiceNodeTypes.NEGATE:
+      return `-${stringifyNode(node.operand)}`;
+    case DiceNodeTypes.ADD:
+      return `${stringifyNode(node.left)} + ${stringifyNode(node.right)}`;
+    case DiceNodeTypes.SUBTRACT:
+      return `${stringifyNode(node.left)} - ${stringifyNode(node.right)}`;
+    default:
+      return '';
+  }
+};
+
+/**
+ * Collects the names of all the modifiers used by a node.
+ *
+ * @param node Expression node
+ * @returns Array of upper-case names, may contain duplicates
+ */
+const modifiersOfNode = (node:DiceNode):Array<string> => {
+  switch(node.type) {
+    case DiceNodeTypes.MODIFIER:
+      return [ node.name ];
+    case DiceNodeTypes.NEGATE:
+      return modifiersOfNode(node.operand);
+    case DiceNodeTypes.ADD:
+    case DiceNodeTypes.SUBTRACT:
+      return modifiersOfNode(node.left).concat(modifiersOfNode(node.right));
+    default:
+      return [];
+  }
+};
+
+/**
+ * A parsed dice expression in standard notation, such as "8d6" or
+ * "1d8 + MOD".
+ *
+ * Expressions may contain any number of dice groups, constant numbers, and
+ * named modifiers (such as "MOD" or "PB") combined by addition and
+ * subtraction. Modifiers are given their values when the expression is
+ * evaluated.
+ *
+ * Dice groups may be followed by roll modifiers:
+ * - Keep, or drop, dice: "4d6kh3", "4d6dl1", "2d20kl1", or spelled out as
+ *   "4d6 drop lowest", "4d6 keep highest 3"
+ * - Advantage, or disadvantage: "1d20adv", "1d20dis"
+ * - Reroll once on a value or lower: "2d6r2"
+ * - Minimum roll: "1d20min10"
+ * - Exploding on the highest face: "1d6!"
+ */
+export default class DiceExpression {
+  /**
+   * Parses a dice expression into it's abstract syntax tree.
+   *
+   * @throws SyntaxError if the expression is malformed
+   * @param str Dice expression
+   * @returns Root node of the expression
+   */
+  public static readonly parse = (str:string):DiceNode => new DiceParser(str).parse();
+
+  /**
+   * Checks if the given string is a valid dice expression.
+   *
+   * @param str Dice expression
+   * @returns True if it can be parsed
+   */
+  public static readonly test = (str:string):boolean => {
+    try {
+      DiceExpression.parse(str);
+      return true;
+    } catch (err) {
+      return false;
+    }
+  };
+
+  /**
+   * The original expression this object was parsed from.
+   */
+  readonly source : string;
+
+  /**
+   * The root node of the parsed abstract syntax tree.
+   */
+  readonly root : DiceNode;
+
+  /**
+   * Constructs a new DiceExpression by parsing the given notation.
+   *
+   * @throws SyntaxError if the expression is malformed
+   * @param expression Dice expression
+   */
+  constructor(expression:string) {
+    if(typeof expression !== 'string')
+      throw new TypeError(`DiceExpression requires a string expression, instead found "${typeof expression}".`);
+
+    this.source = expression;
+    this.root = DiceExpression.parse(expression);
+  }
+
+  /**
+   * Rolls the expression.
+   *
+   * @throws Error if a modifier used is not supplied
+   * @param modifiers Values for the named modifiers
+   * @param rng Source of random numbers, defaults to getDefaultRandom()
+   * @returns The total and individual dice results
+   */
+  roll = (modifiers:DiceModifiers = {}, rng:IRandomSource = getDefaultRandom()):IDiceRollResult => {
+    const groups:Array<IDiceGroupResult> = [];
+    const total = rollNode(this.root, modifiers, rng, groups);
+
+    return {
+      total,
+      groups,
+    };
+  };
+
+  /**
+   * Gets the lowest possible total of the expression.
+   *
+   * @throws Error if a modifier used is not supplied
+   * @param modifiers Values for the named modifiers
+   * @returns Minimum total
+   */
+  min = (modifiers:DiceModifiers = {}):number => rangeOfNode(this.root, modifiers)[0];
+
+  /**
+   * Gets the highest possible total of the expression.
+   *
+   * @throws Error if a modifier used is not supplied
+   * @param modifiers Values for the named modifiers
+   * @returns Maximum total
+   */
+  max = (modifiers:DiceModifiers = {}):number => rangeOfNode(this.root, modifiers)[1];
+
+  /**
+   * Gets the average total of the expression, which may be fractional.
+   *
+   * @throws Error if a modifier used is not supplied
+   * @param modifiers Values for the named modifiers
+   * @returns Average total
+   */
+  average = (modifiers:DiceModifiers = {}):number => averageOfNode(this.root, modifiers);
+
+  /**
+   * Gets the names of the modifiers that need values to evaluate this
+   * expression.
+   *
+   * @returns Array of unique upper-case names
+   */
+  getModifierNames = ():Array<string> => Array.from(new Set(modifiersOfNode(this.root)));
+
+  /**
+   * Converts this expression into standard notation, ie. "2d6 + MOD".
+   */
+  toString = ():string => stringifyNode(this.root);
+}
@@ -25,3 +25,49 @@ export const DieSizes = {
 export type EDieSize = typeof DieSizes[keyof typeof DieSizes];
 
 export const dieSizeHas = (key:string):boolean => enumHas(DieSizes, key);
+
+/**
+ * Gets the number of sides on a die of the given size.
+ * 
+ * Returns 0 if the value is unknown or incorrect.
+ * 
+ * @param size Given die size
+ * @returns Number of sides
+ */
+export const dieSizeAsSides = (size:EDieSize):number => {
+  switch(size) {
+    case DieSizes.D2:
+      return 2;
+    case DieSizes.D4:
+      return 4;
+    case DieSizes.D6:
+      return 6;
+    case DieSizes.D8:
+      return 8;
+    case DieSizes.D10:
+      return 10;
+    case DieSizes.D12:
+      return 12;
+    case DieSizes.D20:
+      return 20;
+    case DieSizes.D100:
+      return 100;
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Gets the die size for a die with the given number of sides.
+ * 
+ * Returns UNKNOWN if there is no standard die with that many sides.
+ * 
+ * @param sides Number of sides
+ * @returns Die size enum
+ */
+export const dieSizeFromSides = (sides:number):EDieSize => {
+  const size = (Object.values(DieSizes) as Array<EDieSize>)
+    .find((ent:EDieSize) => ent !== DieSizes.UNKNOWN && dieSizeAsSides(ent) === sides);
+
+  return size ?? DieSizes.UNKNOWN;
+};
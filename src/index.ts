@@ -8,6 +8,9 @@
 export * from './alignment';
 export * from './creature-size';
 export * from './currency';
+export * from './currency-system';
+export * from './dice';
+export * from './dice-distribution';
 export * from './die-size';
 export * from './lifestyle';
 export * from './options';
@@ -1,4 +1,5 @@
 export * from './arrays';
 export * from './assignable';
 export * from './json';
+export * from './random';
 export * from './validatable';
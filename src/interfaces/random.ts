@@ -0,0 +1,16 @@
+/**
+ * A source of random numbers.
+ *
+ * Anything producing random results (dice, treasure, etc.) takes one of
+ * these so that the results can be made deterministic for testing, or for
+ * replaying a session.
+ */
+export interface IRandomSource {
+
+    /**
+     * Generates the next random number.
+     *
+     * @returns Floating-point number from 0 (inclusive) to 1 (exclusive)
+     */
+    next():number;
+}
@@ -74,3 +74,10 @@ export type ValidateArrayCB = (prop:any, ind?:number) => ValidationErrors;
  * down.
  */
 export type ValidateObjectCB = (prop:any) => ValidationErrors;
+
+
+/**
+ * Signature for a class constructor whose instances are validatable.
+ * Used when validating properties that should hold class instances.
+ */
+export type ValidatableClass = new (...args:Array<any>) => IValidatable;
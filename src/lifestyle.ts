@@ -2,6 +2,7 @@
  * Copyright(C) 2021 Chris Pikul. Under MIT license. 
  * See "LICENSE" in the root project folder.
  */
+import Currency, { ICurrency } from './currency';
 import { enumHas } from './utils/enums';
 
 /**
@@ -59,3 +60,52 @@ export const Lifestyles = {
 export type ELifestyle = typeof Lifestyles[keyof typeof Lifestyles];
 
 export const lifestylesHas = (key:string):boolean => enumHas(Lifestyles, key);
+
+/**
+ * The daily cost of each lifestyle, from the Player's Handbook. The
+ * aristocratic cost is the minimum, as the real cost can be much higher.
+ */
+export const LifestyleDailyCosts: { readonly [key in Exclude<ELifestyle, 'UNKNOWN'>]: ICurrency } = {
+  WRETCHED: {},
+  SQUALID: { silver: 1 },
+  POOR: { silver: 2 },
+  MODEST: { gold: 1 },
+  COMFORTABLE: { gold: 2 },
+  WEALTHY: { gold: 4 },
+  ARISTOCRATIC: { gold: 10 },
+};
+
+/**
+ * The number of days in a month when paying for lifestyles.
+ */
+export const LIFESTYLE_DAYS_PER_MONTH = 30;
+
+/**
+ * Calculates the cost of living a lifestyle for a number of days, such as
+ * during downtime.
+ *
+ * If `wholeMonths` is true, the days are rounded up to whole months of
+ * LIFESTYLE_DAYS_PER_MONTH, as when paying rent up front. Otherwise each day
+ * is paid for separately.
+ *
+ * The cost is balanced up to gold, matching the prices in the Player's
+ * Handbook.
+ *
+ * @throws RangeError if the lifestyle has no cost, or the days are invalid
+ * @param lifestyle Lifestyle being lived
+ * @param days Number of days, a whole number of 0 or more
+ * @param wholeMonths Whether to charge for whole months
+ * @returns New Currency object
+ */
+export const getLifestyleCost = (lifestyle:ELifestyle, days = 1, wholeMonths = false):Currency => {
+  if(lifestyle === Lifestyles.UNKNOWN || !lifestylesHas(lifestyle))
+    throw new RangeError(`Lifestyle "${lifestyle}" does not have a cost.`);
+  if(!Number.isInteger(days) || days < 0)
+    throw new RangeError(`Lifestyle cost requires a whole number of days, instead found "${days}".`);
+
+  const billed = wholeMonths ? Math.ceil(days / LIFESTYLE_DAYS_PER_MONTH) * LIFESTYLE_DAYS_PER_MONTH : days;
+  const cost = new Currency(LifestyleDailyCosts[lifestyle]).times(billed);
+  cost.balance(false);
+
+  return cost;
+};
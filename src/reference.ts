@@ -10,7 +10,11 @@ import {
   ValidationErrors,
 } from './interfaces';
 
-import { ResourceType, resourceTypeHas } from './resource-type';
+import {
+  EResourceType,
+  ResourceTypes,
+  resourceTypeHas,
+} from './resource-type';
 
 import {
   isPlainObject,
@@ -35,7 +39,7 @@ export interface IReference {
      * The given resource type that this reference points to.
      * Must be of the valid ResourceType enums.
      */
-    readonly type : ResourceType;
+    readonly type : EResourceType;
 
     /**
      * The relative URI that points to the object in reference.
@@ -50,6 +54,29 @@ export interface IReference {
     name : string;
 }
 
+/**
+ * Creates the properties for a reference of a specific resource type. When
+ * no properties are supplied, the reference points to the root URI so an
+ * empty reference of the type can still be made.
+ *
+ * @param props Reference | JSON Object, if any
+ * @param type Resource type of the reference
+ * @returns New properties object
+ */
+const makeTypedProps = (props:any, type:EResourceType):any => {
+  if(typeof props === 'undefined' || props === null) {
+    return {
+      type,
+      uri: '/',
+    };
+  }
+
+  return {
+    ...props,
+    type,
+  };
+};
+
 /**
  * Holds a reference to another resource.
  * Used to link between different objects.
@@ -69,7 +96,7 @@ export default class Reference implements IReference, IAssignable, IValidatable
      * @returns True if the object has the default values
      */
     public static isZeroValue = (obj:Reference):boolean => (
-      obj.type === ResourceType.UNKNOWN
+      obj.type === ResourceTypes.UNKNOWN
         && obj.uri === '/'
         && obj.name === 'Unknown Reference'
     );
@@ -94,7 +121,7 @@ export default class Reference implements IReference, IAssignable, IValidatable
      * The given resource type that this reference points to.
      * Must be of the valid ResourceType enums.
      */
-    readonly type : ResourceType;
+    readonly type : EResourceType;
 
     /**
      * The relative URI that points to the object in reference.
@@ -117,7 +144,7 @@ export default class Reference implements IReference, IAssignable, IValidatable
      * @param props Reference | JSON Object
      */
     constructor(props?:any) {
-      this.type = ResourceType.UNKNOWN;
+      this.type = ResourceTypes.UNKNOWN;
       this.uri = '/';
       this.name = 'Unknown Reference';
 
@@ -135,7 +162,7 @@ export default class Reference implements IReference, IAssignable, IValidatable
 
           // Because of readonly attribute, got to do the others here
           if(props.type && typeof props.type === 'string' && resourceTypeHas(props.type))
-            this.type = props.type as ResourceType;
+            this.type = props.type as EResourceType;
                 
           if(props.uri && typeof props.type === 'string')
             this.uri = props.uri;
@@ -160,8 +187,8 @@ export default class Reference implements IReference, IAssignable, IValidatable
       const clsName = this.constructor.name;
       const errs:ValidationErrors = [];
 
-      validateEnum(errs, clsName, 'type', this.type, ResourceType);
-      if(this.type === ResourceType.UNKNOWN)
+      validateEnum(errs, clsName, 'type', this.type, ResourceTypes);
+      if(this.type === ResourceTypes.UNKNOWN)
         errs.push(`${clsName}.type should not be "UNKNOWN", and instead should be a valid ResourceType enumeration.`);
 
       validateString(errs, clsName, 'uri', this.uri, { regexp: RegexpURI });
@@ -180,234 +207,156 @@ export default class Reference implements IReference, IAssignable, IValidatable
 
 export class ReferenceAbilityScore extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.ABILITY_SCORE,
-    });
+    super(makeTypedProps(props, ResourceTypes.ABILITY_SCORE));
   }
 }
 
 export class ReferenceAction extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.ACTION,
-    });
+    super(makeTypedProps(props, ResourceTypes.ACTION));
   }
 }
 
 export class ReferenceBackground extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.BACKGROUND,
-    });
+    super(makeTypedProps(props, ResourceTypes.BACKGROUND));
   }
 }
 
 export class ReferenceClass extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.CLASS,
-    });
+    super(makeTypedProps(props, ResourceTypes.CLASS));
   }
 }
 
 export class ReferenceClassFeature extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.CLASS_FEATURE,
-    });
+    super(makeTypedProps(props, ResourceTypes.CLASS_FEATURE));
   }
 }
 
 export class ReferenceCondition extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.CONDITION,
-    });
+    super(makeTypedProps(props, ResourceTypes.CONDITION));
   }
 }
 
 export class ReferenceDamageType extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.DAMAGE_TYPE,
-    });
+    super(makeTypedProps(props, ResourceTypes.DAMAGE_TYPE));
   }
 }
 
 export class ReferenceDeity extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.DEITY,
-    });
+    super(makeTypedProps(props, ResourceTypes.DEITY));
   }
 }
 
 export class ReferenceDisease extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.DISEASE,
-    });
+    super(makeTypedProps(props, ResourceTypes.DISEASE));
   }
 }
 
 export class ReferenceEquipmentPack extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.EQUIPMENT_PACK,
-    });
+    super(makeTypedProps(props, ResourceTypes.EQUIPMENT_PACK));
   }
 }
 
 export class ReferenceFeat extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.FEAT,
-    });
+    super(makeTypedProps(props, ResourceTypes.FEAT));
   }
 }
 
 export class ReferenceHazard extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.HAZARD,
-    });
+    super(makeTypedProps(props, ResourceTypes.HAZARD));
   }
 }
 
 export class ReferenceItem extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.ITEM,
-    });
+    super(makeTypedProps(props, ResourceTypes.ITEM));
   }
 }
 
 export class ReferenceItemCategory extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.ITEM_CATEGORY,
-    });
+    super(makeTypedProps(props, ResourceTypes.ITEM_CATEGORY));
   }
 }
 
 export class ReferenceLanguage extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.LANGUAGE,
-    });
+    super(makeTypedProps(props, ResourceTypes.LANGUAGE));
   }
 }
 
 export class ReferenceMagicSchool extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.MAGIC_SCHOOL,
-    });
+    super(makeTypedProps(props, ResourceTypes.MAGIC_SCHOOL));
   }
 }
 
 export class ReferenceMonster extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.MONSTER,
-    });
+    super(makeTypedProps(props, ResourceTypes.MONSTER));
   }
 }
 
 export class ReferenceProficiency extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.PROFICIENCY,
-    });
+    super(makeTypedProps(props, ResourceTypes.PROFICIENCY));
   }
 }
 
 export class ReferenceRace extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.RACE,
-    });
+    super(makeTypedProps(props, ResourceTypes.RACE));
   }
 }
 
 export class ReferenceSkill extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.SKILL,
-    });
+    super(makeTypedProps(props, ResourceTypes.SKILL));
   }
 }
 
 export class ReferenceSpell extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.SPELL,
-    });
+    super(makeTypedProps(props, ResourceTypes.SPELL));
   }
 }
 
 export class ReferenceSubRace extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.SUB_RACE,
-    });
+    super(makeTypedProps(props, ResourceTypes.SUB_RACE));
   }
 }
 
 export class ReferenceTrait extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.TRAIT,
-    });
+    super(makeTypedProps(props, ResourceTypes.TRAIT));
   }
 }
 
 export class ReferenceTrap extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.TRAP,
-    });
+    super(makeTypedProps(props, ResourceTypes.TRAP));
   }
 }
 
 export class ReferenceVehicle extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.VEHICLE,
-    });
+    super(makeTypedProps(props, ResourceTypes.VEHICLE));
   }
 }
 
 export class ReferenceWeaponProperty extends Reference {
   constructor(props?:any) {
-    super({
-      ...(props || {}),
-      type: ResourceType.WEAPON_PROPERTY,
-    });
+    super(makeTypedProps(props, ResourceTypes.WEAPON_PROPERTY));
   }
 }
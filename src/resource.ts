@@ -8,7 +8,11 @@ import type {
   ValidationErrors,
 } from './interfaces';
 
-import { ResourceType, resourceTypeHas } from './resource-type';
+import {
+  EResourceType,
+  ResourceTypes,
+  resourceTypeHas,
+} from './resource-type';
 import TextBlock from './text-block';
 import Source, { ISource } from './source';
 
@@ -19,7 +23,7 @@ import {
   validateString,
   RegexpKabob,
   RegexpURI,
-  validateObject,
+  validateInstance,
   validateArray,
 } from './utils';
 
@@ -38,7 +42,7 @@ export interface IResource {
     /**
      * The enumerated type string that this resource represents
      */
-    readonly type : ResourceType;
+    readonly type : EResourceType;
 
     /**
      * A unique ID (within the scope of the resource's type)
@@ -93,7 +97,7 @@ export interface IResource {
 }
 
 export interface IResourceClassProps {
-  type ?: ResourceType;
+  type ?: EResourceType;
   uriBase ?: string;
 }
 
@@ -127,7 +131,7 @@ export default abstract class Resource implements IResource, IValidatable {
     /**
      * The enumerated type string that this resource represents
      */
-     readonly type : ResourceType;
+     readonly type : EResourceType;
 
     /**
      * A unique ID (within the scope of the resource's type)
@@ -190,7 +194,7 @@ export default abstract class Resource implements IResource, IValidatable {
      * @param classProps IResourceClassProps additional properties to override
      */
     constructor(props?:any, classProps?:IResourceClassProps) {
-      this.type = ResourceType.UNKNOWN;
+      this.type = ResourceTypes.UNKNOWN;
       this.id = 'unknown';
       this.uri = '/';
       this.name = 'Unknown Resource';
@@ -211,7 +215,7 @@ export default abstract class Resource implements IResource, IValidatable {
           this.uri = props.uri;
           this.name = props.name;
           this.description = new TextBlock(props.description);
-          this.source = props.source;
+          this.source = new Source(props.source);
           this.tags = [ ...props.tags ];
         } else {
           console.warn(`Attempting to instantiate a Resource object with an invalid parameter. Expected either a Resource object, or a plain JSON Object of properties. Instead encountered a "${typeof props}"`);
@@ -221,7 +225,7 @@ export default abstract class Resource implements IResource, IValidatable {
       if(classProps && typeof classProps === 'object') {
         // Assign the class provided properties here
         if(classProps.type && typeof classProps.type === 'string' && resourceTypeHas(classProps.type))
-          this.type = classProps.type as ResourceType;
+          this.type = classProps.type as EResourceType;
 
         /*
          * Try to generate a URI using the classes base.
@@ -234,12 +238,21 @@ export default abstract class Resource implements IResource, IValidatable {
       }
     }
 
-    validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    /**
+     * Validates the base resource properties asynchronously.
+     *
+     * Child classes override validate() with their own arrow function
+     * property, so there is no `super.validate()` for them to call. Use this
+     * instead.
+     *
+     * @returns Promise resolving to the array of errors
+     */
+    protected validateResource = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
       const clsName = this.constructor.name ?? 'Resource';
       const errs:ValidationErrors = [];
 
       // Handle the primitives in a sync style
-      validateEnum(errs, clsName, 'type', this.type, ResourceType);
+      validateEnum(errs, clsName, 'type', this.type, ResourceTypes);
       validateString(errs, clsName, 'id', this.id, { regexp: RegexpKabob });
       validateString(errs, clsName, 'uri', this.uri, { regexp: RegexpURI });
       validateString(errs, clsName, 'name', this.name);
@@ -275,16 +288,25 @@ export default abstract class Resource implements IResource, IValidatable {
       });
     });
 
-    validateSync = ():ValidationErrors => {
+    /**
+     * Validates the base resource properties.
+     *
+     * Child classes override validateSync() with their own arrow function
+     * property, so there is no `super.validateSync()` for them to call. Use
+     * this instead.
+     *
+     * @returns Array of errors
+     */
+    protected validateResourceSync = ():ValidationErrors => {
       const clsName = this.constructor.name ?? 'Resource';
       const errs:ValidationErrors = [];
 
-      validateEnum(errs, clsName, 'type', this.type, ResourceType);
+      validateEnum(errs, clsName, 'type', this.type, ResourceTypes);
       validateString(errs, clsName, 'id', this.id, { regexp: RegexpKabob });
       validateString(errs, clsName, 'uri', this.uri, { regexp: RegexpURI });
       validateString(errs, clsName, 'name', this.name);
-      validateObject(errs, clsName, 'description', this.description, this.description.validateSync);
-      validateObject(errs, clsName, 'source', this.source, this.source.validateSync);
+      validateInstance(errs, clsName, 'description', this.description, TextBlock);
+      validateInstance(errs, clsName, 'source', this.source, Source);
       validateArray(errs, clsName, 'tags', this.tags, (prop:any, ind:number):ValidationErrors => {
         const subErrs:ValidationErrors = [];
 
@@ -303,6 +325,10 @@ export default abstract class Resource implements IResource, IValidatable {
       return errs;
     };
 
+    validate = ():PromiseValidation => this.validateResource();
+
+    validateSync = ():ValidationErrors => this.validateResourceSync();
+
     isValid = async():Promise<boolean> => ((await this.validate()).length === 0);
 
     isValidSync = ():boolean => (this.validateSync().length === 0);
@@ -103,7 +103,7 @@ export default class AbilityScore extends Resource implements IAbilityScore, IVa
   }
 
   validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
-    super.validate().then((supErrs:ValidationErrors) => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
       /*
        * Use the validateSync option and combine with the super errors.
        * We use the parameter here to let the super validation be async and then
@@ -114,7 +114,7 @@ export default class AbilityScore extends Resource implements IAbilityScore, IVa
   });
 
   validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
-    const errs = parentErrs ?? super.validateSync();
+    const errs = parentErrs ?? this.validateResourceSync();
 
     validateString(errs, 'AbilityScore', 'abbreviation', this.abbreviation, { absLength: 3 });
 
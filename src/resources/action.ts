@@ -152,7 +152,7 @@ export default class Action extends Resource implements IAction, IValidatable {
   }
 
   validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
-    super.validate().then((supErrs:ValidationErrors) => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
       /*
        * Use the validateSync option and combine with the super errors.
        * We use the parameter here to let the super validation be async and then
@@ -163,7 +163,7 @@ export default class Action extends Resource implements IAction, IValidatable {
   });
 
   validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
-    const errs:ValidationErrors = parentErrs ?? super.validateSync();
+    const errs:ValidationErrors = parentErrs ?? this.validateResourceSync();
 
     validateBoolean(errs, 'Action', 'isVariant', this.isVariant);
 
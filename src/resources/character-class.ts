@@ -0,0 +1,606 @@
+import Resource from '../resource';
+
+import Reference, {
+  IReference,
+  ReferenceAbilityScore,
+  ReferenceClass,
+  ReferenceClassFeature,
+} from '../reference';
+
+import { ResourceTypes } from '../resource-type';
+import TextSection from '../text-section';
+
+import {
+  makeOptionsArray,
+  OptionsArray,
+  validateOptionsArraySync,
+} from '../options';
+
+import {
+  isPlainObject,
+  validateArray,
+  validateArrayOfObjects,
+  validateBoolean,
+  validateInstance,
+  validateInteger,
+  validateObject,
+} from '../utils';
+
+import type {
+  IValidatable,
+  JSONObject,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  makeStrictValidateArrayWrongType,
+  strictValidateOptionalArrayProp,
+  strictValidateOptionalObjectProp,
+  strictValidateOptionalProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredArrayProp,
+  strictValidateRequiredObjectProp,
+  strictValidateRequiredProp,
+} from '../utils/errors';
+
+/**
+ * The spells known and slots available at a given class level.
+ */
+export interface ICharacterClassLevelSpellcasting {
+
+  /**
+   * Number of cantrips known.
+   */
+  cantrips : number;
+
+  /**
+   * Number of spells known.
+   */
+  spells : number;
+
+  /**
+   * Spell slots available for each spell level, index 0 being 1st level
+   * spells, through to index 8 being 9th level spells.
+   */
+  slots : Array<number>;
+};
+
+/**
+ * A single entry in the level progression table of a class.
+ */
+export interface ICharacterClassLevel {
+
+  /**
+   * The character level this entry applies to, 1 through 20.
+   */
+  level : number;
+
+  /**
+   * Whether an ability score increase is granted at this level.
+   */
+  abilityScoreIncrease ?: boolean;
+
+  proficiencyBonus : number;
+
+  spellcasting ?: ICharacterClassLevelSpellcasting;
+
+  /**
+   * The class features gained at this level.
+   */
+  features : Array<ReferenceClassFeature>;
+
+  /**
+   * Free-form data that only applies to the specific class,
+   * ie. a barbarian's rage count.
+   */
+  classSpecific ?: JSONObject;
+};
+
+/**
+ * The proficiencies a class grants when first taken.
+ */
+export interface ICharacterClassProficiencies {
+  savingThrows : Array<Reference>;
+  starting : Array<Reference>;
+  options ?: OptionsArray<Reference>;
+  equipment ?: Array<Reference>;
+};
+
+/**
+ * A reference to an item, or group of items, and how many are given.
+ */
+export interface ICharacterClassEquipmentItem extends IReference {
+  amount ?: number;
+};
+
+/**
+ * The starting equipment of a class.
+ *
+ * Each entry of `options` is a choice to be made, and each entry within
+ * that choice is one of the possible bundles of items that may be picked.
+ */
+export interface ICharacterClassEquipment {
+  starting : Array<ICharacterClassEquipmentItem>;
+  options : Array<Array<Array<ICharacterClassEquipmentItem>>>;
+};
+
+/**
+ * Describes how a class casts spells.
+ */
+export interface ICharacterClassSpellcasting {
+
+  /**
+   * The class level at which spellcasting becomes available.
+   */
+  startingLevel : number;
+
+  /**
+   * The ability score used as the spellcasting ability.
+   */
+  abilityScore : ReferenceAbilityScore;
+
+  info ?: Array<TextSection>;
+};
+
+/**
+ * Describes the class of an (N)PC.
+ *
+ * Schema: /class.schema.json
+ */
+export interface ICharacterClass {
+
+  /**
+   * Which hit-die size is used, ie. 8 for a d8.
+   */
+  hitDie : number;
+
+  proficiencies : ICharacterClassProficiencies;
+
+  /**
+   * The level progression table, always 20 entries.
+   */
+  levels : Array<ICharacterClassLevel>;
+
+  equipment : ICharacterClassEquipment;
+
+  spellcasting ?: ICharacterClassSpellcasting;
+
+  subClasses ?: Array<ReferenceClass>;
+};
+
+/**
+ * Describes the class of an (N)PC.
+ *
+ * Schema: /class.schema.json
+ */
+export default class CharacterClass extends Resource implements ICharacterClass, IValidatable {
+  /**
+   * The number of entries required in the levels table.
+   */
+  public static readonly LEVEL_COUNT = 20;
+
+  /**
+   * The die sizes a class may use for its hit-die.
+   */
+  public static readonly HIT_DICE:ReadonlyArray<number> = [
+    4,
+    6,
+    8,
+    10,
+    12,
+    20,
+  ];
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'CharacterClass');
+
+    strictValidateRequiredProp(props, 'CharacterClass', 'hitDie', 'number');
+    strictValidateRequiredObjectProp(props, 'CharacterClass', 'proficiencies', CharacterClass.strictValidateProficienciesProps);
+    strictValidateRequiredArrayProp(props, 'CharacterClass', 'levels', CharacterClass.strictValidateLevelProps);
+    strictValidateRequiredObjectProp(props, 'CharacterClass', 'equipment', CharacterClass.strictValidateEquipmentProps);
+    strictValidateOptionalObjectProp(props, 'CharacterClass', 'spellcasting', CharacterClass.strictValidateSpellcastingProps);
+    strictValidateOptionalArrayProp(props, 'CharacterClass', 'subClasses', ReferenceClass.strictValidateProps);
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateProficienciesProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'CharacterClass::Proficiencies');
+
+    strictValidateRequiredArrayProp(props, 'CharacterClass::Proficiencies', 'savingThrows', Reference.strictValidateProps);
+    strictValidateRequiredArrayProp(props, 'CharacterClass::Proficiencies', 'starting', Reference.strictValidateProps);
+    strictValidateOptionalArrayProp(props, 'CharacterClass::Proficiencies', 'options', 'object');
+    strictValidateOptionalArrayProp(props, 'CharacterClass::Proficiencies', 'equipment', Reference.strictValidateProps);
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateLevelProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'CharacterClass::Level');
+
+    strictValidateRequiredProp(props, 'CharacterClass::Level', 'level', 'number');
+    strictValidateOptionalProp(props, 'CharacterClass::Level', 'abilityScoreIncrease', 'boolean');
+    strictValidateRequiredProp(props, 'CharacterClass::Level', 'proficiencyBonus', 'number');
+    strictValidateOptionalObjectProp(props, 'CharacterClass::Level', 'spellcasting', (spells:any):void => {
+      strictValidateOptionalProp(spells, 'CharacterClass::Level.spellcasting', 'cantrips', 'number');
+      strictValidateOptionalProp(spells, 'CharacterClass::Level.spellcasting', 'spells', 'number');
+      strictValidateRequiredArrayProp(spells, 'CharacterClass::Level.spellcasting', 'slots', 'number');
+    });
+    strictValidateRequiredArrayProp(props, 'CharacterClass::Level', 'features', ReferenceClassFeature.strictValidateProps);
+    strictValidateOptionalObjectProp(props, 'CharacterClass::Level', 'classSpecific', () => {
+      // Class specific data is free-form
+    });
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateEquipmentProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'CharacterClass::Equipment');
+
+    strictValidateRequiredArrayProp(props, 'CharacterClass::Equipment', 'starting', CharacterClass.strictValidateEquipmentItemProps);
+    strictValidateRequiredArrayProp(props, 'CharacterClass::Equipment', 'options', (choice:any, ind:number):void => {
+      if(!Array.isArray(choice))
+        throw makeStrictValidateArrayWrongType('CharacterClass::Equipment', 'options', ind, 'array', typeof choice);
+
+      choice.forEach((bundle:any) => {
+        if(!Array.isArray(bundle))
+          throw makeStrictValidateArrayWrongType('CharacterClass::Equipment', `options[${ind}]`, 0, 'array', typeof bundle);
+        bundle.forEach(CharacterClass.strictValidateEquipmentItemProps);
+      });
+    });
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateEquipmentItemProps = (props:any):void => {
+    Reference.strictValidateProps(props);
+
+    strictValidateOptionalProp(props, 'CharacterClass::EquipmentItem', 'amount', 'number');
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateSpellcastingProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'CharacterClass::Spellcasting');
+
+    strictValidateRequiredProp(props, 'CharacterClass::Spellcasting', 'startingLevel', 'number');
+    strictValidateRequiredObjectProp(props, 'CharacterClass::Spellcasting', 'abilityScore', ReferenceAbilityScore.strictValidateProps);
+    strictValidateOptionalArrayProp(props, 'CharacterClass::Spellcasting', 'info', 'object');
+  };
+
+  /**
+   * Creates a copy of an equipment item, converting it into a Reference
+   * that retains the amount given.
+   *
+   * @param props Equipment item object
+   * @returns New Reference object with an amount
+   */
+  private static readonly copyEquipmentItem = (props:any):ICharacterClassEquipmentItem => {
+    const ref:ICharacterClassEquipmentItem = new Reference(props);
+    if(props.amount)
+      ref.amount = props.amount;
+
+    return ref;
+  };
+
+  /**
+   * Creates a copy of a level entry, converting the features into
+   * ReferenceClassFeature objects.
+   *
+   * @param props Level object
+   * @returns New ICharacterClassLevel object
+   */
+  private static readonly copyLevel = (props:any):ICharacterClassLevel => {
+    const lvl:ICharacterClassLevel = {
+      level: props.level,
+      proficiencyBonus: props.proficiencyBonus,
+      features: props.features.map((ent:ReferenceClassFeature) => new ReferenceClassFeature(ent)),
+    };
+
+    if(props.abilityScoreIncrease)
+      lvl.abilityScoreIncrease = !!props.abilityScoreIncrease;
+
+    if(props.spellcasting) {
+      lvl.spellcasting = {
+        cantrips: props.spellcasting.cantrips ?? 0,
+        spells: props.spellcasting.spells ?? 0,
+        slots: [ ...props.spellcasting.slots ],
+      };
+    }
+
+    if(props.classSpecific)
+      lvl.classSpecific = { ...props.classSpecific };
+
+    return lvl;
+  };
+
+  /**
+   * Validates that the given object is a Reference, and runs it's validation.
+   *
+   * @param prop Reference object
+   * @returns Validation errors
+   */
+  private static readonly validateReference = (prop:any):ValidationErrors => {
+    if(prop instanceof Reference)
+      return prop.validateSync();
+    return [ 'supplied object is not a Reference object.' ];
+  };
+
+  /**
+   * Validates an equipment item Reference, including it's amount.
+   *
+   * @param prop Equipment item object
+   * @returns Validation errors
+   */
+  private static readonly validateEquipmentItem = (prop:ICharacterClassEquipmentItem):ValidationErrors => {
+    const { amount } = prop;
+    if(prop instanceof Reference) {
+      const errs = prop.validateSync();
+      validateInteger(errs, 'CharacterClass::EquipmentItem', 'amount', amount, {
+        positive: true,
+        minValue: 1,
+      }, true);
+      return errs;
+    }
+    return [ 'supplied object is not a Reference object.' ];
+  };
+
+  /**
+   * Which hit-die size is used, ie. 8 for a d8.
+   */
+  hitDie = 0;
+
+  proficiencies : ICharacterClassProficiencies = {
+    savingThrows: [],
+    starting: [],
+  };
+
+  /**
+   * The level progression table, always 20 entries.
+   */
+  levels : Array<ICharacterClassLevel> = [];
+
+  equipment : ICharacterClassEquipment = {
+    starting: [],
+    options: [],
+  };
+
+  spellcasting ?: ICharacterClassSpellcasting;
+
+  subClasses ?: Array<ReferenceClass>;
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.CLASS,
+      uriBase: '/class',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof CharacterClass) {
+        CharacterClass.strictValidateProps(props);
+
+        this.hitDie = props.hitDie;
+        this.proficiencies = {
+          savingThrows: props.proficiencies.savingThrows.map((ent:Reference) => new Reference(ent)),
+          starting: props.proficiencies.starting.map((ent:Reference) => new Reference(ent)),
+        };
+        if(props.proficiencies.options)
+          this.proficiencies.options = makeOptionsArray<Reference>(props.proficiencies.options);
+        if(props.proficiencies.equipment)
+          this.proficiencies.equipment = props.proficiencies.equipment.map((ent:Reference) => new Reference(ent));
+        this.levels = props.levels.map(CharacterClass.copyLevel)
+          .sort((lhs:ICharacterClassLevel, rhs:ICharacterClassLevel) => (lhs.level - rhs.level));
+        this.equipment = {
+          starting: props.equipment.starting.map(CharacterClass.copyEquipmentItem),
+          options: props.equipment.options.map((choice:Array<Array<any>>) => (
+            choice.map((bundle:Array<any>) => bundle.map(CharacterClass.copyEquipmentItem))
+          )),
+        };
+        if(props.spellcasting) {
+          this.spellcasting = {
+            startingLevel: props.spellcasting.startingLevel,
+            abilityScore: new ReferenceAbilityScore(props.spellcasting.abilityScore),
+          };
+          if(props.spellcasting.info)
+            this.spellcasting.info = props.spellcasting.info.map((ent:TextSection) => new TextSection(ent));
+        }
+        if(props.subClasses)
+          this.subClasses = props.subClasses.map((ent:ReferenceClass) => new ReferenceClass(ent));
+      } else {
+        console.warn(`Attempting to instantiate a CharacterClass object with an invalid parameter. Expected either a CharacterClass object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  /**
+   * Retrieves the entry from the levels table for the given level.
+   *
+   * @param level Character level, 1 through 20
+   * @returns The level entry, or undefined if none exists
+   */
+  getLevel = (level:number):(ICharacterClassLevel | undefined) => (
+    this.levels.find((ent:ICharacterClassLevel) => ent.level === level)
+  );
+
+  /**
+   * Collects all of the class features gained from level 1 up to, and
+   * including, the given level. Features are in the order they are gained.
+   *
+   * @param level Character level, 1 through 20
+   * @returns Array of class feature references
+   */
+  featuresUpTo = (level:number):Array<ReferenceClassFeature> => (
+    this.levels
+      .filter((ent:ICharacterClassLevel) => ent.level <= level)
+      .reduce((acc:Array<ReferenceClassFeature>, ent:ICharacterClassLevel) => acc.concat(ent.features), [])
+  );
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    if(!CharacterClass.HIT_DICE.includes(this.hitDie))
+      errs.push(`CharacterClass.hitDie "${this.hitDie}" is not a valid hit-die, accepted values are ${CharacterClass.HIT_DICE.join(', ')}.`);
+
+    validateObject(errs, 'CharacterClass', 'proficiencies', this.proficiencies, this.validateProficiencies);
+    validateArrayOfObjects(errs, 'CharacterClass', 'levels', this.levels, this.validateLevel);
+    if(Array.isArray(this.levels)) {
+      if(this.levels.length !== CharacterClass.LEVEL_COUNT)
+        errs.push(`CharacterClass.levels should have exactly ${CharacterClass.LEVEL_COUNT} entries, instead found ${this.levels.length}.`);
+
+      this.levels.forEach((ent:ICharacterClassLevel, ind:number) => {
+        if(ent && ent.level !== ind + 1)
+          errs.push(`CharacterClass.levels[${ind}] should be level ${ind + 1}, instead found level "${ent.level}".`);
+      });
+    }
+    validateObject(errs, 'CharacterClass', 'equipment', this.equipment, this.validateEquipment);
+    validateObject(errs, 'CharacterClass', 'spellcasting', this.spellcasting, this.validateSpellcasting, true);
+    validateArrayOfObjects(errs, 'CharacterClass', 'subClasses', this.subClasses, (prop:any):ValidationErrors => {
+      if(prop instanceof ReferenceClass)
+        return prop.validateSync();
+      return [ 'supplied object is not a ReferenceClass object.' ];
+    }, true);
+
+    return errs;
+  };
+
+  validateProficiencies = (profs:ICharacterClassProficiencies):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateArrayOfObjects(errs, 'CharacterClass::Proficiencies', 'savingThrows', profs.savingThrows, CharacterClass.validateReference);
+    validateArrayOfObjects(errs, 'CharacterClass::Proficiencies', 'starting', profs.starting, CharacterClass.validateReference);
+    if(profs.options) {
+      errs.push(...validateOptionsArraySync(profs.options)
+        .map((err:string) => `CharacterClass::Proficiencies.options: ${err}`));
+    }
+    validateArrayOfObjects(errs, 'CharacterClass::Proficiencies', 'equipment', profs.equipment, CharacterClass.validateReference, true);
+
+    return errs;
+  };
+
+  validateLevel = (lvl:ICharacterClassLevel):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateInteger(errs, 'CharacterClass::Level', 'level', lvl.level, {
+      positive: true,
+      minValue: 1,
+      maxValue: CharacterClass.LEVEL_COUNT,
+    });
+    validateBoolean(errs, 'CharacterClass::Level', 'abilityScoreIncrease', lvl.abilityScoreIncrease, true);
+    validateInteger(errs, 'CharacterClass::Level', 'proficiencyBonus', lvl.proficiencyBonus, {
+      positive: true,
+      minValue: 1,
+    });
+    validateObject(errs, 'CharacterClass::Level', 'spellcasting', lvl.spellcasting, (spells:ICharacterClassLevelSpellcasting):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      // Zero is a valid amount, so these are optional to the integer check
+      validateInteger(subErrs, 'CharacterClass::Level.spellcasting', 'cantrips', spells.cantrips, { positive: true }, true);
+      validateInteger(subErrs, 'CharacterClass::Level.spellcasting', 'spells', spells.spells, { positive: true }, true);
+      validateArray(subErrs, 'CharacterClass::Level.spellcasting', 'slots', spells.slots, (prop:any, ind:number):ValidationErrors => {
+        const slotErrs:ValidationErrors = [];
+        validateInteger(slotErrs, 'CharacterClass::Level.spellcasting', `slots[${ind}]`, prop, { positive: true }, true);
+        return slotErrs;
+      });
+      if(Array.isArray(spells.slots) && spells.slots.length !== 9)
+        subErrs.push(`CharacterClass::Level.spellcasting.slots should have exactly 9 entries, instead found ${spells.slots.length}.`);
+
+      return subErrs;
+    }, true);
+    validateArrayOfObjects(errs, 'CharacterClass::Level', 'features', lvl.features, (prop:any):ValidationErrors => {
+      if(prop instanceof ReferenceClassFeature)
+        return prop.validateSync();
+      return [ 'supplied object is not a ReferenceClassFeature object.' ];
+    });
+    validateObject(errs, 'CharacterClass::Level', 'classSpecific', lvl.classSpecific, ():ValidationErrors => [], true);
+
+    return errs;
+  };
+
+  validateEquipment = (equip:ICharacterClassEquipment):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateArrayOfObjects(errs, 'CharacterClass::Equipment', 'starting', equip.starting, CharacterClass.validateEquipmentItem);
+    validateArray(errs, 'CharacterClass::Equipment', 'options', equip.options, (choice:any, ind:number):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      if(!Array.isArray(choice) || choice.length === 0)
+        return [ `CharacterClass::Equipment.options[${ind}] should be an array with at least one entry.` ];
+
+      choice.forEach((bundle:any, bundleInd:number) => {
+        if(!Array.isArray(bundle) || bundle.length === 0)
+          subErrs.push(`CharacterClass::Equipment.options[${ind}][${bundleInd}] should be an array with at least one entry.`);
+        else
+          validateArrayOfObjects(subErrs, 'CharacterClass::Equipment', `options[${ind}][${bundleInd}]`, bundle, CharacterClass.validateEquipmentItem);
+      });
+
+      return subErrs;
+    });
+
+    return errs;
+  };
+
+  validateSpellcasting = (spells:ICharacterClassSpellcasting):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateInteger(errs, 'CharacterClass::Spellcasting', 'startingLevel', spells.startingLevel, {
+      positive: true,
+      minValue: 1,
+      maxValue: CharacterClass.LEVEL_COUNT,
+    });
+    validateInstance(errs, 'CharacterClass::Spellcasting', 'abilityScore', spells.abilityScore, ReferenceAbilityScore);
+    validateArrayOfObjects(errs, 'CharacterClass::Spellcasting', 'info', spells.info, (prop:any):ValidationErrors => {
+      if(prop instanceof TextSection)
+        return prop.validateSync();
+      return [ 'supplied object is not a TextSection object.' ];
+    }, true);
+
+    return errs;
+  };
+}
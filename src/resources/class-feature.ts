@@ -0,0 +1,176 @@
+import Resource from '../resource';
+import { ReferenceClass } from '../reference';
+import { ResourceTypes } from '../resource-type';
+import CharacterClass from './character-class';
+
+import {
+  enumHas,
+  isPlainObject,
+  validateEnum,
+  validateInstance,
+  validateInteger,
+  validateObject,
+} from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  strictValidateOptionalObjectProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredObjectProp,
+  strictValidateRequiredProp,
+} from '../utils/errors';
+
+/**
+ * When the uses of a limited feature are regained.
+ */
+export const FeatureRecharges = {
+  SHORT_REST: 'SHORT_REST',
+  LONG_REST: 'LONG_REST',
+  DAWN: 'DAWN',
+  TURN: 'TURN',
+} as const;
+export type EFeatureRecharge = typeof FeatureRecharges[keyof typeof FeatureRecharges];
+
+export const featureRechargeHas = (key:string):boolean => enumHas(FeatureRecharges, key);
+
+/**
+ * Limits on how often a feature may be used.
+ */
+export interface IClassFeatureUsage {
+
+  /**
+   * Number of uses before the feature needs to recharge.
+   */
+  amount : number;
+
+  recharge : EFeatureRecharge;
+};
+
+/**
+ * A feature gained by a class, or sub-class, at a given level.
+ *
+ * Schema: /class-feature.schema.json
+ */
+export interface IClassFeature {
+  class : ReferenceClass;
+
+  /**
+   * The sub-class this feature belongs to, if it is not shared by the
+   * whole class.
+   */
+  subClass ?: ReferenceClass;
+
+  /**
+   * The class level this feature is gained at.
+   */
+  level : number;
+
+  usage ?: IClassFeatureUsage;
+};
+
+/**
+ * A feature gained by a class, or sub-class, at a given level.
+ *
+ * Schema: /class-feature.schema.json
+ */
+export default class ClassFeature extends Resource implements IClassFeature, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'ClassFeature');
+
+    strictValidateRequiredObjectProp(props, 'ClassFeature', 'class', ReferenceClass.strictValidateProps);
+    strictValidateOptionalObjectProp(props, 'ClassFeature', 'subClass', ReferenceClass.strictValidateProps);
+    strictValidateRequiredProp(props, 'ClassFeature', 'level', 'number');
+    strictValidateOptionalObjectProp(props, 'ClassFeature', 'usage', (usage:any):void => {
+      strictValidateRequiredProp(usage, 'ClassFeature::Usage', 'amount', 'number');
+      strictValidateRequiredProp(usage, 'ClassFeature::Usage', 'recharge', 'string');
+    });
+  };
+
+  class : ReferenceClass = new ReferenceClass();
+
+  /**
+   * The sub-class this feature belongs to, if it is not shared by the
+   * whole class.
+   */
+  subClass ?: ReferenceClass;
+
+  /**
+   * The class level this feature is gained at.
+   */
+  level = 1;
+
+  usage ?: IClassFeatureUsage;
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.CLASS_FEATURE,
+      uriBase: '/class-feature',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof ClassFeature) {
+        ClassFeature.strictValidateProps(props);
+
+        this.class = new ReferenceClass(props.class);
+        if(props.subClass)
+          this.subClass = new ReferenceClass(props.subClass);
+        this.level = props.level;
+        if(props.usage)
+          this.usage = { ...props.usage };
+      } else {
+        console.warn(`Attempting to instantiate a ClassFeature object with an invalid parameter. Expected either a ClassFeature object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateInstance(errs, 'ClassFeature', 'class', this.class, ReferenceClass);
+    validateInstance(errs, 'ClassFeature', 'subClass', this.subClass, ReferenceClass, true);
+    validateInteger(errs, 'ClassFeature', 'level', this.level, {
+      positive: true,
+      minValue: 1,
+      maxValue: CharacterClass.LEVEL_COUNT,
+    });
+    validateObject(errs, 'ClassFeature', 'usage', this.usage, (usage:IClassFeatureUsage):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateInteger(subErrs, 'ClassFeature::Usage', 'amount', usage.amount, {
+        positive: true,
+        minValue: 1,
+      });
+      validateEnum(subErrs, 'ClassFeature::Usage', 'recharge', usage.recharge, FeatureRecharges);
+
+      return subErrs;
+    }, true);
+
+    return errs;
+  };
+}
@@ -0,0 +1,18 @@
+import Resource from '../resource';
+import { ResourceTypes } from '../resource-type';
+
+/**
+ * Describes a condition a creature can have.
+ *
+ * This resource has no properties beyond those of a Resource.
+ *
+ * Schema: /condition.schema.json
+ */
+export default class Condition extends Resource {
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.CONDITION,
+      uriBase: '/condition',
+    });
+  }
+}
@@ -0,0 +1,18 @@
+import Resource from '../resource';
+import { ResourceTypes } from '../resource-type';
+
+/**
+ * Describes the type of damage inflicted.
+ *
+ * This resource has no properties beyond those of a Resource.
+ *
+ * Schema: /damage-type.schema.json
+ */
+export default class DamageType extends Resource {
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.DAMAGE_TYPE,
+      uriBase: '/damage-type',
+    });
+  }
+}
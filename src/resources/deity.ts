@@ -0,0 +1,282 @@
+import Resource from '../resource';
+import { IReference } from '../reference';
+import { ResourceTypes } from '../resource-type';
+import { Alignments, EAlignment } from '../alignment';
+
+import {
+  enumHas,
+  isPlainObject,
+  validateArray,
+  validateEnum,
+  validateString,
+} from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  strictValidateOptionalArrayProp,
+  strictValidateOptionalProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredArrayProp,
+  strictValidateRequiredProp,
+} from '../utils/errors';
+
+/**
+ * The divine rank of a deity, from least to most powerful.
+ */
+export const DeityRanks = {
+  HERO: 'HERO',
+  DEMIGOD: 'DEMIGOD',
+  LESSER: 'LESSER',
+  INTERMEDIATE: 'INTERMEDIATE',
+  GREATER: 'GREATER',
+  OVERDEITY: 'OVERDEITY',
+} as const;
+export type EDeityRank = typeof DeityRanks[keyof typeof DeityRanks];
+
+export const deityRankHas = (key:string):boolean => enumHas(DeityRanks, key);
+
+/**
+ * A god/godess of a pantheon.
+ *
+ * Schema: /deity.schema.json
+ */
+export interface IDeity {
+  titles : Array<string>;
+
+  /**
+   * The given glyph or iconography of the deity.
+   */
+  symbol : string;
+
+  /**
+   * The parent pantheons this deity belongs too.
+   */
+  pantheons : Array<string>;
+
+  /**
+   * The inner pantheon, if one exists, for this deity.
+   */
+  subPantheon ?: string;
+
+  alignment : EAlignment;
+  rank ?: EDeityRank;
+  portfolio : Array<string>;
+
+  /**
+   * The names of the cleric domains this deity offers.
+   */
+  domains : Array<string>;
+
+  aliases ?: Array<string>;
+  perceivedGender ?: string;
+  humanoidAppearance ?: string;
+  homePlane ?: string;
+  worshippers ?: Array<string>;
+};
+
+/**
+ * Collection of deities keyed by the pantheon name.
+ */
+export type DeitiesByPantheon<Type extends IDeity = IDeity> = {[pantheon:string]: Array<Type>};
+
+/**
+ * Builds a validation callback for an array of non-empty strings.
+ *
+ * @param propName The name of the prop being validated
+ * @returns Validation callback
+ */
+const validateStringEntry = (propName:string) => (prop:any, ind:number):ValidationErrors => {
+  if(!prop || typeof prop !== 'string')
+    return [ `Deity.${propName}[${ind}] is a "${typeof prop}", expected a string.` ];
+  return [];
+};
+
+/**
+ * A god/godess of a pantheon.
+ *
+ * Schema: /deity.schema.json
+ */
+export default class Deity extends Resource implements IDeity, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Deity');
+
+    strictValidateRequiredArrayProp(props, 'Deity', 'titles', 'string');
+    strictValidateOptionalProp(props, 'Deity', 'symbol', 'string');
+    strictValidateRequiredArrayProp(props, 'Deity', 'pantheons', 'string');
+    strictValidateOptionalProp(props, 'Deity', 'subPantheon', 'string');
+    strictValidateRequiredProp(props, 'Deity', 'alignment', 'string');
+    strictValidateOptionalProp(props, 'Deity', 'rank', 'string');
+    strictValidateRequiredArrayProp(props, 'Deity', 'portfolio', 'string');
+    strictValidateRequiredArrayProp(props, 'Deity', 'domains', 'string');
+    strictValidateOptionalArrayProp(props, 'Deity', 'aliases', 'string');
+    strictValidateOptionalProp(props, 'Deity', 'perceivedGender', 'string');
+    strictValidateOptionalProp(props, 'Deity', 'humanoidAppearance', 'string');
+    strictValidateOptionalProp(props, 'Deity', 'homePlane', 'string');
+    strictValidateOptionalArrayProp(props, 'Deity', 'worshippers', 'string');
+  };
+
+  /**
+   * Groups the given deities by each of their pantheons.
+   * Deities belonging to multiple pantheons are included in each.
+   *
+   * The result has no prototype, so pantheons named like an Object property
+   * (ie. "constructor") still get their own array.
+   *
+   * @param deities Array of Deity objects
+   * @returns Object keyed by pantheon name, holding arrays of Deity objects
+   */
+  public static readonly groupByPantheon = <Type extends IDeity>(deities:Array<Type>):DeitiesByPantheon<Type> => (
+    deities.reduce((acc:DeitiesByPantheon<Type>, deity:Type) => {
+      deity.pantheons.forEach((pantheon:string) => {
+        if(!acc[pantheon])
+          acc[pantheon] = [];
+        acc[pantheon].push(deity);
+      });
+      return acc;
+    }, Object.create(null))
+  );
+
+  /**
+   * Filters the given deities to those that offer the domain.
+   *
+   * The domain may be given as it's name, or as a reference to it, in which
+   * case the reference name is used. Names are compared case-insensitively.
+   *
+   * @param deities Array of Deity objects
+   * @param domain Domain name, or reference
+   * @returns New array of Deity objects
+   */
+  public static readonly filterByDomain = <Type extends IDeity>(
+    deities:Array<Type>,
+    domain:(string | IReference),
+  ):Array<Type> => {
+    const name = (typeof domain === 'string' ? domain : domain.name).trim().toLowerCase();
+
+    return deities.filter((deity:Type) => (
+      deity.domains.some((ent:string) => ent.trim().toLowerCase() === name)
+    ));
+  };
+
+  titles : Array<string> = [];
+
+  /**
+   * The given glyph or iconography of the deity.
+   */
+  symbol = '';
+
+  /**
+   * The parent pantheons this deity belongs too.
+   */
+  pantheons : Array<string> = [];
+
+  /**
+   * The inner pantheon, if one exists, for this deity.
+   */
+  subPantheon ?: string;
+
+  alignment : EAlignment = Alignments.UNKNOWN;
+
+  rank ?: EDeityRank;
+
+  portfolio : Array<string> = [];
+
+  /**
+   * The names of the cleric domains this deity offers.
+   */
+  domains : Array<string> = [];
+
+  aliases ?: Array<string>;
+
+  perceivedGender ?: string;
+
+  humanoidAppearance ?: string;
+
+  homePlane ?: string;
+
+  worshippers ?: Array<string>;
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.DEITY,
+      uriBase: '/deity',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof Deity) {
+        Deity.strictValidateProps(props);
+
+        this.titles = [ ...props.titles ];
+        this.symbol = props.symbol ?? '';
+        this.pantheons = [ ...props.pantheons ];
+        if(props.subPantheon)
+          this.subPantheon = props.subPantheon;
+        this.alignment = props.alignment;
+        if(props.rank)
+          this.rank = props.rank;
+        this.portfolio = [ ...props.portfolio ];
+        this.domains = [ ...props.domains ];
+        if(props.aliases)
+          this.aliases = [ ...props.aliases ];
+        if(props.perceivedGender)
+          this.perceivedGender = props.perceivedGender;
+        if(props.humanoidAppearance)
+          this.humanoidAppearance = props.humanoidAppearance;
+        if(props.homePlane)
+          this.homePlane = props.homePlane;
+        if(props.worshippers)
+          this.worshippers = [ ...props.worshippers ];
+      } else {
+        console.warn(`Attempting to instantiate a Deity object with an invalid parameter. Expected either a Deity object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateArray(errs, 'Deity', 'titles', this.titles, validateStringEntry('titles'));
+    if(typeof this.symbol !== 'string')
+      errs.push(`Deity.symbol should be a string type, instead found "${typeof this.symbol}".`);
+    validateArray(errs, 'Deity', 'pantheons', this.pantheons, validateStringEntry('pantheons'));
+    if(Array.isArray(this.pantheons) && this.pantheons.length === 0)
+      errs.push('Deity.pantheons should have at least one pantheon.');
+    validateString(errs, 'Deity', 'subPantheon', this.subPantheon, {}, true);
+    validateEnum(errs, 'Deity', 'alignment', this.alignment, Alignments);
+    validateEnum(errs, 'Deity', 'rank', this.rank, DeityRanks, true);
+    validateArray(errs, 'Deity', 'portfolio', this.portfolio, validateStringEntry('portfolio'));
+    validateArray(errs, 'Deity', 'domains', this.domains, validateStringEntry('domains'));
+    validateArray(errs, 'Deity', 'aliases', this.aliases, validateStringEntry('aliases'), true);
+    validateString(errs, 'Deity', 'perceivedGender', this.perceivedGender, {}, true);
+    validateString(errs, 'Deity', 'humanoidAppearance', this.humanoidAppearance, {}, true);
+    validateString(errs, 'Deity', 'homePlane', this.homePlane, {}, true);
+    validateArray(errs, 'Deity', 'worshippers', this.worshippers, validateStringEntry('worshippers'), true);
+
+    return errs;
+  };
+}
@@ -0,0 +1,18 @@
+import Resource from '../resource';
+import { ResourceTypes } from '../resource-type';
+
+/**
+ * Describes a disease a creature can have.
+ *
+ * This resource has no properties beyond those of a Resource.
+ *
+ * Schema: /disease.schema.json
+ */
+export default class Disease extends Resource {
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.DISEASE,
+      uriBase: '/disease',
+    });
+  }
+}
@@ -0,0 +1,246 @@
+import Resource from '../resource';
+import { ReferenceItem } from '../reference';
+import { ResourceTypes } from '../resource-type';
+import Currency, { CurrencyTuple } from '../currency';
+import Item, { IItem } from './item';
+
+import {
+  isPlainObject,
+  validateArrayOfObjects,
+  validateInstance,
+  validateInteger,
+} from '../utils';
+
+import type {
+  CountedArray,
+  CountedArrayElem,
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  makeStrictValidateWrongType,
+  strictValidateOptionalArrayProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredProp,
+} from '../utils/errors';
+
+/**
+ * The properties of an item needed to total up a pack.
+ */
+export type EquipmentPackItemData = Pick<IItem, 'value' | 'weight'>;
+
+/**
+ * Looks up the item data for a reference, usually from a compendium.
+ * Should return null if the item is not known.
+ */
+export type EquipmentPackItemResolver = (ref:ReferenceItem) => (EquipmentPackItemData | null);
+
+/**
+ * Contents of a pre-made equipment pack.
+ *
+ * Schema: /equipment-pack.json
+ */
+export interface IEquipmentPack {
+
+  /**
+   * The suggested price of the pack as a whole.
+   */
+  value : Currency;
+
+  contents : CountedArray<ReferenceItem>;
+};
+
+/**
+ * Contents of a pre-made equipment pack.
+ *
+ * Schema: /equipment-pack.json
+ */
+export default class EquipmentPack extends Resource implements IEquipmentPack, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'EquipmentPack');
+
+    if(props.value && typeof props.value !== 'string' && typeof props.value !== 'number' && !(props.value instanceof Currency))
+      throw makeStrictValidateWrongType('EquipmentPack', 'value', 'string or number', typeof props.value);
+    strictValidateOptionalArrayProp(props, 'EquipmentPack', 'contents', EquipmentPack.strictValidateContentProps);
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Accepts either the schema form of `{ uri, name, quantity }`, or the
+   * CountedArray form of `{ type: ReferenceItem, count }`.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateContentProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'EquipmentPack::Content');
+
+    if(props.type instanceof ReferenceItem) {
+      strictValidateRequiredProp(props, 'EquipmentPack::Content', 'count', 'number');
+    } else {
+      strictValidateRequiredProp(props, 'EquipmentPack::Content', 'uri', 'string');
+      strictValidateRequiredProp(props, 'EquipmentPack::Content', 'name', 'string');
+      strictValidateRequiredProp(props, 'EquipmentPack::Content', 'quantity', 'number');
+    }
+  };
+
+  /**
+   * Creates a new CountedArray element from either of the accepted content
+   * forms.
+   *
+   * @param props Content object
+   * @returns New CountedArrayElem object
+   */
+  private static readonly copyContent = (props:any):CountedArrayElem<ReferenceItem> => {
+    if(props.type instanceof ReferenceItem) {
+      return {
+        type: new ReferenceItem({
+          uri: props.type.uri,
+          name: props.type.name,
+        }),
+        count: props.count,
+      };
+    }
+
+    return {
+      type: new ReferenceItem({
+        uri: props.uri,
+        name: props.name,
+      }),
+      count: props.quantity,
+    };
+  };
+
+  /**
+   * The suggested price of the pack as a whole.
+   */
+  value : Currency = new Currency();
+
+  contents : CountedArray<ReferenceItem> = [];
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.EQUIPMENT_PACK,
+      uriBase: '/equipment-pack',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof EquipmentPack) {
+        EquipmentPack.strictValidateProps(props);
+
+        this.value = Item.convertValue(props.value ?? 0);
+        this.contents = (props.contents ?? []).map(EquipmentPack.copyContent);
+      } else {
+        console.warn(`Attempting to instantiate an EquipmentPack object with an invalid parameter. Expected either an EquipmentPack object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  /**
+   * Resolves the item data for every entry in the contents.
+   *
+   * @throws Error if the resolver does not know one of the items
+   * @param resolver Function returning the item data for a reference
+   * @returns Array of item data and the count of it
+   */
+  private resolveContents = (resolver:EquipmentPackItemResolver):Array<[EquipmentPackItemData, number]> => (
+    this.contents.map((ent:CountedArrayElem<ReferenceItem>):[EquipmentPackItemData, number] => {
+      const data = resolver(ent.type);
+      if(!data)
+        throw new Error(`EquipmentPack "${this.uri}" contains the item "${ent.type.uri}", which could not be resolved.`);
+
+      return [ data, ent.count ];
+    })
+  );
+
+  /**
+   * Calculates the total weight of the pack's contents, in pounds.
+   *
+   * @throws Error if the resolver does not know one of the items
+   * @param resolver Function returning the item data for a reference
+   * @returns Weight in pounds
+   */
+  getTotalWeight = (resolver:EquipmentPackItemResolver):number => (
+    this.resolveContents(resolver).reduce((acc:number, [ data, count ]:[EquipmentPackItemData, number]) => (
+      acc + ((data.weight ?? 0) * count)
+    ), 0)
+  );
+
+  /**
+   * Calculates the total value of the pack's contents, which may differ from
+   * the suggested value of the pack itself.
+   *
+   * The denominations of each item are kept as they are, use
+   * `Currency.balance()` on the result to exchange them.
+   *
+   * @throws Error if the resolver does not know one of the items
+   * @param resolver Function returning the item data for a reference
+   * @returns New Currency object
+   */
+  getTotalValue = (resolver:EquipmentPackItemResolver):Currency => {
+    const zero = new Currency().toTuple();
+    const [
+      copper,
+      silver,
+      electrum,
+      gold,
+      platinum,
+    ] = this.resolveContents(resolver).reduce((acc:CurrencyTuple, [ data, count ]:[EquipmentPackItemData, number]) => {
+      const tuple = Item.convertValue(data.value).toTuple();
+      return acc.map((val:number, ind:number) => val + (tuple[ind] * count)) as CurrencyTuple;
+    }, zero);
+
+    return new Currency({
+      copper,
+      silver,
+      electrum,
+      gold,
+      platinum,
+    }, true, true);
+  };
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    if(!(this.value instanceof Currency))
+      errs.push(`EquipmentPack.value should be a Currency object, instead found "${typeof this.value}".`);
+    validateArrayOfObjects(errs, 'EquipmentPack', 'contents', this.contents, (prop:CountedArrayElem<ReferenceItem>):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateInstance(subErrs, 'EquipmentPack::Content', 'type', prop.type, ReferenceItem);
+      validateInteger(subErrs, 'EquipmentPack::Content', 'count', prop.count, {
+        positive: true,
+        minValue: 1,
+      });
+
+      return subErrs;
+    });
+
+    return errs;
+  };
+}
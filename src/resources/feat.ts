@@ -0,0 +1,462 @@
+import Resource from '../resource';
+
+import Reference, {
+  IReference,
+  ReferenceAbilityScore,
+} from '../reference';
+
+import { ResourceTypes } from '../resource-type';
+
+import {
+  enumHas,
+  isPlainObject,
+  validateArray,
+  validateArrayOfObjects,
+  validateBoolean,
+  validateInteger,
+} from '../utils';
+
+import type {
+  IValidatable,
+  JSONObject,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  makeStrictValidateWrongType,
+  strictValidateOptionalArrayProp,
+  strictValidateOptionalProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredArrayProp,
+  strictValidateRequiredObjectProp,
+  strictValidateRequiredProp,
+} from '../utils/errors';
+
+/**
+ * The kinds of prerequisites a feat can fail on.
+ */
+export const FeatPrerequisiteTypes = {
+  RACE: 'RACE',
+  PROFICIENCY: 'PROFICIENCY',
+  SPELLCASTING: 'SPELLCASTING',
+  ABILITY_SCORE: 'ABILITY_SCORE',
+} as const;
+export type EFeatPrerequisiteType = typeof FeatPrerequisiteTypes[keyof typeof FeatPrerequisiteTypes];
+
+export const featPrerequisiteTypeHas = (key:string):boolean => enumHas(FeatPrerequisiteTypes, key);
+
+/**
+ * An ability score, and the value it has (or must have).
+ */
+export interface IFeatAbilityScoreValue extends IReference {
+  value : number;
+};
+
+/**
+ * An increase applied to an ability score.
+ */
+export interface IFeatAbilityScoreIncrease extends IReference {
+  amount : number;
+};
+
+/**
+ * A choice of ability score increases, of which `amount` may be picked.
+ * Choices are usually ability score references, but may be free-form.
+ */
+export interface IFeatAbilityScoreOptions {
+  amount : number;
+  choices : Array<ReferenceAbilityScore | JSONObject>;
+};
+
+/**
+ * The requirements a character must meet to take a feat.
+ */
+export interface IFeatPrerequisites {
+
+  /**
+   * Races (or sub-races), one of which the character must be.
+   */
+  races : Array<Reference>;
+
+  /**
+   * Proficiencies, all of which the character must have.
+   */
+  proficiencies : Array<Reference>;
+
+  /**
+   * Whether the character must be able to cast at least one spell.
+   */
+  spellcasting : boolean;
+
+  /**
+   * Minimum ability scores, one of which the character must meet.
+   */
+  abilityScores ?: Array<IFeatAbilityScoreValue>;
+
+  /**
+   * Requirements that can not be checked automatically.
+   */
+  other : Array<string>;
+};
+
+export interface IFeatAbilityScoreIncreases {
+  starting ?: Array<IFeatAbilityScoreIncrease>;
+  options ?: Array<IFeatAbilityScoreOptions>;
+};
+
+/**
+ * A special feature a character can possess.
+ *
+ * Schema: /feat.schema.json
+ */
+export interface IFeat {
+  prerequisites : IFeatPrerequisites;
+  abilityScoreIncreases : IFeatAbilityScoreIncreases;
+  proficiencies : Array<Reference>;
+};
+
+/**
+ * The description of a character needed to check a feat's prerequisites.
+ * References are matched by their URI.
+ */
+export interface IFeatCandidate {
+  race ?: IReference;
+  subRace ?: IReference;
+  proficiencies ?: Array<IReference>;
+  abilityScores ?: Array<IFeatAbilityScoreValue>;
+
+  /**
+   * Whether the character can cast at least one spell.
+   */
+  spellcasting ?: boolean;
+};
+
+/**
+ * A prerequisite that a character did not meet.
+ */
+export interface IFeatPrerequisiteFailure {
+  type : EFeatPrerequisiteType;
+  message : string;
+
+  /**
+   * The references required, if the prerequisite has any.
+   */
+  required ?: Array<IReference>;
+};
+
+/**
+ * The result of checking a character against a feat's prerequisites.
+ */
+export interface IFeatAvailability {
+  available : boolean;
+  failed : Array<IFeatPrerequisiteFailure>;
+
+  /**
+   * The "other" prerequisites, which must be checked by hand.
+   */
+  unchecked : Array<string>;
+};
+
+/**
+ * A special feature a character can possess.
+ *
+ * Schema: /feat.schema.json
+ */
+export default class Feat extends Resource implements IFeat, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Feat');
+
+    strictValidateRequiredObjectProp(props, 'Feat', 'prerequisites', Feat.strictValidatePrerequisitesProps);
+    strictValidateRequiredObjectProp(props, 'Feat', 'abilityScoreIncreases', Feat.strictValidateIncreasesProps);
+    strictValidateRequiredArrayProp(props, 'Feat', 'proficiencies', Reference.strictValidateProps);
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidatePrerequisitesProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Feat::Prerequisites');
+
+    strictValidateRequiredArrayProp(props, 'Feat::Prerequisites', 'races', Reference.strictValidateProps);
+    strictValidateRequiredArrayProp(props, 'Feat::Prerequisites', 'proficiencies', Reference.strictValidateProps);
+    strictValidateOptionalProp(props, 'Feat::Prerequisites', 'spellcasting', 'boolean');
+    strictValidateOptionalArrayProp(props, 'Feat::Prerequisites', 'abilityScores', (prop:any):void => {
+      ReferenceAbilityScore.strictValidateProps(prop);
+      strictValidateRequiredProp(prop, 'Feat::Prerequisites.abilityScores', 'value', 'number');
+    });
+    strictValidateRequiredArrayProp(props, 'Feat::Prerequisites', 'other', 'string');
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateIncreasesProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Feat::AbilityScoreIncreases');
+
+    strictValidateOptionalArrayProp(props, 'Feat::AbilityScoreIncreases', 'starting', (prop:any):void => {
+      ReferenceAbilityScore.strictValidateProps(prop);
+      strictValidateRequiredProp(prop, 'Feat::AbilityScoreIncreases.starting', 'amount', 'number');
+    });
+    strictValidateOptionalArrayProp(props, 'Feat::AbilityScoreIncreases', 'options', (prop:any):void => {
+      strictValidateRequiredProp(prop, 'Feat::AbilityScoreIncreases.options', 'amount', 'number');
+      strictValidateRequiredArrayProp(prop, 'Feat::AbilityScoreIncreases.options', 'choices', (choice:any):void => {
+        if(!isPlainObject(choice))
+          throw makeStrictValidateWrongType('Feat::AbilityScoreIncreases.options', 'choices', 'object', typeof choice);
+      });
+    });
+  };
+
+  /**
+   * Checks if the given list of references contains one with the URI.
+   *
+   * @param refs References to search
+   * @param uri URI to find
+   * @returns True if found
+   */
+  private static readonly hasReference = (refs:Array<IReference>, uri:string):boolean => (
+    refs.some((ref:IReference) => ref.uri === uri)
+  );
+
+  /**
+   * Validates that the given object is a Reference, and runs it's validation.
+   *
+   * @param prop Reference object
+   * @returns Validation errors
+   */
+  private static readonly validateReference = (prop:any):ValidationErrors => {
+    if(prop instanceof Reference)
+      return prop.validateSync();
+    return [ 'supplied object is not a Reference object.' ];
+  };
+
+  prerequisites : IFeatPrerequisites = {
+    races: [],
+    proficiencies: [],
+    spellcasting: false,
+    other: [],
+  };
+
+  abilityScoreIncreases : IFeatAbilityScoreIncreases = {};
+
+  proficiencies : Array<Reference> = [];
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.FEAT,
+      uriBase: '/feat',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof Feat) {
+        Feat.strictValidateProps(props);
+
+        this.prerequisites = {
+          races: props.prerequisites.races.map((ent:Reference) => new Reference(ent)),
+          proficiencies: props.prerequisites.proficiencies.map((ent:Reference) => new Reference(ent)),
+          spellcasting: !!props.prerequisites.spellcasting,
+          other: [ ...props.prerequisites.other ],
+        };
+        if(props.prerequisites.abilityScores) {
+          this.prerequisites.abilityScores = props.prerequisites.abilityScores.map((ent:IFeatAbilityScoreValue) => (
+            Object.assign(new ReferenceAbilityScore(ent), { value: ent.value })
+          ));
+        }
+        if(props.abilityScoreIncreases.starting) {
+          this.abilityScoreIncreases.starting = props.abilityScoreIncreases.starting
+            .map((ent:IFeatAbilityScoreIncrease) => (
+              Object.assign(new ReferenceAbilityScore(ent), { amount: ent.amount })
+            ));
+        }
+        if(props.abilityScoreIncreases.options) {
+          this.abilityScoreIncreases.options = props.abilityScoreIncreases.options.map((opt:any) => ({
+            amount: opt.amount,
+            choices: opt.choices.map((ent:any) => (ent.uri ? new ReferenceAbilityScore(ent) : { ...ent })),
+          }));
+        }
+        this.proficiencies = props.proficiencies.map((ent:Reference) => new Reference(ent));
+      } else {
+        console.warn(`Attempting to instantiate a Feat object with an invalid parameter. Expected either a Feat object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  /**
+   * Checks the given character against the prerequisites of this feat.
+   *
+   * - Races: the character's race, or sub-race, must be one of those listed.
+   * - Proficiencies: the character must have all of those listed.
+   * - Spellcasting: the character must be able to cast a spell.
+   * - Ability scores: at least one of those listed must be met.
+   *
+   * The "other" prerequisites can not be checked, and are returned in
+   * `unchecked` instead. They do not affect the availability.
+   *
+   * @param candidate Description of the character
+   * @returns The availability, and any prerequisites that failed
+   */
+  checkPrerequisites = (candidate:IFeatCandidate):IFeatAvailability => {
+    const prereqs = this.prerequisites;
+    const failed:Array<IFeatPrerequisiteFailure> = [];
+
+    if(prereqs.races.length > 0) {
+      const matches = [ candidate.race, candidate.subRace ]
+        .some((ref?:IReference) => !!ref && Feat.hasReference(prereqs.races, ref.uri));
+
+      if(!matches) {
+        failed.push({
+          type: FeatPrerequisiteTypes.RACE,
+          message: `Requires the race ${prereqs.races.map((ref:Reference) => ref.name).join(' or ')}.`,
+          required: [ ...prereqs.races ],
+        });
+      }
+    }
+
+    const missing = prereqs.proficiencies
+      .filter((ref:Reference) => !Feat.hasReference(candidate.proficiencies ?? [], ref.uri));
+    if(missing.length > 0) {
+      failed.push({
+        type: FeatPrerequisiteTypes.PROFICIENCY,
+        message: `Requires proficiency with ${missing.map((ref:Reference) => ref.name).join(' and ')}.`,
+        required: missing,
+      });
+    }
+
+    if(prereqs.spellcasting && !candidate.spellcasting) {
+      failed.push({
+        type: FeatPrerequisiteTypes.SPELLCASTING,
+        message: 'Requires the ability to cast at least one spell.',
+      });
+    }
+
+    if(prereqs.abilityScores && prereqs.abilityScores.length > 0) {
+      const scores = candidate.abilityScores ?? [];
+      const matches = prereqs.abilityScores.some((req:IFeatAbilityScoreValue) => (
+        scores.some((score:IFeatAbilityScoreValue) => score.uri === req.uri && score.value >= req.value)
+      ));
+
+      if(!matches) {
+        const names = prereqs.abilityScores.map((req:IFeatAbilityScoreValue) => `${req.name} ${req.value}`);
+        failed.push({
+          type: FeatPrerequisiteTypes.ABILITY_SCORE,
+          message: `Requires ${names.join(' or ')} or higher.`,
+          required: [ ...prereqs.abilityScores ],
+        });
+      }
+    }
+
+    return {
+      available: failed.length === 0,
+      failed,
+      unchecked: [ ...prereqs.other ],
+    };
+  };
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    if(this.prerequisites)
+      errs.push(...this.validatePrerequisites(this.prerequisites));
+    else
+      errs.push('Feat.prerequisites is a required object.');
+
+    if(this.abilityScoreIncreases)
+      errs.push(...this.validateIncreases(this.abilityScoreIncreases));
+    else
+      errs.push('Feat.abilityScoreIncreases is a required object.');
+
+    validateArrayOfObjects(errs, 'Feat', 'proficiencies', this.proficiencies, Feat.validateReference);
+
+    return errs;
+  };
+
+  validatePrerequisites = (prereqs:IFeatPrerequisites):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateArrayOfObjects(errs, 'Feat::Prerequisites', 'races', prereqs.races, Feat.validateReference);
+    validateArrayOfObjects(errs, 'Feat::Prerequisites', 'proficiencies', prereqs.proficiencies, Feat.validateReference);
+    validateBoolean(errs, 'Feat::Prerequisites', 'spellcasting', prereqs.spellcasting, true);
+    validateArrayOfObjects(errs, 'Feat::Prerequisites', 'abilityScores', prereqs.abilityScores, (prop:IFeatAbilityScoreValue):ValidationErrors => {
+      const { value } = prop;
+      if(prop instanceof ReferenceAbilityScore) {
+        const subErrs = prop.validateSync();
+        validateInteger(subErrs, 'Feat::Prerequisites.abilityScores', 'value', value, {
+          positive: true,
+          minValue: 1,
+        });
+        return subErrs;
+      }
+      return [ 'supplied object is not a ReferenceAbilityScore object.' ];
+    }, true);
+    validateArray(errs, 'Feat::Prerequisites', 'other', prereqs.other, (prop:any, ind:number):ValidationErrors => {
+      if(!prop || typeof prop !== 'string')
+        return [ `Feat::Prerequisites.other[${ind}] is a "${typeof prop}", expected a string.` ];
+      return [];
+    });
+
+    return errs;
+  };
+
+  validateIncreases = (increases:IFeatAbilityScoreIncreases):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateArrayOfObjects(errs, 'Feat::AbilityScoreIncreases', 'starting', increases.starting, (prop:IFeatAbilityScoreIncrease):ValidationErrors => {
+      const { amount } = prop;
+      if(prop instanceof ReferenceAbilityScore) {
+        const subErrs = prop.validateSync();
+        validateInteger(subErrs, 'Feat::AbilityScoreIncreases.starting', 'amount', amount, {
+          positive: true,
+          minValue: 1,
+        });
+        return subErrs;
+      }
+      return [ 'supplied object is not a ReferenceAbilityScore object.' ];
+    }, true);
+    validateArrayOfObjects(errs, 'Feat::AbilityScoreIncreases', 'options', increases.options, (opt:IFeatAbilityScoreOptions):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateInteger(subErrs, 'Feat::AbilityScoreIncreases.options', 'amount', opt.amount, {
+        positive: true,
+        minValue: 1,
+      });
+      validateArrayOfObjects(subErrs, 'Feat::AbilityScoreIncreases.options', 'choices', opt.choices, (choice:any):ValidationErrors => {
+        if(choice instanceof ReferenceAbilityScore)
+          return choice.validateSync();
+        return [];
+      });
+
+      return subErrs;
+    }, true);
+
+    return errs;
+  };
+}
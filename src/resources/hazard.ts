@@ -0,0 +1,103 @@
+import Resource from '../resource';
+import { ResourceTypes } from '../resource-type';
+import {
+  enumHas,
+  isPlainObject,
+  validateEnum,
+} from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  strictValidatePropsParameter,
+  strictValidateRequiredProp,
+} from '../utils/errors';
+
+/**
+ * The general category of a hazard.
+ */
+export const HazardCategories = {
+  ELDRITCH_STORM: 'ELDRITCH_STORM',
+  ENVIRONMENTAL: 'ENVIRONMENTAL',
+  GENERAL: 'GENERAL',
+  OTHER: 'OTHER',
+  WEATHER: 'WEATHER',
+  WILDERNESS: 'WILDERNESS',
+} as const;
+export type EHazardCategory = typeof HazardCategories[keyof typeof HazardCategories];
+
+export const hazardCategoryHas = (key:string):boolean => enumHas(HazardCategories, key);
+
+/**
+ * Describes a hazard of the environment, or world.
+ *
+ * Schema: /hazard.schema.json
+ */
+export interface IHazard {
+  category : EHazardCategory;
+};
+
+/**
+ * Describes a hazard of the environment, or world.
+ *
+ * Schema: /hazard.schema.json
+ */
+export default class Hazard extends Resource implements IHazard, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Hazard');
+
+    strictValidateRequiredProp(props, 'Hazard', 'category', 'string');
+  };
+
+  category : EHazardCategory = HazardCategories.GENERAL;
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.HAZARD,
+      uriBase: '/hazard',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof Hazard) {
+        Hazard.strictValidateProps(props);
+
+        this.category = props.category;
+      } else {
+        console.warn(`Attempting to instantiate a Hazard object with an invalid parameter. Expected either a Hazard object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateEnum(errs, 'Hazard', 'category', this.category, HazardCategories);
+
+    return errs;
+  };
+}
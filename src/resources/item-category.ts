@@ -0,0 +1,111 @@
+import Resource from '../resource';
+import { ReferenceItem } from '../reference';
+import { ResourceTypes } from '../resource-type';
+import { ItemCategories, EItemCategory } from './item';
+
+import {
+  isPlainObject,
+  validateArrayOfObjects,
+  validateEnum,
+} from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  strictValidateOptionalArrayProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredProp,
+} from '../utils/errors';
+
+/**
+ * A grouping of items, such as weapons, armor, or tools.
+ *
+ * Schema: /item-category.schema.json
+ */
+export interface IItemCategory {
+
+  /**
+   * The item category enum this resource describes.
+   */
+  category : EItemCategory;
+
+  items ?: Array<ReferenceItem>;
+};
+
+/**
+ * A grouping of items, such as weapons, armor, or tools.
+ *
+ * Schema: /item-category.schema.json
+ */
+export default class ItemCategory extends Resource implements IItemCategory, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'ItemCategory');
+
+    strictValidateRequiredProp(props, 'ItemCategory', 'category', 'string');
+    strictValidateOptionalArrayProp(props, 'ItemCategory', 'items', ReferenceItem.strictValidateProps);
+  };
+
+  /**
+   * The item category enum this resource describes.
+   */
+  category : EItemCategory = ItemCategories.GENERAL;
+
+  items ?: Array<ReferenceItem>;
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.ITEM_CATEGORY,
+      uriBase: '/item-category',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof ItemCategory) {
+        ItemCategory.strictValidateProps(props);
+
+        this.category = props.category;
+        if(props.items)
+          this.items = props.items.map((ent:ReferenceItem) => new ReferenceItem(ent));
+      } else {
+        console.warn(`Attempting to instantiate an ItemCategory object with an invalid parameter. Expected either an ItemCategory object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateEnum(errs, 'ItemCategory', 'category', this.category, ItemCategories);
+    validateArrayOfObjects(errs, 'ItemCategory', 'items', this.items, (prop:any):ValidationErrors => {
+      if(prop instanceof ReferenceItem)
+        return prop.validateSync();
+      return [ 'supplied object is not a ReferenceItem object.' ];
+    }, true);
+
+    return errs;
+  };
+}
@@ -0,0 +1,535 @@
+import Resource from '../resource';
+
+import {
+  ReferenceDamageType,
+  ReferenceWeaponProperty,
+} from '../reference';
+
+import { ResourceTypes } from '../resource-type';
+import { Rarities, ERarity } from '../rarity';
+import Currency from '../currency';
+
+import {
+  enumHas,
+  isPlainObject,
+  validateArray,
+  validateArrayOfObjects,
+  validateBoolean,
+  validateEnum,
+  validateInstance,
+  validateInteger,
+  validateObject,
+  validateString,
+} from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  makeStrictValidateWrongType,
+  strictValidateOptionalArrayProp,
+  strictValidateOptionalObjectProp,
+  strictValidateOptionalProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredArrayProp,
+  strictValidateRequiredObjectProp,
+  strictValidateRequiredProp,
+} from '../utils/errors';
+
+/**
+ * The general category an item belongs to.
+ */
+export const ItemCategories = {
+  AMMUNITION: 'AMMUNITION',
+  ARMOR: 'ARMOR',
+  GAME: 'GAME',
+  GENERAL: 'GENERAL',
+  HOLY_SYMBOL: 'HOLY_SYMBOL',
+  INSTRUMENT: 'INSTRUMENT',
+  MAGIC: 'MAGIC',
+  POTION: 'POTION',
+  TOOL: 'TOOL',
+  VEHICLE: 'VEHICLE',
+  WEAPON: 'WEAPON',
+  WONDEROUS: 'WONDEROUS',
+} as const;
+export type EItemCategory = typeof ItemCategories[keyof typeof ItemCategories];
+
+export const itemCategoryHas = (key:string):boolean => enumHas(ItemCategories, key);
+
+/**
+ * The weight class of a piece of armor, shields being their own category.
+ */
+export const ArmorCategories = {
+  LIGHT: 'LIGHT',
+  MEDIUM: 'MEDIUM',
+  HEAVY: 'HEAVY',
+  SHIELD: 'SHIELD',
+} as const;
+export type EArmorCategory = typeof ArmorCategories[keyof typeof ArmorCategories];
+
+export const armorCategoryHas = (key:string):boolean => enumHas(ArmorCategories, key);
+
+/**
+ * The training category of a weapon.
+ */
+export const WeaponCategories = {
+  SIMPLE: 'SIMPLE',
+  MARTIAL: 'MARTIAL',
+} as const;
+export type EWeaponCategory = typeof WeaponCategories[keyof typeof WeaponCategories];
+
+export const weaponCategoryHas = (key:string):boolean => enumHas(WeaponCategories, key);
+
+/**
+ * Whether a weapon is used in melee, or at range.
+ */
+export const WeaponRangeTypes = {
+  MELEE: 'MELEE',
+  RANGED: 'RANGED',
+} as const;
+export type EWeaponRangeType = typeof WeaponRangeTypes[keyof typeof WeaponRangeTypes];
+
+export const weaponRangeTypeHas = (key:string):boolean => enumHas(WeaponRangeTypes, key);
+
+/**
+ * Properties for items that can be worn as armor.
+ */
+export interface IItemArmor {
+  category : EArmorCategory;
+
+  /**
+   * The armor class provided before any modifiers.
+   */
+  baseAC : number;
+
+  /**
+   * Whether the dexterity modifier is added to the AC.
+   */
+  addDexterity ?: boolean;
+
+  /**
+   * If `addDexterity` is used, the maximum that may be added.
+   */
+  maxDexterityBonus ?: number;
+
+  /**
+   * The strength score required to wear this armor without a speed penalty.
+   */
+  strengthRequired ?: number;
+
+  stealthDisadvantage ?: boolean;
+};
+
+/**
+ * An amount of damage a weapon deals.
+ */
+export interface IItemWeaponDamage {
+
+  /**
+   * Dice calculation for the damage, ie. "1d8".
+   */
+  amount : string;
+
+  /**
+   * Dice calculation if the weapon is wielded in two hands (versatile).
+   */
+  twoHanded ?: string;
+
+  type : ReferenceDamageType;
+};
+
+/**
+ * The range of a weapon in feet, `long` being the disadvantaged range.
+ */
+export interface IItemWeaponRange {
+  type : EWeaponRangeType;
+  normal : number;
+  long ?: number;
+};
+
+/**
+ * The properties of a weapon if it is thrown.
+ */
+export interface IItemWeaponThrow {
+  normal : number;
+  long ?: number;
+  damage ?: Array<IItemWeaponDamage>;
+};
+
+/**
+ * Properties for items that can be used as a weapon.
+ */
+export interface IItemWeapon {
+  category : EWeaponCategory;
+  properties : Array<ReferenceWeaponProperty>;
+  range : IItemWeaponRange;
+  damage : Array<IItemWeaponDamage>;
+  throw ?: IItemWeaponThrow;
+  extra ?: Array<any>;
+};
+
+/**
+ * Properties for items that are magical.
+ */
+export interface IItemMagic {
+  rarity : ERarity;
+
+  /**
+   * Paragraphs describing the magical properties.
+   */
+  details ?: Array<string>;
+};
+
+/**
+ * Individual item description.
+ *
+ * Schema: /item.schema.json
+ */
+export interface IItem {
+  category : EItemCategory;
+  subCategory ?: string;
+
+  /**
+   * The suggested price of this item.
+   */
+  value : Currency;
+
+  /**
+   * The weight of the item in pounds.
+   */
+  weight : number;
+
+  armor ?: IItemArmor;
+  weapon ?: IItemWeapon;
+  magic ?: IItemMagic;
+};
+
+/**
+ * Individual item description.
+ *
+ * Schema: /item.schema.json
+ */
+export default class Item extends Resource implements IItem, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Item');
+
+    strictValidateRequiredProp(props, 'Item', 'category', 'string');
+    strictValidateOptionalProp(props, 'Item', 'subCategory', 'string');
+    if(props.value && typeof props.value !== 'string' && typeof props.value !== 'number' && !(props.value instanceof Currency))
+      throw makeStrictValidateWrongType('Item', 'value', 'string or number', typeof props.value);
+    strictValidateOptionalProp(props, 'Item', 'weight', 'number');
+    strictValidateOptionalObjectProp(props, 'Item', 'armor', Item.strictValidateArmorProps);
+    strictValidateOptionalObjectProp(props, 'Item', 'weapon', Item.strictValidateWeaponProps);
+    strictValidateOptionalObjectProp(props, 'Item', 'magic', Item.strictValidateMagicProps);
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateArmorProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Item::Armor');
+
+    strictValidateRequiredProp(props, 'Item::Armor', 'category', 'string');
+    strictValidateRequiredProp(props, 'Item::Armor', 'baseAC', 'number');
+    strictValidateOptionalProp(props, 'Item::Armor', 'addDexterity', 'boolean');
+    strictValidateOptionalProp(props, 'Item::Armor', 'maxDexterityBonus', 'number');
+    strictValidateOptionalProp(props, 'Item::Armor', 'strengthRequired', 'number');
+    strictValidateOptionalProp(props, 'Item::Armor', 'stealthDisadvantage', 'boolean');
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateWeaponProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Item::Weapon');
+
+    strictValidateRequiredProp(props, 'Item::Weapon', 'category', 'string');
+    strictValidateOptionalArrayProp(props, 'Item::Weapon', 'properties', ReferenceWeaponProperty.strictValidateProps);
+    strictValidateRequiredObjectProp(props, 'Item::Weapon', 'range', (range:any):void => {
+      strictValidateRequiredProp(range, 'Item::Weapon.range', 'type', 'string');
+      strictValidateOptionalProp(range, 'Item::Weapon.range', 'normal', 'number');
+      strictValidateOptionalProp(range, 'Item::Weapon.range', 'long', 'number');
+    });
+    strictValidateRequiredArrayProp(props, 'Item::Weapon', 'damage', Item.strictValidateDamageProps);
+    strictValidateOptionalObjectProp(props, 'Item::Weapon', 'throw', (thrw:any):void => {
+      strictValidateOptionalProp(thrw, 'Item::Weapon.throw', 'normal', 'number');
+      strictValidateOptionalProp(thrw, 'Item::Weapon.throw', 'long', 'number');
+      strictValidateOptionalArrayProp(thrw, 'Item::Weapon.throw', 'damage', Item.strictValidateDamageProps);
+    });
+    strictValidateOptionalArrayProp(props, 'Item::Weapon', 'extra', () => {
+      // Extra entries are free-form
+    });
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateDamageProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Item::Damage');
+
+    strictValidateRequiredProp(props, 'Item::Damage', 'amount', 'string');
+    strictValidateOptionalProp(props, 'Item::Damage', 'twoHanded', 'string');
+    strictValidateRequiredObjectProp(props, 'Item::Damage', 'type', ReferenceDamageType.strictValidateProps);
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateMagicProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Item::Magic');
+
+    strictValidateRequiredProp(props, 'Item::Magic', 'rarity', 'string');
+    strictValidateOptionalArrayProp(props, 'Item::Magic', 'details', 'string');
+  };
+
+  /**
+   * Converts the value property of an item into a Currency object.
+   *
+   * Strings are parsed using Currency.parse(), which accepts the schema form
+   * of "15GP" as well as written forms such as "2pp 5sp". Numbers are treated
+   * as a gold value.
+   *
+   * @param value Currency, string, or number
+   * @returns New Currency object
+   */
+  public static readonly convertValue = (value:any):Currency => {
+    if(value instanceof Currency)
+      return new Currency(value, true, true);
+
+    if(typeof value === 'number')
+      return new Currency(value, false);
+
+    if(typeof value === 'string') {
+      try {
+        return Currency.parse(value);
+      } catch (err) {
+        console.warn(`Item value "${value}" does not match the expected format of amounts followed by their denominations (ie. "15GP").`);
+      }
+    }
+
+    return new Currency();
+  };
+
+  /**
+   * Creates a copy of a damage object, converting the damage type into a
+   * ReferenceDamageType.
+   *
+   * @param props Damage object
+   * @returns New IItemWeaponDamage object
+   */
+  private static readonly copyDamage = (props:any):IItemWeaponDamage => {
+    const dmg:IItemWeaponDamage = {
+      amount: props.amount,
+      type: new ReferenceDamageType(props.type),
+    };
+
+    if(props.twoHanded)
+      dmg.twoHanded = props.twoHanded;
+
+    return dmg;
+  };
+
+  category : EItemCategory = ItemCategories.GENERAL;
+
+  subCategory ?: string;
+
+  /**
+   * The suggested price of this item.
+   */
+  value : Currency = new Currency();
+
+  /**
+   * The weight of the item in pounds.
+   */
+  weight = 0;
+
+  armor ?: IItemArmor;
+
+  weapon ?: IItemWeapon;
+
+  magic ?: IItemMagic;
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.ITEM,
+      uriBase: '/item',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof Item) {
+        Item.strictValidateProps(props);
+
+        this.category = props.category;
+        if(props.subCategory)
+          this.subCategory = props.subCategory;
+        this.value = Item.convertValue(props.value);
+        this.weight = props.weight ?? 0;
+        if(props.armor)
+          this.armor = { ...props.armor };
+        if(props.weapon) {
+          this.weapon = {
+            category: props.weapon.category,
+            properties: (props.weapon.properties ?? [])
+              .map((ent:ReferenceWeaponProperty) => new ReferenceWeaponProperty(ent)),
+            range: { ...props.weapon.range },
+            damage: props.weapon.damage.map(Item.copyDamage),
+          };
+
+          if(props.weapon.throw) {
+            this.weapon.throw = { normal: props.weapon.throw.normal ?? 0 };
+            if(props.weapon.throw.long)
+              this.weapon.throw.long = props.weapon.throw.long;
+            if(props.weapon.throw.damage)
+              this.weapon.throw.damage = props.weapon.throw.damage.map(Item.copyDamage);
+          }
+
+          if(props.weapon.extra)
+            this.weapon.extra = [ ...props.weapon.extra ];
+        }
+        if(props.magic) {
+          this.magic = { rarity: props.magic.rarity };
+          if(props.magic.details)
+            this.magic.details = [ ...props.magic.details ];
+        }
+      } else {
+        console.warn(`Attempting to instantiate an Item object with an invalid parameter. Expected either an Item object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateEnum(errs, 'Item', 'category', this.category, ItemCategories);
+    validateString(errs, 'Item', 'subCategory', this.subCategory, {}, true);
+    if(!(this.value instanceof Currency))
+      errs.push(`Item.value should be a Currency object, instead found "${typeof this.value}".`);
+    if(typeof this.weight !== 'number' || this.weight < 0)
+      errs.push(`Item.weight should be a positive number, instead found "${this.weight}".`);
+    validateObject(errs, 'Item', 'armor', this.armor, this.validateArmor, true);
+    validateObject(errs, 'Item', 'weapon', this.weapon, this.validateWeapon, true);
+    validateObject(errs, 'Item', 'magic', this.magic, this.validateMagic, true);
+
+    if(this.category === ItemCategories.ARMOR && !this.armor)
+      errs.push(`Item.armor is required if the category is "ARMOR".`);
+    if(this.category === ItemCategories.WEAPON && !this.weapon)
+      errs.push(`Item.weapon is required if the category is "WEAPON".`);
+
+    return errs;
+  };
+
+  validateArmor = (armor:IItemArmor):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateEnum(errs, 'Item::Armor', 'category', armor.category, ArmorCategories);
+    validateInteger(errs, 'Item::Armor', 'baseAC', armor.baseAC, {
+      positive: true,
+
+      // Shields only add to the AC of other armor
+      minValue: (armor.category === ArmorCategories.SHIELD ? 1 : 10),
+    });
+    validateBoolean(errs, 'Item::Armor', 'addDexterity', armor.addDexterity, true);
+    validateInteger(errs, 'Item::Armor', 'maxDexterityBonus', armor.maxDexterityBonus, { positive: true }, true);
+    validateInteger(errs, 'Item::Armor', 'strengthRequired', armor.strengthRequired, { positive: true }, true);
+    validateBoolean(errs, 'Item::Armor', 'stealthDisadvantage', armor.stealthDisadvantage, true);
+
+    return errs;
+  };
+
+  validateWeapon = (weapon:IItemWeapon):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateEnum(errs, 'Item::Weapon', 'category', weapon.category, WeaponCategories);
+    validateArrayOfObjects(errs, 'Item::Weapon', 'properties', weapon.properties, (prop:any):ValidationErrors => {
+      if(prop instanceof ReferenceWeaponProperty)
+        return prop.validateSync();
+      return [ 'supplied object is not a ReferenceWeaponProperty object.' ];
+    });
+    validateObject(errs, 'Item::Weapon', 'range', weapon.range, (range:IItemWeaponRange):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateEnum(subErrs, 'Item::Weapon.range', 'type', range.type, WeaponRangeTypes);
+      validateInteger(subErrs, 'Item::Weapon.range', 'normal', range.normal, { positive: true }, true);
+      validateInteger(subErrs, 'Item::Weapon.range', 'long', range.long, { positive: true }, true);
+
+      return subErrs;
+    });
+    validateArrayOfObjects(errs, 'Item::Weapon', 'damage', weapon.damage, this.validateDamage);
+    validateObject(errs, 'Item::Weapon', 'throw', weapon.throw, (thrw:IItemWeaponThrow):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateInteger(subErrs, 'Item::Weapon.throw', 'normal', thrw.normal, { positive: true }, true);
+      validateInteger(subErrs, 'Item::Weapon.throw', 'long', thrw.long, { positive: true }, true);
+      validateArrayOfObjects(subErrs, 'Item::Weapon.throw', 'damage', thrw.damage, this.validateDamage, true);
+
+      return subErrs;
+    }, true);
+    validateArray(errs, 'Item::Weapon', 'extra', weapon.extra, ():ValidationErrors => [], true);
+
+    return errs;
+  };
+
+  validateDamage = (dmg:IItemWeaponDamage):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateString(errs, 'Item::Damage', 'amount', dmg.amount);
+    validateString(errs, 'Item::Damage', 'twoHanded', dmg.twoHanded, {}, true);
+    validateInstance(errs, 'Item::Damage', 'type', dmg.type, ReferenceDamageType);
+
+    return errs;
+  };
+
+  validateMagic = (magic:IItemMagic):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateEnum(errs, 'Item::Magic', 'rarity', magic.rarity, Rarities);
+    validateArray(errs, 'Item::Magic', 'details', magic.details, (prop:any, ind:number):ValidationErrors => {
+      if(!prop || typeof prop !== 'string')
+        return [ `Item::Magic.details[${ind}] is a "${typeof prop}", expected a string.` ];
+      return [];
+    }, true);
+
+    return errs;
+  };
+}
@@ -0,0 +1,131 @@
+import Resource from '../resource';
+import { ResourceTypes } from '../resource-type';
+
+import {
+  isPlainObject,
+  validateArray,
+  validateBoolean,
+  validateString,
+} from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  strictValidateOptionalProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredArrayProp,
+  strictValidateRequiredProp,
+} from '../utils/errors';
+
+/**
+ * A language spoken by creatures (or written).
+ *
+ * Schema: /language.schema.json
+ */
+export interface ILanguage {
+
+  /**
+   * The alphabet or "script" used to write in this language.
+   */
+  script : string;
+
+  /**
+   * Whether this language is considered "exotic", as opposed to standard.
+   */
+  exotic : boolean;
+
+  /**
+   * The names of the types of creatures that speak this language.
+   */
+  speakers : Array<string>;
+};
+
+/**
+ * A language spoken by creatures (or written).
+ *
+ * Schema: /language.schema.json
+ */
+export default class Language extends Resource implements ILanguage, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Language');
+
+    strictValidateRequiredProp(props, 'Language', 'script', 'string');
+    strictValidateOptionalProp(props, 'Language', 'exotic', 'boolean');
+    strictValidateRequiredArrayProp(props, 'Language', 'speakers', 'string');
+  };
+
+  /**
+   * The alphabet or "script" used to write in this language.
+   */
+  script = '';
+
+  /**
+   * Whether this language is considered "exotic", as opposed to standard.
+   */
+  exotic = false;
+
+  /**
+   * The names of the types of creatures that speak this language.
+   */
+  speakers : Array<string> = [];
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.LANGUAGE,
+      uriBase: '/language',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof Language) {
+        Language.strictValidateProps(props);
+
+        this.script = props.script;
+        this.exotic = props.exotic ?? false;
+        this.speakers = [ ...props.speakers ];
+      } else {
+        console.warn(`Attempting to instantiate a Language object with an invalid parameter. Expected either a Language object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateString(errs, 'Language', 'script', this.script);
+
+    // False is the default, so this is treated as optional
+    validateBoolean(errs, 'Language', 'exotic', this.exotic, true);
+    validateArray(errs, 'Language', 'speakers', this.speakers, (prop:any, ind:number):ValidationErrors => {
+      if(!prop || typeof prop !== 'string')
+        return [ `Language.speakers[${ind}] is a "${typeof prop}", expected a string.` ];
+      return [];
+    });
+
+    return errs;
+  };
+}
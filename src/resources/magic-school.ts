@@ -0,0 +1,18 @@
+import Resource from '../resource';
+import { ResourceTypes } from '../resource-type';
+
+/**
+ * Information about a school of magic.
+ *
+ * This resource has no properties beyond those of a Resource.
+ *
+ * Schema: /magic-school.schema.json
+ */
+export default class MagicSchool extends Resource {
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.MAGIC_SCHOOL,
+      uriBase: '/magic-school',
+    });
+  }
+}
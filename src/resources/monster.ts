@@ -0,0 +1,1244 @@
+import Resource from '../resource';
+
+import Reference, {
+  IReference,
+  ReferenceAbilityScore,
+  ReferenceCondition,
+  ReferenceDamageType,
+  ReferenceLanguage,
+  ReferenceProficiency,
+  ReferenceSpell,
+} from '../reference';
+
+import { ResourceTypes } from '../resource-type';
+import { Alignments, EAlignment } from '../alignment';
+import { CreatureSizes, ECreatureSize } from '../creature-size';
+
+import {
+  enumHas,
+  isPlainObject,
+  validateArray,
+  validateArrayOfObjects,
+  validateBoolean,
+  validateEnum,
+  validateInstance,
+  validateInteger,
+  validateObject,
+  validateString,
+} from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  strictValidateOptionalArrayProp,
+  strictValidateOptionalObjectProp,
+  strictValidateOptionalProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredArrayProp,
+  strictValidateRequiredObjectProp,
+  strictValidateRequiredProp,
+} from '../utils/errors';
+
+/**
+ * The primary "kind" (creature type) a monster can be.
+ */
+export const MonsterKinds = {
+  ABERRATION: 'ABERRATION',
+  BEAST: 'BEAST',
+  CELESTIAL: 'CELESTIAL',
+  CONSTRUCT: 'CONSTRUCT',
+  DRAGON: 'DRAGON',
+  ELEMENTAL: 'ELEMENTAL',
+  FEY: 'FEY',
+  FIEND: 'FIEND',
+  GIANT: 'GIANT',
+  HUMANOID: 'HUMANOID',
+  MONSTROSITY: 'MONSTROSITY',
+  OOZE: 'OOZE',
+  PLANT: 'PLANT',
+  UNDEAD: 'UNDEAD',
+} as const;
+export type EMonsterKind = typeof MonsterKinds[keyof typeof MonsterKinds];
+
+export const monsterKindHas = (key:string):boolean => enumHas(MonsterKinds, key);
+
+/**
+ * The type of attack a monster's action performs.
+ */
+export const MonsterActionTypes = {
+  MELEE_WEAPON: 'MELEE_WEAPON',
+  RANGE_WEAPON: 'RANGE_WEAPON',
+  MELEE_SPELL: 'MELEE_SPELL',
+  RANGE_SPELL: 'RANGE_SPELL',
+} as const;
+export type EMonsterActionType = typeof MonsterActionTypes[keyof typeof MonsterActionTypes];
+
+export const monsterActionTypeHas = (key:string):boolean => enumHas(MonsterActionTypes, key);
+
+/**
+ * How a limited-use action is recharged.
+ *
+ * ROLL is the "Recharge 5-6" style, REST is recharged by resting.
+ */
+export const MonsterActionUsageTypes = {
+  ROLL: 'ROLL',
+  REST: 'REST',
+} as const;
+export type EMonsterActionUsageType = typeof MonsterActionUsageTypes[keyof typeof MonsterActionUsageTypes];
+
+export const monsterActionUsageTypeHas = (key:string):boolean => enumHas(MonsterActionUsageTypes, key);
+
+/**
+ * How often a special ability can be used.
+ */
+export const MonsterAbilityUsageTypes = {
+  AT_WILL: 'AT_WILL',
+  PER_DAY: 'PER_DAY',
+} as const;
+export type EMonsterAbilityUsageType = typeof MonsterAbilityUsageTypes[keyof typeof MonsterAbilityUsageTypes];
+
+export const monsterAbilityUsageTypeHas = (key:string):boolean => enumHas(MonsterAbilityUsageTypes, key);
+
+/**
+ * The creature type of the monster, with any additional sub-types.
+ */
+export interface IMonsterKind {
+
+  /**
+   * The main creature type.
+   */
+  primary : EMonsterKind;
+
+  /**
+   * Additional tags for the type, ie. "goblinoid", "shapechanger".
+   */
+  additional ?: Array<string>;
+};
+
+/**
+ * Movement speeds in feet.
+ */
+export interface IMonsterSpeed {
+  walk : number;
+  swim : number;
+  fly : number;
+};
+
+/**
+ * The senses a monster has, all values in feet except the passive scores.
+ */
+export interface IMonsterSenses {
+  passivePerception : number;
+  passiveInsight ?: number;
+  darkvision ?: number;
+  blindsight ?: number;
+  truesight ?: number;
+  tremorsense ?: number;
+};
+
+/**
+ * A single ability score with its pre-calculated modifier and saving throw.
+ */
+export interface IMonsterAbilityScore {
+  score : number;
+  modifier : number;
+  savingThrow : number;
+};
+
+/**
+ * The six ability scores of a monster.
+ */
+export interface IMonsterAbilityScores {
+  strength : IMonsterAbilityScore;
+  dexterity : IMonsterAbilityScore;
+  constitution : IMonsterAbilityScore;
+  intelligence : IMonsterAbilityScore;
+  wisdom : IMonsterAbilityScore;
+  charisma : IMonsterAbilityScore;
+};
+
+/**
+ * A proficiency reference, along with the bonus the monster has in it.
+ */
+export interface IMonsterProficiency extends IReference {
+  amount : number;
+};
+
+/**
+ * The damage and condition immunities of a monster.
+ */
+export interface IMonsterImmunities {
+  damageTypes : Array<ReferenceDamageType>;
+  conditions ?: Array<ReferenceCondition>;
+};
+
+/**
+ * The languages a monster speaks or understands.
+ *
+ * Languages that do not have a resource of their own (such as
+ * "understands the languages of its creator") go in `additional`.
+ */
+export interface IMonsterLanguages {
+  references ?: Array<ReferenceLanguage>;
+  additional ?: Array<string>;
+};
+
+/**
+ * A damage option that can be chosen instead of the primary damage.
+ */
+export interface IMonsterDamageChoice {
+  amount : string;
+  type : ReferenceDamageType;
+};
+
+/**
+ * The damage dealt by an action.
+ */
+export interface IMonsterDamage {
+
+  /**
+   * Dice calculation for the damage, ie. "2d6 + 3".
+   */
+  amount ?: string;
+
+  type ?: ReferenceDamageType;
+
+  options ?: {
+    amount ?: number;
+    choices ?: Array<IMonsterDamageChoice>;
+  };
+};
+
+/**
+ * A saving throw a target must make against an action.
+ */
+export interface IMonsterSave {
+  ability : ReferenceAbilityScore;
+  difficultyCheck : number;
+  halfOnSuccess : boolean;
+};
+
+/**
+ * Limits on how often an action can be used.
+ */
+export interface IMonsterActionUsage {
+  type : EMonsterActionUsageType;
+  description ?: string;
+  amount ?: number;
+
+  /**
+   * The dice rolled to check for a recharge, ie. "1d6".
+   */
+  dice ?: string;
+
+  /**
+   * The minimum value on the `dice` required for the action to recharge.
+   */
+  minimumRoll ?: number;
+
+  rest ?: {
+    short : boolean;
+    long : boolean;
+  };
+};
+
+/**
+ * A named choice for actions that allow picking between options.
+ */
+export interface IMonsterActionOption {
+  name : string;
+  amount : number;
+};
+
+/**
+ * An action a monster can perform on its turn.
+ */
+export interface IMonsterAction {
+  name : string;
+  description : string;
+  type : EMonsterActionType;
+  attackBonus : number;
+
+  /**
+   * Reach in feet.
+   */
+  reach : number;
+
+  /**
+   * Range in feet, `long` being the disadvantaged range.
+   */
+  range : {
+    normal : number;
+    long ?: number;
+  };
+
+  damage ?: Array<IMonsterDamage>;
+  save ?: IMonsterSave;
+  usage ?: IMonsterActionUsage;
+
+  options ?: {
+    amount : number;
+    choices : Array<IMonsterActionOption>;
+  };
+};
+
+/**
+ * A legendary action, which costs some amount of the monster's legendary
+ * action pool.
+ */
+export interface IMonsterLegendaryAction extends IMonsterAction {
+  cost : number;
+};
+
+/**
+ * The legendary actions available to a monster each round.
+ */
+export interface IMonsterLegendaryActions {
+
+  /**
+   * The amount of legendary actions (points) per round.
+   */
+  amount : number;
+
+  actions : Array<IMonsterLegendaryAction>;
+};
+
+/**
+ * Innate or class-like spellcasting a monster has.
+ */
+export interface IMonsterSpellcasting {
+
+  /**
+   * The caster level.
+   */
+  level : number;
+
+  ability : ReferenceAbilityScore;
+  attackBonus : number;
+  saveDC : number;
+
+  /**
+   * Available spell slots, index 0 being 1st level slots.
+   */
+  slots : Array<number>;
+
+  spells : Array<ReferenceSpell>;
+};
+
+/**
+ * A special ability, trait, or feature of a monster.
+ */
+export interface IMonsterSpecialAbility {
+  name : string;
+  description : string;
+  reference ?: Reference;
+
+  usage ?: {
+    type : EMonsterAbilityUsageType;
+    amount ?: number;
+  };
+
+  spellcasting ?: IMonsterSpellcasting;
+};
+
+/**
+ * Stats, and information about a monster.
+ *
+ * Schema: /monster.schema.json
+ */
+export interface IMonster {
+  challengeRating : number;
+  size : ECreatureSize;
+  kind : IMonsterKind;
+  alignment : EAlignment;
+  maxHP : number;
+
+  /**
+   * The hit dice used to calculate the HP, ie. "8d10".
+   */
+  hitDice ?: string;
+
+  armorClass : number;
+  proficiencyBonus ?: number;
+  speed : IMonsterSpeed;
+  senses : IMonsterSenses;
+  abilityScores : IMonsterAbilityScores;
+  proficiencies : Array<IMonsterProficiency>;
+  resistances : Array<ReferenceDamageType>;
+  immunities : IMonsterImmunities;
+  vulnerabilities ?: Array<ReferenceDamageType>;
+  languages : IMonsterLanguages;
+  actions : Array<IMonsterAction>;
+  legendaryActions ?: IMonsterLegendaryActions;
+  specialAbilities ?: Array<IMonsterSpecialAbility>;
+};
+
+/**
+ * Stats, and information about a monster.
+ *
+ * Schema: /monster.schema.json
+ */
+export default class Monster extends Resource implements IMonster, IValidatable {
+  private static readonly regexpHitDice = /^[0-9]{1,2}[Dd][012468]{1,3}$/;
+
+  private static readonly regexpDamage = /^[0-9]{1,2}[Dd][012468]{1,3}(?:\s?\+\s?[0-9]+)?$/;
+
+  private static readonly abilityScoreKeys:Array<keyof IMonsterAbilityScores> = [
+    'strength',
+    'dexterity',
+    'constitution',
+    'intelligence',
+    'wisdom',
+    'charisma',
+  ];
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Monster');
+
+    strictValidateOptionalProp(props, 'Monster', 'challengeRating', 'number');
+    strictValidateRequiredProp(props, 'Monster', 'size', 'string');
+    strictValidateRequiredObjectProp(props, 'Monster', 'kind', Monster.strictValidateKindProps);
+    strictValidateRequiredProp(props, 'Monster', 'alignment', 'string');
+    strictValidateRequiredProp(props, 'Monster', 'maxHP', 'number');
+    strictValidateOptionalProp(props, 'Monster', 'hitDice', 'string');
+    strictValidateRequiredProp(props, 'Monster', 'armorClass', 'number');
+    strictValidateOptionalProp(props, 'Monster', 'proficiencyBonus', 'number');
+    strictValidateRequiredObjectProp(props, 'Monster', 'speed', Monster.strictValidateSpeedProps);
+    strictValidateRequiredObjectProp(props, 'Monster', 'senses', Monster.strictValidateSensesProps);
+    strictValidateRequiredObjectProp(props, 'Monster', 'abilityScores', Monster.strictValidateAbilityScoresProps);
+    strictValidateRequiredArrayProp(props, 'Monster', 'proficiencies', Monster.strictValidateProficiencyProps);
+    strictValidateRequiredArrayProp(props, 'Monster', 'resistances', ReferenceDamageType.strictValidateProps);
+    strictValidateRequiredObjectProp(props, 'Monster', 'immunities', Monster.strictValidateImmunitiesProps);
+    strictValidateOptionalArrayProp(props, 'Monster', 'vulnerabilities', ReferenceDamageType.strictValidateProps);
+    strictValidateRequiredObjectProp(props, 'Monster', 'languages', Monster.strictValidateLanguagesProps);
+    strictValidateRequiredArrayProp(props, 'Monster', 'actions', Monster.strictValidateActionProps);
+    strictValidateOptionalObjectProp(props, 'Monster', 'legendaryActions', Monster.strictValidateLegendaryActionsProps);
+    strictValidateOptionalArrayProp(props, 'Monster', 'specialAbilities', Monster.strictValidateSpecialAbilityProps);
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateKindProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Monster::Kind');
+
+    strictValidateRequiredProp(props, 'Monster::Kind', 'primary', 'string');
+    strictValidateOptionalArrayProp(props, 'Monster::Kind', 'additional', 'string');
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Speeds may be 0, so they are only type checked if present.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateSpeedProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Monster::Speed');
+
+    strictValidateOptionalProp(props, 'Monster::Speed', 'walk', 'number');
+    strictValidateOptionalProp(props, 'Monster::Speed', 'swim', 'number');
+    strictValidateOptionalProp(props, 'Monster::Speed', 'fly', 'number');
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateSensesProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Monster::Senses');
+
+    strictValidateRequiredProp(props, 'Monster::Senses', 'passivePerception', 'number');
+    strictValidateOptionalProp(props, 'Monster::Senses', 'passiveInsight', 'number');
+    strictValidateOptionalProp(props, 'Monster::Senses', 'darkvision', 'number');
+    strictValidateOptionalProp(props, 'Monster::Senses', 'blindsight', 'number');
+    strictValidateOptionalProp(props, 'Monster::Senses', 'truesight', 'number');
+    strictValidateOptionalProp(props, 'Monster::Senses', 'tremorsense', 'number');
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateAbilityScoresProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Monster::AbilityScores');
+
+    Monster.abilityScoreKeys.forEach((key:string) => {
+      strictValidateRequiredObjectProp(props, 'Monster::AbilityScores', key, (abl:any):void => {
+        strictValidateRequiredProp(abl, `Monster::AbilityScores.${key}`, 'score', 'number');
+
+        // Modifiers and saves can be 0
+        strictValidateOptionalProp(abl, `Monster::AbilityScores.${key}`, 'modifier', 'number');
+        strictValidateOptionalProp(abl, `Monster::AbilityScores.${key}`, 'savingThrow', 'number');
+      });
+    });
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateProficiencyProps = (props:any):void => {
+    ReferenceProficiency.strictValidateProps(props);
+
+    strictValidateOptionalProp(props, 'Monster::Proficiency', 'amount', 'number');
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateImmunitiesProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Monster::Immunities');
+
+    strictValidateRequiredArrayProp(props, 'Monster::Immunities', 'damageTypes', ReferenceDamageType.strictValidateProps);
+    strictValidateOptionalArrayProp(props, 'Monster::Immunities', 'conditions', ReferenceCondition.strictValidateProps);
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateLanguagesProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Monster::Languages');
+
+    strictValidateOptionalArrayProp(props, 'Monster::Languages', 'references', ReferenceLanguage.strictValidateProps);
+    strictValidateOptionalArrayProp(props, 'Monster::Languages', 'additional', 'string');
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateActionProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Monster::Action');
+
+    strictValidateRequiredProp(props, 'Monster::Action', 'name', 'string');
+    strictValidateRequiredProp(props, 'Monster::Action', 'description', 'string');
+    strictValidateRequiredProp(props, 'Monster::Action', 'type', 'string');
+    strictValidateOptionalProp(props, 'Monster::Action', 'attackBonus', 'number');
+    strictValidateOptionalProp(props, 'Monster::Action', 'reach', 'number');
+    strictValidateRequiredObjectProp(props, 'Monster::Action', 'range', (range:any):void => {
+      strictValidateOptionalProp(range, 'Monster::Action.range', 'normal', 'number');
+      strictValidateOptionalProp(range, 'Monster::Action.range', 'long', 'number');
+    });
+    strictValidateOptionalArrayProp(props, 'Monster::Action', 'damage', Monster.strictValidateDamageProps);
+    strictValidateOptionalObjectProp(props, 'Monster::Action', 'save', (save:any):void => {
+      strictValidateRequiredObjectProp(save, 'Monster::Action.save', 'ability', ReferenceAbilityScore.strictValidateProps);
+      strictValidateRequiredProp(save, 'Monster::Action.save', 'difficultyCheck', 'number');
+      strictValidateOptionalProp(save, 'Monster::Action.save', 'halfOnSuccess', 'boolean');
+    });
+    strictValidateOptionalObjectProp(props, 'Monster::Action', 'usage', (usage:any):void => {
+      strictValidateRequiredProp(usage, 'Monster::Action.usage', 'type', 'string');
+      strictValidateOptionalProp(usage, 'Monster::Action.usage', 'description', 'string');
+      strictValidateOptionalProp(usage, 'Monster::Action.usage', 'amount', 'number');
+      strictValidateOptionalProp(usage, 'Monster::Action.usage', 'dice', 'string');
+      strictValidateOptionalProp(usage, 'Monster::Action.usage', 'minimumRoll', 'number');
+      strictValidateOptionalObjectProp(usage, 'Monster::Action.usage', 'rest', (rest:any):void => {
+        strictValidateOptionalProp(rest, 'Monster::Action.usage.rest', 'short', 'boolean');
+        strictValidateOptionalProp(rest, 'Monster::Action.usage.rest', 'long', 'boolean');
+      });
+    });
+    strictValidateOptionalObjectProp(props, 'Monster::Action', 'options', (opts:any):void => {
+      strictValidateRequiredProp(opts, 'Monster::Action.options', 'amount', 'number');
+      strictValidateRequiredArrayProp(opts, 'Monster::Action.options', 'choices', (choice:any):void => {
+        strictValidatePropsParameter(choice, 'Monster::Action.options.choices');
+        strictValidateRequiredProp(choice, 'Monster::Action.options.choices', 'name', 'string');
+        strictValidateRequiredProp(choice, 'Monster::Action.options.choices', 'amount', 'number');
+      });
+    });
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateDamageProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Monster::Damage');
+
+    strictValidateOptionalProp(props, 'Monster::Damage', 'amount', 'string');
+    strictValidateOptionalObjectProp(props, 'Monster::Damage', 'type', ReferenceDamageType.strictValidateProps);
+    strictValidateOptionalObjectProp(props, 'Monster::Damage', 'options', (opts:any):void => {
+      strictValidateOptionalProp(opts, 'Monster::Damage.options', 'amount', 'number');
+      strictValidateOptionalArrayProp(opts, 'Monster::Damage.options', 'choices', (choice:any):void => {
+        strictValidatePropsParameter(choice, 'Monster::Damage.options.choices');
+        strictValidateRequiredProp(choice, 'Monster::Damage.options.choices', 'amount', 'string');
+        strictValidateRequiredObjectProp(choice, 'Monster::Damage.options.choices', 'type', ReferenceDamageType.strictValidateProps);
+      });
+    });
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateLegendaryActionsProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Monster::LegendaryActions');
+
+    strictValidateOptionalProp(props, 'Monster::LegendaryActions', 'amount', 'number');
+    strictValidateOptionalArrayProp(props, 'Monster::LegendaryActions', 'actions', (act:any):void => {
+      Monster.strictValidateActionProps(act);
+      strictValidateOptionalProp(act, 'Monster::LegendaryActions.actions', 'cost', 'number');
+    });
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateSpecialAbilityProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Monster::SpecialAbility');
+
+    strictValidateRequiredProp(props, 'Monster::SpecialAbility', 'name', 'string');
+    strictValidateRequiredProp(props, 'Monster::SpecialAbility', 'description', 'string');
+    strictValidateOptionalObjectProp(props, 'Monster::SpecialAbility', 'reference', Reference.strictValidateProps);
+    strictValidateOptionalObjectProp(props, 'Monster::SpecialAbility', 'usage', (usage:any):void => {
+      strictValidateRequiredProp(usage, 'Monster::SpecialAbility.usage', 'type', 'string');
+      strictValidateOptionalProp(usage, 'Monster::SpecialAbility.usage', 'amount', 'number');
+    });
+    strictValidateOptionalObjectProp(props, 'Monster::SpecialAbility', 'spellcasting', (spc:any):void => {
+      strictValidateRequiredProp(spc, 'Monster::Spellcasting', 'level', 'number');
+      strictValidateRequiredObjectProp(spc, 'Monster::Spellcasting', 'ability', ReferenceAbilityScore.strictValidateProps);
+      strictValidateOptionalProp(spc, 'Monster::Spellcasting', 'attackBonus', 'number');
+      strictValidateRequiredProp(spc, 'Monster::Spellcasting', 'saveDC', 'number');
+      strictValidateRequiredArrayProp(spc, 'Monster::Spellcasting', 'slots', 'number');
+      strictValidateRequiredArrayProp(spc, 'Monster::Spellcasting', 'spells', ReferenceSpell.strictValidateProps);
+    });
+  };
+
+  /**
+   * Validation callback for arrays of damage type references.
+   *
+   * @param prop The array entry
+   * @returns Validation errors
+   */
+  private static readonly validateDamageTypeRef = (prop:any):ValidationErrors => {
+    if(prop instanceof ReferenceDamageType)
+      return prop.validateSync();
+    return [ 'supplied object is not a ReferenceDamageType object.' ];
+  };
+
+  /**
+   * Creates a copy of an action, converting the nested references into their
+   * Reference classes.
+   *
+   * @param props Action object
+   * @returns New IMonsterAction object
+   */
+  private static readonly copyAction = (props:any):IMonsterAction => {
+    const act:IMonsterAction = {
+      name: props.name,
+      description: props.description,
+      type: props.type,
+      attackBonus: props.attackBonus ?? 0,
+      reach: props.reach ?? 0,
+      range: { ...props.range },
+    };
+
+    if(props.damage)
+      act.damage = props.damage.map(Monster.copyDamage);
+
+    if(props.save) {
+      act.save = {
+        ability: new ReferenceAbilityScore(props.save.ability),
+        difficultyCheck: props.save.difficultyCheck,
+        halfOnSuccess: !!props.save.halfOnSuccess,
+      };
+    }
+
+    if(props.usage) {
+      act.usage = { ...props.usage };
+      if(props.usage.rest)
+        act.usage.rest = { ...props.usage.rest };
+    }
+
+    if(props.options) {
+      act.options = {
+        amount: props.options.amount,
+        choices: props.options.choices.map((ent:IMonsterActionOption) => ({ ...ent })),
+      };
+    }
+
+    return act;
+  };
+
+  /**
+   * Creates a copy of a damage object, converting the nested references into
+   * their Reference classes.
+   *
+   * @param props Damage object
+   * @returns New IMonsterDamage object
+   */
+  private static readonly copyDamage = (props:any):IMonsterDamage => {
+    const dmg:IMonsterDamage = {};
+
+    if(props.amount)
+      dmg.amount = props.amount;
+
+    if(props.type)
+      dmg.type = new ReferenceDamageType(props.type);
+
+    if(props.options) {
+      dmg.options = {};
+
+      if(props.options.amount)
+        dmg.options.amount = props.options.amount;
+
+      if(props.options.choices) {
+        dmg.options.choices = props.options.choices.map((ent:IMonsterDamageChoice) => ({
+          amount: ent.amount,
+          type: new ReferenceDamageType(ent.type),
+        }));
+      }
+    }
+
+    return dmg;
+  };
+
+  /**
+   * Creates a copy of a special ability, converting the nested references into
+   * their Reference classes.
+   *
+   * @param props Special ability object
+   * @returns New IMonsterSpecialAbility object
+   */
+  private static readonly copySpecialAbility = (props:any):IMonsterSpecialAbility => {
+    const abl:IMonsterSpecialAbility = {
+      name: props.name,
+      description: props.description,
+    };
+
+    if(props.reference)
+      abl.reference = new Reference(props.reference);
+
+    if(props.usage)
+      abl.usage = { ...props.usage };
+
+    if(props.spellcasting) {
+      abl.spellcasting = {
+        level: props.spellcasting.level,
+        ability: new ReferenceAbilityScore(props.spellcasting.ability),
+        attackBonus: props.spellcasting.attackBonus ?? 0,
+        saveDC: props.spellcasting.saveDC,
+        slots: [ ...props.spellcasting.slots ],
+        spells: props.spellcasting.spells.map((ent:ReferenceSpell) => new ReferenceSpell(ent)),
+      };
+    }
+
+    return abl;
+  };
+
+  /**
+   * The challenge rating of this monster.
+   */
+  challengeRating = 0;
+
+  /**
+   * The size category of this monster.
+   */
+  size : ECreatureSize = CreatureSizes.UNKNOWN;
+
+  /**
+   * The creature type of this monster.
+   */
+  kind : IMonsterKind = { primary: MonsterKinds.BEAST };
+
+  /**
+   * The typical alignment of this monster.
+   */
+  alignment : EAlignment = Alignments.UNKNOWN;
+
+  /**
+   * The average (maximum) hit points.
+   */
+  maxHP = 0;
+
+  /**
+   * The hit dice used to calculate the HP, ie. "8d10".
+   */
+  hitDice ?: string;
+
+  armorClass = 0;
+
+  proficiencyBonus ?: number;
+
+  /**
+   * Movement speeds in feet.
+   */
+  speed : IMonsterSpeed = {
+    walk: 0,
+    swim: 0,
+    fly: 0,
+  };
+
+  senses : IMonsterSenses = { passivePerception: 0 };
+
+  abilityScores : IMonsterAbilityScores = {
+    strength: {
+      score: 10,
+      modifier: 0,
+      savingThrow: 0,
+    },
+    dexterity: {
+      score: 10,
+      modifier: 0,
+      savingThrow: 0,
+    },
+    constitution: {
+      score: 10,
+      modifier: 0,
+      savingThrow: 0,
+    },
+    intelligence: {
+      score: 10,
+      modifier: 0,
+      savingThrow: 0,
+    },
+    wisdom: {
+      score: 10,
+      modifier: 0,
+      savingThrow: 0,
+    },
+    charisma: {
+      score: 10,
+      modifier: 0,
+      savingThrow: 0,
+    },
+  };
+
+  /**
+   * Proficiencies (skills, tools, etc.) with the bonus the monster has in them.
+   */
+  proficiencies : Array<IMonsterProficiency> = [];
+
+  /**
+   * Damage types this monster takes half damage from.
+   */
+  resistances : Array<ReferenceDamageType> = [];
+
+  immunities : IMonsterImmunities = { damageTypes: [] };
+
+  /**
+   * Damage types this monster takes double damage from.
+   */
+  vulnerabilities ?: Array<ReferenceDamageType>;
+
+  languages : IMonsterLanguages = {};
+
+  actions : Array<IMonsterAction> = [];
+
+  legendaryActions ?: IMonsterLegendaryActions;
+
+  specialAbilities ?: Array<IMonsterSpecialAbility>;
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.MONSTER,
+      uriBase: '/monster',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof Monster) {
+        Monster.strictValidateProps(props);
+
+        this.challengeRating = props.challengeRating ?? 0;
+        this.size = props.size;
+        this.kind = { primary: props.kind.primary };
+        if(props.kind.additional)
+          this.kind.additional = [ ...props.kind.additional ];
+        this.alignment = props.alignment;
+        this.maxHP = props.maxHP;
+        if(props.hitDice)
+          this.hitDice = props.hitDice;
+        this.armorClass = props.armorClass;
+        if(props.proficiencyBonus)
+          this.proficiencyBonus = props.proficiencyBonus;
+        this.speed = {
+          walk: props.speed.walk ?? 0,
+          swim: props.speed.swim ?? 0,
+          fly: props.speed.fly ?? 0,
+        };
+        this.senses = { ...props.senses };
+        Monster.abilityScoreKeys.forEach((key:keyof IMonsterAbilityScores) => {
+          this.abilityScores[key] = {
+            score: props.abilityScores[key].score,
+            modifier: props.abilityScores[key].modifier ?? 0,
+            savingThrow: props.abilityScores[key].savingThrow ?? 0,
+          };
+        });
+        this.proficiencies = props.proficiencies.map((ent:IMonsterProficiency) => (
+          Object.assign(new ReferenceProficiency(ent), { amount: ent.amount ?? 0 })
+        ));
+        this.resistances = props.resistances.map((ent:ReferenceDamageType) => new ReferenceDamageType(ent));
+        const damageTypes = props.immunities.damageTypes.map((ent:ReferenceDamageType) => new ReferenceDamageType(ent));
+        this.immunities = { damageTypes };
+        if(props.immunities.conditions) {
+          this.immunities.conditions = props.immunities.conditions
+            .map((ent:ReferenceCondition) => new ReferenceCondition(ent));
+        }
+        if(props.vulnerabilities)
+          this.vulnerabilities = props.vulnerabilities.map((ent:ReferenceDamageType) => new ReferenceDamageType(ent));
+        this.languages = {};
+        if(props.languages.references) {
+          this.languages.references = props.languages.references
+            .map((ent:ReferenceLanguage) => new ReferenceLanguage(ent));
+        }
+        if(props.languages.additional)
+          this.languages.additional = [ ...props.languages.additional ];
+        this.actions = props.actions.map(Monster.copyAction);
+        if(props.legendaryActions) {
+          this.legendaryActions = {
+            amount: props.legendaryActions.amount ?? 0,
+            actions: (props.legendaryActions.actions ?? []).map((ent:IMonsterLegendaryAction) => ({
+              ...Monster.copyAction(ent),
+              cost: ent.cost ?? 1,
+            })),
+          };
+        }
+        if(props.specialAbilities)
+          this.specialAbilities = props.specialAbilities.map(Monster.copySpecialAbility);
+      } else {
+        console.warn(`Attempting to instantiate a Monster object with an invalid parameter. Expected either a Monster object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateInteger(errs, 'Monster', 'challengeRating', this.challengeRating, { positive: true }, true);
+    validateEnum(errs, 'Monster', 'size', this.size, CreatureSizes);
+    validateObject(errs, 'Monster', 'kind', this.kind, this.validateKind);
+    validateEnum(errs, 'Monster', 'alignment', this.alignment, Alignments);
+    validateInteger(errs, 'Monster', 'maxHP', this.maxHP, {
+      positive: true,
+      minValue: 1,
+    });
+    validateString(errs, 'Monster', 'hitDice', this.hitDice, { regexp: Monster.regexpHitDice }, true);
+    validateInteger(errs, 'Monster', 'armorClass', this.armorClass, { positive: true });
+    validateInteger(errs, 'Monster', 'proficiencyBonus', this.proficiencyBonus, { positive: true }, true);
+    validateObject(errs, 'Monster', 'speed', this.speed, this.validateSpeed);
+    validateObject(errs, 'Monster', 'senses', this.senses, this.validateSenses);
+    validateObject(errs, 'Monster', 'abilityScores', this.abilityScores, this.validateAbilityScores);
+    validateArrayOfObjects(errs, 'Monster', 'proficiencies', this.proficiencies, (prop:IMonsterProficiency):ValidationErrors => {
+      if(prop instanceof ReferenceProficiency) {
+        const subErrs = prop.validateSync();
+        validateInteger(subErrs, 'Monster::Proficiency', 'amount', prop.amount, { positive: true }, true);
+        return subErrs;
+      }
+      return [ 'supplied object is not a ReferenceProficiency object.' ];
+    });
+    validateArrayOfObjects(errs, 'Monster', 'resistances', this.resistances, Monster.validateDamageTypeRef);
+    validateObject(errs, 'Monster', 'immunities', this.immunities, this.validateImmunities);
+    validateArrayOfObjects(errs, 'Monster', 'vulnerabilities', this.vulnerabilities, Monster.validateDamageTypeRef, true);
+    validateObject(errs, 'Monster', 'languages', this.languages, this.validateLanguages);
+    validateArrayOfObjects(errs, 'Monster', 'actions', this.actions, this.validateAction);
+    validateObject(errs, 'Monster', 'legendaryActions', this.legendaryActions, this.validateLegendaryActions, true);
+    validateArrayOfObjects(errs, 'Monster', 'specialAbilities', this.specialAbilities, this.validateSpecialAbility, true);
+
+    return errs;
+  };
+
+  validateKind = (kind:IMonsterKind):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateEnum(errs, 'Monster::Kind', 'primary', kind.primary, MonsterKinds);
+    validateArray(errs, 'Monster::Kind', 'additional', kind.additional, (prop:any, ind:number):ValidationErrors => {
+      if(!prop || typeof prop !== 'string')
+        return [ `Monster::Kind.additional[${ind}] is a "${typeof prop}", expected a string.` ];
+      return [];
+    }, true);
+
+    return errs;
+  };
+
+  validateSpeed = (speed:IMonsterSpeed):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateInteger(errs, 'Monster::Speed', 'walk', speed.walk, { positive: true }, true);
+    validateInteger(errs, 'Monster::Speed', 'swim', speed.swim, { positive: true }, true);
+    validateInteger(errs, 'Monster::Speed', 'fly', speed.fly, { positive: true }, true);
+
+    return errs;
+  };
+
+  validateSenses = (senses:IMonsterSenses):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateInteger(errs, 'Monster::Senses', 'passivePerception', senses.passivePerception, { positive: true });
+    validateInteger(errs, 'Monster::Senses', 'passiveInsight', senses.passiveInsight, { positive: true }, true);
+    validateInteger(errs, 'Monster::Senses', 'darkvision', senses.darkvision, { positive: true }, true);
+    validateInteger(errs, 'Monster::Senses', 'blindsight', senses.blindsight, { positive: true }, true);
+    validateInteger(errs, 'Monster::Senses', 'truesight', senses.truesight, { positive: true }, true);
+    validateInteger(errs, 'Monster::Senses', 'tremorsense', senses.tremorsense, { positive: true }, true);
+
+    return errs;
+  };
+
+  validateAbilityScores = (scores:IMonsterAbilityScores):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    Monster.abilityScoreKeys.forEach((key:keyof IMonsterAbilityScores) => {
+      validateObject(errs, 'Monster::AbilityScores', key, scores[key], (abl:IMonsterAbilityScore):ValidationErrors => {
+        const subErrs:ValidationErrors = [];
+
+        validateInteger(subErrs, `Monster::AbilityScores.${key}`, 'score', abl.score, { positive: true });
+        validateInteger(subErrs, `Monster::AbilityScores.${key}`, 'modifier', abl.modifier, {}, true);
+        validateInteger(subErrs, `Monster::AbilityScores.${key}`, 'savingThrow', abl.savingThrow, {}, true);
+
+        return subErrs;
+      });
+    });
+
+    return errs;
+  };
+
+  validateImmunities = (imm:IMonsterImmunities):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateArrayOfObjects(errs, 'Monster::Immunities', 'damageTypes', imm.damageTypes, Monster.validateDamageTypeRef);
+    validateArrayOfObjects(errs, 'Monster::Immunities', 'conditions', imm.conditions, (prop:any):ValidationErrors => {
+      if(prop instanceof ReferenceCondition)
+        return prop.validateSync();
+      return [ 'supplied object is not a ReferenceCondition object.' ];
+    }, true);
+
+    return errs;
+  };
+
+  validateLanguages = (langs:IMonsterLanguages):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateArrayOfObjects(errs, 'Monster::Languages', 'references', langs.references, (prop:any):ValidationErrors => {
+      if(prop instanceof ReferenceLanguage)
+        return prop.validateSync();
+      return [ 'supplied object is not a ReferenceLanguage object.' ];
+    }, true);
+    validateArray(errs, 'Monster::Languages', 'additional', langs.additional, (prop:any, ind:number):ValidationErrors => {
+      if(!prop || typeof prop !== 'string')
+        return [ `Monster::Languages.additional[${ind}] is a "${typeof prop}", expected a string.` ];
+      return [];
+    }, true);
+
+    return errs;
+  };
+
+  validateAction = (act:IMonsterAction):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateString(errs, 'Monster::Action', 'name', act.name);
+    validateString(errs, 'Monster::Action', 'description', act.description);
+    validateEnum(errs, 'Monster::Action', 'type', act.type, MonsterActionTypes);
+    validateInteger(errs, 'Monster::Action', 'attackBonus', act.attackBonus, { positive: true }, true);
+    validateInteger(errs, 'Monster::Action', 'reach', act.reach, { positive: true }, true);
+    validateObject(errs, 'Monster::Action', 'range', act.range, (range:any):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateInteger(subErrs, 'Monster::Action.range', 'normal', range.normal, { positive: true }, true);
+      validateInteger(subErrs, 'Monster::Action.range', 'long', range.long, { positive: true }, true);
+
+      return subErrs;
+    });
+    validateArrayOfObjects(errs, 'Monster::Action', 'damage', act.damage, this.validateDamage, true);
+    validateObject(errs, 'Monster::Action', 'save', act.save, (save:IMonsterSave):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateInstance(subErrs, 'Monster::Action.save', 'ability', save.ability, ReferenceAbilityScore);
+      validateInteger(subErrs, 'Monster::Action.save', 'difficultyCheck', save.difficultyCheck, {
+        positive: true,
+        minValue: 1,
+      });
+      validateBoolean(subErrs, 'Monster::Action.save', 'halfOnSuccess', save.halfOnSuccess, true);
+
+      return subErrs;
+    }, true);
+    validateObject(errs, 'Monster::Action', 'usage', act.usage, (usage:IMonsterActionUsage):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateEnum(subErrs, 'Monster::Action.usage', 'type', usage.type, MonsterActionUsageTypes);
+      validateString(subErrs, 'Monster::Action.usage', 'description', usage.description, {}, true);
+      validateInteger(subErrs, 'Monster::Action.usage', 'amount', usage.amount, { positive: true }, true);
+      validateString(subErrs, 'Monster::Action.usage', 'dice', usage.dice, { regexp: Monster.regexpDamage }, true);
+      validateInteger(subErrs, 'Monster::Action.usage', 'minimumRoll', usage.minimumRoll, {
+        positive: true,
+        minValue: 1,
+      }, true);
+
+      return subErrs;
+    }, true);
+    validateObject(errs, 'Monster::Action', 'options', act.options, (opts:any):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateInteger(subErrs, 'Monster::Action.options', 'amount', opts.amount, {
+        positive: true,
+        minValue: 1,
+      });
+      validateArrayOfObjects(subErrs, 'Monster::Action.options', 'choices', opts.choices, (choice:IMonsterActionOption):ValidationErrors => {
+        const choiceErrs:ValidationErrors = [];
+
+        validateString(choiceErrs, 'Monster::Action.options.choices', 'name', choice.name);
+        validateInteger(choiceErrs, 'Monster::Action.options.choices', 'amount', choice.amount, {
+          positive: true,
+          minValue: 1,
+        });
+
+        return choiceErrs;
+      });
+
+      return subErrs;
+    }, true);
+
+    return errs;
+  };
+
+  validateDamage = (dmg:IMonsterDamage):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateString(errs, 'Monster::Damage', 'amount', dmg.amount, { regexp: Monster.regexpDamage }, true);
+    validateInstance(errs, 'Monster::Damage', 'type', dmg.type, ReferenceDamageType, true);
+    validateObject(errs, 'Monster::Damage', 'options', dmg.options, (opts:any):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateInteger(subErrs, 'Monster::Damage.options', 'amount', opts.amount, {
+        positive: true,
+        minValue: 1,
+      }, true);
+      validateArrayOfObjects(subErrs, 'Monster::Damage.options', 'choices', opts.choices, (choice:IMonsterDamageChoice):ValidationErrors => {
+        const choiceErrs:ValidationErrors = [];
+
+        validateString(choiceErrs, 'Monster::Damage.options.choices', 'amount', choice.amount, { regexp: Monster.regexpDamage });
+        validateInstance(choiceErrs, 'Monster::Damage.options.choices', 'type', choice.type, ReferenceDamageType);
+
+        return choiceErrs;
+      }, true);
+
+      return subErrs;
+    }, true);
+
+    return errs;
+  };
+
+  validateLegendaryActions = (legs:IMonsterLegendaryActions):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateInteger(errs, 'Monster::LegendaryActions', 'amount', legs.amount, { positive: true }, true);
+    validateArrayOfObjects(errs, 'Monster::LegendaryActions', 'actions', legs.actions, (act:IMonsterLegendaryAction):ValidationErrors => {
+      const subErrs = this.validateAction(act);
+      validateInteger(subErrs, 'Monster::LegendaryAction', 'cost', act.cost, { positive: true }, true);
+      return subErrs;
+    });
+
+    return errs;
+  };
+
+  validateSpecialAbility = (abl:IMonsterSpecialAbility):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateString(errs, 'Monster::SpecialAbility', 'name', abl.name);
+    validateString(errs, 'Monster::SpecialAbility', 'description', abl.description);
+    validateInstance(errs, 'Monster::SpecialAbility', 'reference', abl.reference, Reference, true);
+    validateObject(errs, 'Monster::SpecialAbility', 'usage', abl.usage, (usage:any):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateEnum(subErrs, 'Monster::SpecialAbility.usage', 'type', usage.type, MonsterAbilityUsageTypes);
+      validateInteger(subErrs, 'Monster::SpecialAbility.usage', 'amount', usage.amount, {
+        positive: true,
+        minValue: 1,
+      }, (usage.type !== MonsterAbilityUsageTypes.PER_DAY));
+
+      return subErrs;
+    }, true);
+    validateObject(errs, 'Monster::SpecialAbility', 'spellcasting', abl.spellcasting, this.validateSpellcasting, true);
+
+    return errs;
+  };
+
+  validateSpellcasting = (spc:IMonsterSpellcasting):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateInteger(errs, 'Monster::Spellcasting', 'level', spc.level, {
+      positive: true,
+      minValue: 1,
+    });
+    validateInstance(errs, 'Monster::Spellcasting', 'ability', spc.ability, ReferenceAbilityScore);
+    validateInteger(errs, 'Monster::Spellcasting', 'attackBonus', spc.attackBonus, { positive: true }, true);
+    validateInteger(errs, 'Monster::Spellcasting', 'saveDC', spc.saveDC, {
+      positive: true,
+      minValue: 1,
+    });
+    validateArray(errs, 'Monster::Spellcasting', 'slots', spc.slots, (prop:any, ind:number):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+      validateInteger(subErrs, 'Monster::Spellcasting', `slots[${ind}]`, prop, { positive: true }, true);
+      return subErrs;
+    });
+    if(Array.isArray(spc.slots) && spc.slots.length < 9)
+      errs.push(`Monster::Spellcasting.slots needs at least 9 items, instead it has a size of ${spc.slots.length}.`);
+    validateArrayOfObjects(errs, 'Monster::Spellcasting', 'spells', spc.spells, (prop:any):ValidationErrors => {
+      if(prop instanceof ReferenceSpell)
+        return prop.validateSync();
+      return [ 'supplied object is not a ReferenceSpell object.' ];
+    });
+    if(Array.isArray(spc.spells) && spc.spells.length === 0)
+      errs.push(`Monster::Spellcasting.spells requires at least one entry, none found.`);
+
+    return errs;
+  };
+}
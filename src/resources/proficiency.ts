@@ -0,0 +1,164 @@
+import Resource from '../resource';
+import Reference, { ReferenceClass, ReferenceRace } from '../reference';
+import { ResourceTypes } from '../resource-type';
+
+import {
+  enumHas,
+  isPlainObject,
+  validateArrayOfObjects,
+  validateEnum,
+} from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  strictValidateOptionalArrayProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredProp,
+} from '../utils/errors';
+
+/**
+ * The category a proficiency applies to, for organizational purposes.
+ */
+export const ProficiencyCategories = {
+  ARMOR: 'ARMOR',
+  GAME: 'GAME',
+  INSTRUMENT: 'INSTRUMENT',
+  SAVING_THROW: 'SAVING_THROW',
+  SKILL: 'SKILL',
+  TOOL: 'TOOL',
+  VEHICLE: 'VEHICLE',
+  WEAPON: 'WEAPON',
+} as const;
+export type EProficiencyCategory = typeof ProficiencyCategories[keyof typeof ProficiencyCategories];
+
+export const proficiencyCategoryHas = (key:string):boolean => enumHas(ProficiencyCategories, key);
+
+/**
+ * Describes a proficiency that a creature can have.
+ *
+ * Schema: /proficiency.schema.json
+ */
+export interface IProficiency {
+  category : EProficiencyCategory;
+
+  /**
+   * Races that start with this proficiency.
+   */
+  races ?: Array<ReferenceRace>;
+
+  /**
+   * Classes that start with this proficiency.
+   */
+  classes ?: Array<ReferenceClass>;
+
+  /**
+   * The resources this proficiency covers (ie. the skill, or items).
+   */
+  references ?: Array<Reference>;
+};
+
+/**
+ * Builds a validation callback for an array of references.
+ *
+ * @param classType Reference class the entries should be
+ * @param typeName Name of the reference class for error messages
+ * @returns Validation callback
+ */
+const validateReferenceEntry = (classType:typeof Reference, typeName:string) => (prop:any):ValidationErrors => {
+  if(prop instanceof classType)
+    return prop.validateSync();
+  return [ `supplied object is not a ${typeName} object.` ];
+};
+
+/**
+ * Describes a proficiency that a creature can have.
+ *
+ * Schema: /proficiency.schema.json
+ */
+export default class Proficiency extends Resource implements IProficiency, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Proficiency');
+
+    strictValidateRequiredProp(props, 'Proficiency', 'category', 'string');
+    strictValidateOptionalArrayProp(props, 'Proficiency', 'races', ReferenceRace.strictValidateProps);
+    strictValidateOptionalArrayProp(props, 'Proficiency', 'classes', ReferenceClass.strictValidateProps);
+    strictValidateOptionalArrayProp(props, 'Proficiency', 'references', Reference.strictValidateProps);
+  };
+
+  category : EProficiencyCategory = ProficiencyCategories.SKILL;
+
+  /**
+   * Races that start with this proficiency.
+   */
+  races ?: Array<ReferenceRace>;
+
+  /**
+   * Classes that start with this proficiency.
+   */
+  classes ?: Array<ReferenceClass>;
+
+  /**
+   * The resources this proficiency covers (ie. the skill, or items).
+   */
+  references ?: Array<Reference>;
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.PROFICIENCY,
+      uriBase: '/proficiency',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof Proficiency) {
+        Proficiency.strictValidateProps(props);
+
+        this.category = props.category;
+        if(props.races)
+          this.races = props.races.map((ent:ReferenceRace) => new ReferenceRace(ent));
+        if(props.classes)
+          this.classes = props.classes.map((ent:ReferenceClass) => new ReferenceClass(ent));
+        if(props.references)
+          this.references = props.references.map((ent:Reference) => new Reference(ent));
+      } else {
+        console.warn(`Attempting to instantiate a Proficiency object with an invalid parameter. Expected either a Proficiency object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateEnum(errs, 'Proficiency', 'category', this.category, ProficiencyCategories);
+    validateArrayOfObjects(errs, 'Proficiency', 'races', this.races, validateReferenceEntry(ReferenceRace, 'ReferenceRace'), true);
+    validateArrayOfObjects(errs, 'Proficiency', 'classes', this.classes, validateReferenceEntry(ReferenceClass, 'ReferenceClass'), true);
+    validateArrayOfObjects(errs, 'Proficiency', 'references', this.references, validateReferenceEntry(Reference, 'Reference'), true);
+
+    return errs;
+  };
+}
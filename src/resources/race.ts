@@ -0,0 +1,607 @@
+import Resource from '../resource';
+
+import {
+  IReference,
+  ReferenceAbilityScore,
+  ReferenceLanguage,
+  ReferenceProficiency,
+  ReferenceRace,
+  ReferenceSubRace,
+  ReferenceTrait,
+} from '../reference';
+
+import { ResourceTypes } from '../resource-type';
+import { CreatureSizes, ECreatureSize } from '../creature-size';
+
+import {
+  inPlaceConcat,
+  isPlainObject,
+  validateArrayOfObjects,
+  validateEnum,
+  validateInstance,
+  validateInteger,
+  validateObject,
+  validateString,
+} from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  strictValidateOptionalArrayProp,
+  strictValidateOptionalObjectProp,
+  strictValidateOptionalProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredArrayProp,
+  strictValidateRequiredObjectProp,
+  strictValidateRequiredProp,
+} from '../utils/errors';
+
+/**
+ * Describes the ages of a race in years.
+ */
+export interface IRaceAge {
+  description : string;
+  adulthood ?: number;
+  lifespan ?: number;
+};
+
+export interface IRaceSize {
+  type : ECreatureSize;
+  description ?: string;
+};
+
+/**
+ * Base movement speeds in feet.
+ */
+export interface IRaceSpeed {
+  walk : number;
+  swim : number;
+  fly : number;
+};
+
+/**
+ * Ranges of any special senses in feet.
+ */
+export interface IRaceSenses {
+  darkvision ?: number;
+  blindsight ?: number;
+  truesight ?: number;
+  tremorsense ?: number;
+};
+
+/**
+ * A bonus applied to an ability score.
+ */
+export interface IRaceAbilityScore extends IReference {
+  amount : number;
+};
+
+/**
+ * A set of choices, of which `amount` may be picked.
+ */
+export interface IRaceChoices<Type> {
+  amount : number;
+  choices : Array<Type>;
+};
+
+/**
+ * Values that are given by the race, and an optional set of choices to
+ * pick additional values from.
+ */
+export interface IRaceStartingOptions<Type> {
+  starting ?: Array<Type>;
+  options ?: IRaceChoices<Type>;
+};
+
+export interface IRaceLanguages extends IRaceStartingOptions<ReferenceLanguage> {
+  description ?: string;
+};
+
+/**
+ * The properties shared between races and sub-races.
+ */
+export interface IRaceTraits {
+  senses ?: IRaceSenses;
+  abilityScores ?: IRaceStartingOptions<IRaceAbilityScore>;
+  proficiencies ?: IRaceStartingOptions<ReferenceProficiency>;
+  languages ?: IRaceLanguages;
+  traits ?: IRaceStartingOptions<ReferenceTrait>;
+};
+
+/**
+ * A race suitable for (N)PC creatures.
+ *
+ * Schema: /race.schema.json
+ */
+export interface IRace extends IRaceTraits {
+
+  /**
+   * If this race was produced by merging a sub-race, the race it was
+   * merged with.
+   */
+  parentRace ?: ReferenceRace;
+
+  /**
+   * Description of the typical alignment of the race.
+   */
+  alignment : string;
+
+  age : IRaceAge;
+  size : IRaceSize;
+  speed : IRaceSpeed;
+  subRaces ?: Array<ReferenceSubRace>;
+};
+
+/**
+ * A race suitable for (N)PC creatures.
+ *
+ * Schema: /race.schema.json
+ */
+export default class Race extends Resource implements IRace, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Race');
+
+    strictValidateOptionalObjectProp(props, 'Race', 'parentRace', ReferenceRace.strictValidateProps);
+    strictValidateRequiredProp(props, 'Race', 'alignment', 'string');
+    strictValidateRequiredObjectProp(props, 'Race', 'age', Race.strictValidateAgeProps);
+    strictValidateRequiredObjectProp(props, 'Race', 'size', Race.strictValidateSizeProps);
+    strictValidateRequiredObjectProp(props, 'Race', 'speed', Race.strictValidateSpeedProps);
+    Race.strictValidateTraitsProps(props, 'Race');
+    strictValidateOptionalArrayProp(props, 'Race', 'subRaces', ReferenceSubRace.strictValidateProps);
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  public static readonly strictValidateAgeProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Race::Age');
+
+    strictValidateRequiredProp(props, 'Race::Age', 'description', 'string');
+    strictValidateOptionalProp(props, 'Race::Age', 'adulthood', 'number');
+    strictValidateOptionalProp(props, 'Race::Age', 'lifespan', 'number');
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  public static readonly strictValidateSizeProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Race::Size');
+
+    strictValidateRequiredProp(props, 'Race::Size', 'type', 'string');
+    strictValidateOptionalProp(props, 'Race::Size', 'description', 'string');
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  public static readonly strictValidateSpeedProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Race::Speed');
+
+    strictValidateOptionalProp(props, 'Race::Speed', 'walk', 'number');
+    strictValidateOptionalProp(props, 'Race::Speed', 'swim', 'number');
+    strictValidateOptionalProp(props, 'Race::Speed', 'fly', 'number');
+  };
+
+  /**
+   * Performs type checking on the properties shared between races and
+   * sub-races (senses, ability scores, proficiencies, languages, traits).
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   * @param className Name of the class being validated
+   */
+  public static readonly strictValidateTraitsProps = (props:any, className:string):void => {
+    strictValidateOptionalObjectProp(props, className, 'senses', (senses:any):void => {
+      strictValidateOptionalProp(senses, `${className}::Senses`, 'darkvision', 'number');
+      strictValidateOptionalProp(senses, `${className}::Senses`, 'blindsight', 'number');
+      strictValidateOptionalProp(senses, `${className}::Senses`, 'truesight', 'number');
+      strictValidateOptionalProp(senses, `${className}::Senses`, 'tremorsense', 'number');
+    });
+    strictValidateOptionalObjectProp(props, className, 'abilityScores', (scores:any):void => {
+      /*
+       * The schema describes "starting" as a single entry,
+       * but races such as humans need more than one.
+       */
+      if(isPlainObject(scores.starting))
+        Race.strictValidateAbilityScoreProps(scores.starting);
+      else
+        strictValidateOptionalArrayProp(scores, `${className}::AbilityScores`, 'starting', Race.strictValidateAbilityScoreProps);
+      strictValidateOptionalObjectProp(scores, `${className}::AbilityScores`, 'options', (opts:any):void => {
+        Race.strictValidateChoicesProps(opts, `${className}::AbilityScores.options`, Race.strictValidateAbilityScoreProps);
+      });
+    });
+    Race.strictValidateStartingOptionsProps(props, className, 'proficiencies', ReferenceProficiency.strictValidateProps);
+    Race.strictValidateStartingOptionsProps(props, className, 'languages', ReferenceLanguage.strictValidateProps);
+    if(isPlainObject(props.languages))
+      strictValidateOptionalProp(props.languages, `${className}::Languages`, 'description', 'string');
+    Race.strictValidateStartingOptionsProps(props, className, 'traits', ReferenceTrait.strictValidateProps);
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateAbilityScoreProps = (props:any):void => {
+    ReferenceAbilityScore.strictValidateProps(props);
+
+    strictValidateOptionalProp(props, 'Race::AbilityScore', 'amount', 'number');
+  };
+
+  /**
+   * Performs type checking on a choices object, using the given callback
+   * for each of the choices.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   * @param className Name of the class being validated
+   * @param cb Validation callback for each choice
+   */
+  private static readonly strictValidateChoicesProps = (props:any, className:string, cb:(prop:any) => void):void => {
+    strictValidatePropsParameter(props, className);
+
+    strictValidateOptionalProp(props, className, 'amount', 'number');
+    strictValidateRequiredArrayProp(props, className, 'choices', cb);
+  };
+
+  /**
+   * Performs type checking on an optional object with "starting", and
+   * "options" properties, using the given callback for each reference.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   * @param className Name of the class being validated
+   * @param propName Name of the property holding the object
+   * @param cb Validation callback for each reference
+   */
+  private static readonly strictValidateStartingOptionsProps = (
+    props:any,
+    className:string,
+    propName:string,
+    cb:(prop:any) => void,
+  ):void => {
+    strictValidateOptionalObjectProp(props, className, propName, (prop:any):void => {
+      strictValidateOptionalArrayProp(prop, `${className}.${propName}`, 'starting', cb);
+      strictValidateOptionalObjectProp(prop, `${className}.${propName}`, 'options', (opts:any):void => {
+        Race.strictValidateChoicesProps(opts, `${className}.${propName}.options`, cb);
+      });
+    });
+  };
+
+  /**
+   * Creates a copy of an ability score bonus, converting it into a
+   * ReferenceAbilityScore that retains the amount.
+   * Accepts either JSON, or an existing IRaceAbilityScore object.
+   *
+   * @param props Ability score bonus object
+   * @returns New IRaceAbilityScore object
+   */
+  public static readonly copyAbilityScore = (props:any):IRaceAbilityScore => {
+    const ref = new ReferenceAbilityScore({
+      uri: props.uri,
+      name: props.name,
+    });
+
+    return Object.assign(ref, { amount: props.amount ?? 0 });
+  };
+
+  /**
+   * Creates a copy of an object with "starting", and "options" properties,
+   * converting each entry with the given function.
+   *
+   * @param props Object to copy
+   * @param copy Function converting each entry
+   * @returns New IRaceStartingOptions object
+   */
+  public static readonly copyStartingOptions = <Type>(
+    props:any,
+    copy:(ent:any) => Type,
+  ):IRaceStartingOptions<Type> => {
+    const res:IRaceStartingOptions<Type> = {};
+
+    if(props.starting)
+      res.starting = (Array.isArray(props.starting) ? props.starting : [ props.starting ]).map(copy);
+
+    if(props.options) {
+      res.options = {
+        amount: props.options.amount ?? 0,
+        choices: props.options.choices.map(copy),
+      };
+    }
+
+    return res;
+  };
+
+  /**
+   * Copies the properties shared between races and sub-races from the
+   * given properties object into the target.
+   *
+   * @param target Race or SubRace being constructed
+   * @param props Incoming properties object
+   */
+  public static readonly copyTraits = (target:IRaceTraits, props:any):void => {
+    if(props.senses)
+      target.senses = { ...props.senses };
+
+    if(props.abilityScores)
+      target.abilityScores = Race.copyStartingOptions(props.abilityScores, Race.copyAbilityScore);
+
+    if(props.proficiencies) {
+      target.proficiencies = Race.copyStartingOptions(props.proficiencies, (ent:any) => (
+        new ReferenceProficiency(ent)
+      ));
+    }
+
+    if(props.languages) {
+      const languages:IRaceLanguages = Race.copyStartingOptions(props.languages, (ent:any) => (
+        new ReferenceLanguage(ent)
+      ));
+      if(props.languages.description)
+        languages.description = props.languages.description;
+      target.languages = languages;
+    }
+
+    if(props.traits)
+      target.traits = Race.copyStartingOptions(props.traits, (ent:any) => new ReferenceTrait(ent));
+  };
+
+  /**
+   * Validates an age object.
+   *
+   * @param age Age object
+   * @returns Validation errors
+   */
+  public static readonly validateAge = (age:IRaceAge):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateString(errs, 'Race::Age', 'description', age.description);
+    validateInteger(errs, 'Race::Age', 'adulthood', age.adulthood, { positive: true }, true);
+    validateInteger(errs, 'Race::Age', 'lifespan', age.lifespan, { positive: true }, true);
+
+    return errs;
+  };
+
+  /**
+   * Validates a size object.
+   *
+   * @param size Size object
+   * @returns Validation errors
+   */
+  public static readonly validateSize = (size:IRaceSize):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateEnum(errs, 'Race::Size', 'type', size.type, CreatureSizes);
+    if(size.type === CreatureSizes.UNKNOWN)
+      errs.push('Race::Size.type should not be "UNKNOWN".');
+    validateString(errs, 'Race::Size', 'description', size.description, {}, true);
+
+    return errs;
+  };
+
+  /**
+   * Validates a speed object, zero speeds being acceptable.
+   *
+   * @param speed Speed object
+   * @returns Validation errors
+   */
+  public static readonly validateSpeed = (speed:IRaceSpeed):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateInteger(errs, 'Race::Speed', 'walk', speed.walk, { positive: true }, true);
+    validateInteger(errs, 'Race::Speed', 'swim', speed.swim, { positive: true }, true);
+    validateInteger(errs, 'Race::Speed', 'fly', speed.fly, { positive: true }, true);
+
+    return errs;
+  };
+
+  /**
+   * Validates the properties shared between races and sub-races.
+   *
+   * @param props Race or SubRace being validated
+   * @param className Name of the class being validated
+   * @returns Validation errors
+   */
+  public static readonly validateTraits = (props:IRaceTraits, className:string):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateObject(errs, className, 'senses', props.senses, (senses:IRaceSenses):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateInteger(subErrs, `${className}::Senses`, 'darkvision', senses.darkvision, { positive: true }, true);
+      validateInteger(subErrs, `${className}::Senses`, 'blindsight', senses.blindsight, { positive: true }, true);
+      validateInteger(subErrs, `${className}::Senses`, 'truesight', senses.truesight, { positive: true }, true);
+      validateInteger(subErrs, `${className}::Senses`, 'tremorsense', senses.tremorsense, { positive: true }, true);
+
+      return subErrs;
+    }, true);
+
+    if(props.abilityScores) {
+      inPlaceConcat(errs, Race.validateStartingOptions(
+        props.abilityScores,
+        `${className}.abilityScores`,
+        (prop:IRaceAbilityScore):ValidationErrors => {
+          const subErrs:ValidationErrors = [];
+
+          validateInstance(subErrs, `${className}::AbilityScore`, 'reference', prop, ReferenceAbilityScore);
+          validateInteger(subErrs, `${className}::AbilityScore`, 'amount', prop.amount, { positive: true }, true);
+
+          return subErrs;
+        },
+      ));
+    }
+
+    if(props.proficiencies) {
+      inPlaceConcat(errs, Race.validateStartingOptions(props.proficiencies, `${className}.proficiencies`, (prop:any) => {
+        if(prop instanceof ReferenceProficiency)
+          return prop.validateSync();
+        return [ 'supplied object is not a ReferenceProficiency object.' ];
+      }));
+    }
+
+    if(props.languages) {
+      validateString(errs, `${className}::Languages`, 'description', props.languages.description, {}, true);
+      inPlaceConcat(errs, Race.validateStartingOptions(props.languages, `${className}.languages`, (prop:any) => {
+        if(prop instanceof ReferenceLanguage)
+          return prop.validateSync();
+        return [ 'supplied object is not a ReferenceLanguage object.' ];
+      }));
+    }
+
+    if(props.traits) {
+      inPlaceConcat(errs, Race.validateStartingOptions(props.traits, `${className}.traits`, (prop:any) => {
+        if(prop instanceof ReferenceTrait)
+          return prop.validateSync();
+        return [ 'supplied object is not a ReferenceTrait object.' ];
+      }));
+    }
+
+    return errs;
+  };
+
+  /**
+   * Validates an object with "starting", and "options" properties, using
+   * the given callback on each entry.
+   *
+   * @param props Object to validate
+   * @param className Name of the class and property being validated
+   * @param cb Validation callback for each entry
+   * @returns Validation errors
+   */
+  private static readonly validateStartingOptions = <Type>(
+    props:IRaceStartingOptions<Type>,
+    className:string,
+    cb:(prop:Type) => ValidationErrors,
+  ):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateArrayOfObjects(errs, className, 'starting', props.starting, cb, true);
+    if(props.options) {
+      validateInteger(errs, `${className}.options`, 'amount', props.options.amount, {
+        positive: true,
+        minValue: 1,
+      });
+      validateArrayOfObjects(errs, `${className}.options`, 'choices', props.options.choices, cb);
+    }
+
+    return errs;
+  };
+
+  /**
+   * If this race was produced by merging a sub-race, the race it was
+   * merged with.
+   */
+  parentRace ?: ReferenceRace;
+
+  /**
+   * Description of the typical alignment of the race.
+   */
+  alignment = '';
+
+  age : IRaceAge = { description: '' };
+
+  size : IRaceSize = { type: CreatureSizes.UNKNOWN };
+
+  speed : IRaceSpeed = {
+    walk: 0,
+    swim: 0,
+    fly: 0,
+  };
+
+  senses ?: IRaceSenses;
+
+  abilityScores ?: IRaceStartingOptions<IRaceAbilityScore>;
+
+  proficiencies ?: IRaceStartingOptions<ReferenceProficiency>;
+
+  languages ?: IRaceLanguages;
+
+  traits ?: IRaceStartingOptions<ReferenceTrait>;
+
+  subRaces ?: Array<ReferenceSubRace>;
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.RACE,
+      uriBase: '/race',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof Race) {
+        Race.strictValidateProps(props);
+
+        if(props.parentRace)
+          this.parentRace = new ReferenceRace(props.parentRace);
+        this.alignment = props.alignment;
+        this.age = { ...props.age };
+        this.size = { ...props.size };
+        this.speed = {
+          walk: props.speed.walk ?? 0,
+          swim: props.speed.swim ?? 0,
+          fly: props.speed.fly ?? 0,
+        };
+        Race.copyTraits(this, props);
+        if(props.subRaces)
+          this.subRaces = props.subRaces.map((ent:ReferenceSubRace) => new ReferenceSubRace(ent));
+      } else {
+        console.warn(`Attempting to instantiate a Race object with an invalid parameter. Expected either a Race object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateInstance(errs, 'Race', 'parentRace', this.parentRace, ReferenceRace, true);
+    validateString(errs, 'Race', 'alignment', this.alignment);
+    validateObject(errs, 'Race', 'age', this.age, Race.validateAge);
+    validateObject(errs, 'Race', 'size', this.size, Race.validateSize);
+    validateObject(errs, 'Race', 'speed', this.speed, Race.validateSpeed);
+    inPlaceConcat(errs, Race.validateTraits(this, 'Race'));
+    validateArrayOfObjects(errs, 'Race', 'subRaces', this.subRaces, (prop:any):ValidationErrors => {
+      if(prop instanceof ReferenceSubRace)
+        return prop.validateSync();
+      return [ 'supplied object is not a ReferenceSubRace object.' ];
+    }, true);
+
+    return errs;
+  };
+}
@@ -0,0 +1,92 @@
+import Resource from '../resource';
+import { ReferenceAbilityScore } from '../reference';
+import { ResourceTypes } from '../resource-type';
+import { isPlainObject, validateInstance } from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  strictValidatePropsParameter,
+  strictValidateRequiredObjectProp,
+} from '../utils/errors';
+
+/**
+ * Describes a skill that a character can be proficient in.
+ *
+ * Schema: /skill.schema.json
+ */
+export interface ISkill {
+
+  /**
+   * The ability score used with this skill.
+   */
+  abilityScore : ReferenceAbilityScore;
+};
+
+/**
+ * Describes a skill that a character can be proficient in.
+ *
+ * Schema: /skill.schema.json
+ */
+export default class Skill extends Resource implements ISkill, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Skill');
+
+    strictValidateRequiredObjectProp(props, 'Skill', 'abilityScore', ReferenceAbilityScore.strictValidateProps);
+  };
+
+  /**
+   * The ability score used with this skill.
+   */
+  abilityScore : ReferenceAbilityScore = new ReferenceAbilityScore();
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.SKILL,
+      uriBase: '/skill',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof Skill) {
+        Skill.strictValidateProps(props);
+
+        this.abilityScore = new ReferenceAbilityScore(props.abilityScore);
+      } else {
+        console.warn(`Attempting to instantiate a Skill object with an invalid parameter. Expected either a Skill object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateInstance(errs, 'Skill', 'abilityScore', this.abilityScore, ReferenceAbilityScore);
+
+    return errs;
+  };
+}
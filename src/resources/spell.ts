@@ -839,7 +839,7 @@ export default class Spell extends Resource implements ISpell, IValidatable {
   };
 
   validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
-    super.validate().then((supErrs:ValidationErrors) => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
       /*
        * Use the validateSync option and combine with the super errors.
        * We use the parameter here to let the super validation be async and then
@@ -856,7 +856,7 @@ export default class Spell extends Resource implements ISpell, IValidatable {
   });
 
   validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
-    const errs = parentErrs ?? super.validateSync();
+    const errs = parentErrs ?? this.validateResourceSync();
 
     validateInteger(errs, 'Spell', 'level', this.level, {
       positive: true,
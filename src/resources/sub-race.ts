@@ -0,0 +1,301 @@
+import Resource from '../resource';
+import Race, {
+  IRaceAbilityScore,
+  IRaceAge,
+  IRaceChoices,
+  IRaceLanguages,
+  IRaceSenses,
+  IRaceSize,
+  IRaceSpeed,
+  IRaceStartingOptions,
+  IRaceTraits,
+} from './race';
+
+import {
+  IReference,
+  ReferenceProficiency,
+  ReferenceRace,
+  ReferenceTrait,
+} from '../reference';
+
+import { ResourceTypes } from '../resource-type';
+
+import {
+  inPlaceConcat,
+  isPlainObject,
+  validateInstance,
+  validateObject,
+  validateString,
+} from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  strictValidateOptionalObjectProp,
+  strictValidateOptionalProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredObjectProp,
+} from '../utils/errors';
+
+/**
+ * A variation of a parent race. Any property supplied replaces, or adds to,
+ * the properties of the parent race.
+ *
+ * Schema: /race.schema.json
+ */
+export interface ISubRace extends IRaceTraits {
+  parentRace : ReferenceRace;
+  alignment ?: string;
+  age ?: IRaceAge;
+  size ?: IRaceSize;
+  speed ?: Partial<IRaceSpeed>;
+};
+
+/**
+ * Combines two lists of references, dropping any from the additions that
+ * share a URI with one already in the base list.
+ *
+ * @param base Starting references
+ * @param additions References to add
+ * @returns New array of references
+ */
+const mergeReferences = <Type extends IReference>(
+  base:Array<Type> = [],
+  additions:Array<Type> = [],
+):Array<Type> => base.concat(additions.filter((add:Type) => !base.some((ent:Type) => ent.uri === add.uri)));
+
+/**
+ * Combines the "starting" entries of both objects, with the sub-race's
+ * "options" replacing the parent's if it has any.
+ *
+ * @param base Parent race's values
+ * @param sub Sub-race's values
+ * @returns New IRaceStartingOptions object
+ */
+const mergeStartingOptions = <Type extends IReference>(
+  base?:IRaceStartingOptions<Type>,
+  sub?:IRaceStartingOptions<Type>,
+):IRaceStartingOptions<Type> => {
+  const res:IRaceStartingOptions<Type> = {};
+
+  if(base?.starting || sub?.starting)
+    res.starting = mergeReferences(base?.starting, sub?.starting);
+
+  const options:(IRaceChoices<Type> | undefined) = sub?.options ?? base?.options;
+  if(options) {
+    res.options = {
+      amount: options.amount,
+      choices: [ ...options.choices ],
+    };
+  }
+
+  return res;
+};
+
+/**
+ * Combines ability score bonuses, adding the amounts together for any that
+ * apply to the same ability score.
+ *
+ * @param base Parent race's bonuses
+ * @param additions Sub-race's bonuses
+ * @returns New array of ability score bonuses
+ */
+const mergeAbilityScores = (
+  base:Array<IRaceAbilityScore> = [],
+  additions:Array<IRaceAbilityScore> = [],
+):Array<IRaceAbilityScore> => additions.reduce((acc:Array<IRaceAbilityScore>, add:IRaceAbilityScore) => {
+  const existing = acc.find((ent:IRaceAbilityScore) => ent.uri === add.uri);
+  if(existing)
+    existing.amount += add.amount;
+  else
+    acc.push(Race.copyAbilityScore(add));
+
+  return acc;
+}, base.map(Race.copyAbilityScore));
+
+/**
+ * A variation of a parent race. Any property supplied replaces, or adds to,
+ * the properties of the parent race.
+ *
+ * Use `merge()` to get the effective race the sub-race describes.
+ *
+ * Schema: /race.schema.json
+ */
+export default class SubRace extends Resource implements ISubRace, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'SubRace');
+
+    strictValidateRequiredObjectProp(props, 'SubRace', 'parentRace', ReferenceRace.strictValidateProps);
+    strictValidateOptionalProp(props, 'SubRace', 'alignment', 'string');
+    strictValidateOptionalObjectProp(props, 'SubRace', 'age', Race.strictValidateAgeProps);
+    strictValidateOptionalObjectProp(props, 'SubRace', 'size', Race.strictValidateSizeProps);
+    strictValidateOptionalObjectProp(props, 'SubRace', 'speed', Race.strictValidateSpeedProps);
+    Race.strictValidateTraitsProps(props, 'SubRace');
+  };
+
+  parentRace : ReferenceRace = new ReferenceRace();
+
+  alignment ?: string;
+
+  age ?: IRaceAge;
+
+  size ?: IRaceSize;
+
+  speed ?: Partial<IRaceSpeed>;
+
+  senses ?: IRaceSenses;
+
+  abilityScores ?: IRaceStartingOptions<IRaceAbilityScore>;
+
+  proficiencies ?: IRaceStartingOptions<ReferenceProficiency>;
+
+  languages ?: IRaceLanguages;
+
+  traits ?: IRaceStartingOptions<ReferenceTrait>;
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.SUB_RACE,
+      uriBase: '/sub-race',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof SubRace) {
+        SubRace.strictValidateProps(props);
+
+        this.parentRace = new ReferenceRace(props.parentRace);
+        if(props.alignment)
+          this.alignment = props.alignment;
+        if(props.age)
+          this.age = { ...props.age };
+        if(props.size)
+          this.size = { ...props.size };
+        if(props.speed)
+          this.speed = { ...props.speed };
+        Race.copyTraits(this, props);
+      } else {
+        console.warn(`Attempting to instantiate a SubRace object with an invalid parameter. Expected either a SubRace object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  /**
+   * Produces the effective race described by this sub-race, by layering
+   * it's properties on top of the parent race.
+   *
+   * - Alignment, age, and size replace the parent's if supplied.
+   * - Speeds and senses replace the parent's individually.
+   * - Ability score bonuses are added together.
+   * - Proficiencies, languages, and traits are combined, with the
+   *   sub-race's "options" replacing the parent's.
+   *
+   * The resulting Race uses the identity (id, uri, name, etc.) of the
+   * sub-race, and references the parent race with `parentRace`.
+   *
+   * @throws Error if the parent race is not the one this sub-race references
+   * @param parent The parent Race object
+   * @returns New Race object
+   */
+  merge = (parent:Race):Race => {
+    if(!(parent instanceof Race))
+      throw new TypeError(`SubRace.merge() requires a Race object, instead found "${typeof parent}".`);
+
+    if(parent.uri !== this.parentRace.uri)
+      throw new Error(`SubRace "${this.uri}" belongs to the race "${this.parentRace.uri}", but was merged with "${parent.uri}".`);
+
+    const merged = new Race();
+
+    merged.id = this.id;
+    merged.uri = this.uri;
+    merged.name = this.name;
+    merged.description = this.description;
+    merged.source = this.source;
+    merged.tags = [ ...parent.tags, ...this.tags.filter((tag:string) => !parent.tags.includes(tag)) ];
+    merged.parentRace = new ReferenceRace({
+      uri: parent.uri,
+      name: parent.name,
+    });
+    merged.alignment = this.alignment ?? parent.alignment;
+    merged.age = { ...(this.age ?? parent.age) };
+    merged.size = { ...(this.size ?? parent.size) };
+    merged.speed = {
+      ...parent.speed,
+      ...this.speed,
+    };
+
+    if(parent.senses || this.senses) {
+      merged.senses = {
+        ...parent.senses,
+        ...this.senses,
+      };
+    }
+
+    if(parent.abilityScores || this.abilityScores) {
+      const options = this.abilityScores?.options ?? parent.abilityScores?.options;
+
+      const starting = mergeAbilityScores(parent.abilityScores?.starting, this.abilityScores?.starting);
+
+      merged.abilityScores = { starting };
+      if(options) {
+        merged.abilityScores.options = {
+          amount: options.amount,
+          choices: options.choices.map(Race.copyAbilityScore),
+        };
+      }
+    }
+
+    if(parent.proficiencies || this.proficiencies)
+      merged.proficiencies = mergeStartingOptions(parent.proficiencies, this.proficiencies);
+
+    if(parent.languages || this.languages) {
+      const languages:IRaceLanguages = mergeStartingOptions(parent.languages, this.languages);
+      const description = this.languages?.description ?? parent.languages?.description;
+      if(description)
+        languages.description = description;
+      merged.languages = languages;
+    }
+
+    if(parent.traits || this.traits)
+      merged.traits = mergeStartingOptions(parent.traits, this.traits);
+
+    return merged;
+  };
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateInstance(errs, 'SubRace', 'parentRace', this.parentRace, ReferenceRace);
+    validateString(errs, 'SubRace', 'alignment', this.alignment, {}, true);
+    validateObject(errs, 'SubRace', 'age', this.age, Race.validateAge, true);
+    validateObject(errs, 'SubRace', 'size', this.size, Race.validateSize, true);
+    validateObject(errs, 'SubRace', 'speed', this.speed, Race.validateSpeed, true);
+    inPlaceConcat(errs, Race.validateTraits(this, 'SubRace'));
+
+    return errs;
+  };
+}
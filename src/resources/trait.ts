@@ -0,0 +1,96 @@
+import Resource from '../resource';
+import { ReferenceRace } from '../reference';
+import { ResourceTypes } from '../resource-type';
+import { isPlainObject, validateArrayOfObjects } from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  strictValidatePropsParameter,
+  strictValidateRequiredArrayProp,
+} from '../utils/errors';
+
+/**
+ * Describes a racial trait.
+ *
+ * Schema: /trait.schema.json
+ */
+export interface ITrait {
+
+  /**
+   * The races that have this trait.
+   */
+  races : Array<ReferenceRace>;
+};
+
+/**
+ * Describes a racial trait.
+ *
+ * Schema: /trait.schema.json
+ */
+export default class Trait extends Resource implements ITrait, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Trait');
+
+    strictValidateRequiredArrayProp(props, 'Trait', 'races', ReferenceRace.strictValidateProps);
+  };
+
+  /**
+   * The races that have this trait.
+   */
+  races : Array<ReferenceRace> = [];
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.TRAIT,
+      uriBase: '/trait',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof Trait) {
+        Trait.strictValidateProps(props);
+
+        this.races = props.races.map((ent:ReferenceRace) => new ReferenceRace(ent));
+      } else {
+        console.warn(`Attempting to instantiate a Trait object with an invalid parameter. Expected either a Trait object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateArrayOfObjects(errs, 'Trait', 'races', this.races, (prop:any):ValidationErrors => {
+      if(prop instanceof ReferenceRace)
+        return prop.validateSync();
+      return [ 'supplied object is not a ReferenceRace object.' ];
+    });
+
+    return errs;
+  };
+}
@@ -0,0 +1,311 @@
+import Resource from '../resource';
+import { ResourceTypes } from '../resource-type';
+
+import {
+  enumHas,
+  isPlainObject,
+  validateArray,
+  validateEnum,
+  validateInteger,
+  validateObject,
+} from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  strictValidateOptionalObjectProp,
+  strictValidateOptionalProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredArrayProp,
+  strictValidateRequiredObjectProp,
+  strictValidateRequiredProp,
+} from '../utils/errors';
+
+/**
+ * The general category of a trap.
+ */
+export const TrapCategories = {
+  SIMPLE: 'SIMPLE',
+  MECHANICAL: 'MECHANICAL',
+  MAGICAL: 'MAGICAL',
+  COMPLEX: 'COMPLEX',
+} as const;
+export type ETrapCategory = typeof TrapCategories[keyof typeof TrapCategories];
+
+export const trapCategoryHas = (key:string):boolean => enumHas(TrapCategories, key);
+
+/**
+ * The elements of a complex trap, each being paragraphs of text.
+ */
+export interface ITrapElements {
+
+  /**
+   * Ongoing effects that apply for as long as the trap is active.
+   */
+  constant : Array<string>;
+
+  /**
+   * Effects that take place on the trap's initiative counts.
+   */
+  active : Array<string>;
+
+  /**
+   * Effects that change how the trap acts from round to round.
+   */
+  dynamic : Array<string>;
+};
+
+/**
+ * Complex traps take turns in combat, acting on one or more
+ * initiative counts each round.
+ */
+export interface ITrapComplex {
+  initiatives : Array<number>;
+  elements : ITrapElements;
+};
+
+/**
+ * Describes a trap creatures might trigger.
+ *
+ * Schema: /trap.schema.json
+ */
+export interface ITrap {
+  category : ETrapCategory;
+  trigger : Array<string>;
+  counterMeasure : Array<string>;
+  effects : Array<string>;
+
+  /**
+   * The tier of play the trap is suited for.
+   */
+  tier : number;
+
+  threatLevel : number;
+  complex ?: ITrapComplex;
+};
+
+/**
+ * Validates an array of paragraph strings.
+ *
+ * @param errs Existing validation errors array
+ * @param className The name of the class validating
+ * @param propName The name of the prop being validated
+ * @param prop The property itself
+ */
+const validateParagraphs = (errs:ValidationErrors, className:string, propName:string, prop:any):void => {
+  validateArray(errs, className, propName, prop, (ent:any, ind:number):ValidationErrors => {
+    if(!ent || typeof ent !== 'string')
+      return [ `${className}.${propName}[${ind}] is a "${typeof ent}", expected a string.` ];
+    return [];
+  });
+};
+
+/**
+ * Describes a trap creatures might trigger.
+ *
+ * Schema: /trap.schema.json
+ */
+export default class Trap extends Resource implements ITrap, IValidatable {
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Trap');
+
+    strictValidateRequiredProp(props, 'Trap', 'category', 'string');
+    strictValidateRequiredArrayProp(props, 'Trap', 'trigger', 'string');
+    strictValidateRequiredArrayProp(props, 'Trap', 'counterMeasure', 'string');
+    strictValidateRequiredArrayProp(props, 'Trap', 'effects', 'string');
+    strictValidateOptionalProp(props, 'Trap', 'tier', 'number');
+    strictValidateRequiredProp(props, 'Trap', 'threatLevel', 'number');
+    strictValidateOptionalObjectProp(props, 'Trap', 'complex', Trap.strictValidateComplexProps);
+  };
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  private static readonly strictValidateComplexProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Trap::Complex');
+
+    strictValidateRequiredArrayProp(props, 'Trap::Complex', 'initiatives', 'number');
+    strictValidateRequiredObjectProp(props, 'Trap::Complex', 'elements', (elements:any):void => {
+      strictValidateRequiredArrayProp(elements, 'Trap::Complex.elements', 'constant', 'string');
+      strictValidateRequiredArrayProp(elements, 'Trap::Complex.elements', 'active', 'string');
+      strictValidateRequiredArrayProp(elements, 'Trap::Complex.elements', 'dynamic', 'string');
+    });
+  };
+
+  category : ETrapCategory = TrapCategories.SIMPLE;
+
+  trigger : Array<string> = [];
+
+  counterMeasure : Array<string> = [];
+
+  effects : Array<string> = [];
+
+  /**
+   * The tier of play the trap is suited for.
+   */
+  tier = 0;
+
+  threatLevel = 1;
+
+  complex ?: ITrapComplex;
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.TRAP,
+      uriBase: '/trap',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof Trap) {
+        Trap.strictValidateProps(props);
+
+        this.category = props.category;
+        this.trigger = [ ...props.trigger ];
+        this.counterMeasure = [ ...props.counterMeasure ];
+        this.effects = [ ...props.effects ];
+        this.tier = props.tier ?? 0;
+        this.threatLevel = props.threatLevel;
+        if(props.complex) {
+          this.complex = {
+            initiatives: [ ...props.complex.initiatives ],
+            elements: {
+              constant: [ ...props.complex.elements.constant ],
+              active: [ ...props.complex.elements.active ],
+              dynamic: [ ...props.complex.elements.dynamic ],
+            },
+          };
+        }
+      } else {
+        console.warn(`Attempting to instantiate a Trap object with an invalid parameter. Expected either a Trap object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  /**
+   * Gets the initiative counts this trap acts on, from highest to lowest,
+   * as they would be in turn order.
+   *
+   * @returns New array of initiative counts, empty if not a complex trap
+   */
+  getInitiativeOrder = ():Array<number> => {
+    if(!this.complex)
+      return [];
+
+    return [ ...this.complex.initiatives ].sort((lhs:number, rhs:number) => (rhs - lhs));
+  };
+
+  /**
+   * Checks if the trap takes a turn on the given initiative count.
+   *
+   * @param initiative Initiative count
+   * @returns True if the trap acts on this count
+   */
+  actsOnInitiative = (initiative:number):boolean => (
+    !!this.complex && this.complex.initiatives.includes(initiative)
+  );
+
+  /**
+   * Gets the elements of a complex trap that take effect on the given
+   * initiative count.
+   *
+   * Constant elements are always included, as they are ongoing. The active
+   * and dynamic elements are only included if the trap acts on the count.
+   * Traps that are not complex have no elements.
+   *
+   * @param initiative Initiative count
+   * @returns New ITrapElements object
+   */
+  getElementsOnInitiative = (initiative:number):ITrapElements => {
+    if(!this.complex) {
+      return {
+        constant: [],
+        active: [],
+        dynamic: [],
+      };
+    }
+
+    const acts = this.actsOnInitiative(initiative);
+
+    return {
+      constant: [ ...this.complex.elements.constant ],
+      active: acts ? [ ...this.complex.elements.active ] : [],
+      dynamic: acts ? [ ...this.complex.elements.dynamic ] : [],
+    };
+  };
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateEnum(errs, 'Trap', 'category', this.category, TrapCategories);
+    validateParagraphs(errs, 'Trap', 'trigger', this.trigger);
+    validateParagraphs(errs, 'Trap', 'counterMeasure', this.counterMeasure);
+    validateParagraphs(errs, 'Trap', 'effects', this.effects);
+
+    // Tier 0 is valid, so this is treated as optional
+    validateInteger(errs, 'Trap', 'tier', this.tier, { positive: true }, true);
+    validateInteger(errs, 'Trap', 'threatLevel', this.threatLevel, {
+      positive: true,
+      minValue: 1,
+    });
+    validateObject(errs, 'Trap', 'complex', this.complex, this.validateComplex, true);
+
+    if(this.category === TrapCategories.COMPLEX && !this.complex)
+      errs.push('Trap.complex is required if the category is "COMPLEX".');
+
+    return errs;
+  };
+
+  validateComplex = (complex:ITrapComplex):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    validateArray(errs, 'Trap::Complex', 'initiatives', complex.initiatives, (prop:any, ind:number):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateInteger(subErrs, 'Trap::Complex', `initiatives[${ind}]`, prop, { positive: true }, true);
+      if(complex.initiatives.indexOf(prop) !== ind)
+        subErrs.push(`Trap::Complex.initiatives[${ind}] "${prop}" is a duplicate initiative count.`);
+
+      return subErrs;
+    });
+    validateObject(errs, 'Trap::Complex', 'elements', complex.elements, (elements:ITrapElements):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateParagraphs(subErrs, 'Trap::Complex.elements', 'constant', elements.constant);
+      validateParagraphs(subErrs, 'Trap::Complex.elements', 'active', elements.active);
+      validateParagraphs(subErrs, 'Trap::Complex.elements', 'dynamic', elements.dynamic);
+
+      return subErrs;
+    });
+
+    return errs;
+  };
+}
@@ -0,0 +1,305 @@
+import Resource from '../resource';
+import { ResourceTypes } from '../resource-type';
+import Currency from '../currency';
+import Item from './item';
+
+import {
+  enumHas,
+  isPlainObject,
+  validateEnum,
+  validateInteger,
+  validateObject,
+} from '../utils';
+
+import type {
+  IValidatable,
+  PromiseValidation,
+  ValidationErrors,
+} from '../interfaces';
+
+import {
+  makeStrictValidateWrongType,
+  strictValidateOptionalProp,
+  strictValidatePropsParameter,
+  strictValidateRequiredObjectProp,
+} from '../utils/errors';
+
+/**
+ * The medium a vehicle travels through.
+ */
+export const VehicleCategories = {
+  MOUNT: 'MOUNT',
+  LAND: 'LAND',
+  WATER: 'WATER',
+  AIR: 'AIR',
+} as const;
+export type EVehicleCategory = typeof VehicleCategories[keyof typeof VehicleCategories];
+
+export const vehicleCategoryHas = (key:string):boolean => enumHas(VehicleCategories, key);
+
+/**
+ * Units a speed can be measured in.
+ *
+ * Mounts move in feet per round like creatures, while other
+ * vehicles are measured by their travel pace in miles per hour.
+ */
+export const SpeedUnits = {
+  FEET: 'FEET',
+  MILES_PER_HOUR: 'MILES_PER_HOUR',
+} as const;
+export type ESpeedUnit = typeof SpeedUnits[keyof typeof SpeedUnits];
+
+export const speedUnitHas = (key:string):boolean => enumHas(SpeedUnits, key);
+
+/**
+ * Units a weight can be measured in.
+ */
+export const WeightUnits = {
+  POUNDS: 'POUNDS',
+  TONS: 'TONS',
+} as const;
+export type EWeightUnit = typeof WeightUnits[keyof typeof WeightUnits];
+
+export const weightUnitHas = (key:string):boolean => enumHas(WeightUnits, key);
+
+/**
+ * A numerical value and the unit it is measured in.
+ */
+export interface IMeasurement<Unit> {
+  value : number;
+  unit : Unit;
+};
+
+export type SpeedMeasurement = IMeasurement<ESpeedUnit>;
+export type WeightMeasurement = IMeasurement<EWeightUnit>;
+
+/**
+ * The speeds of a vehicle through each medium it can travel.
+ */
+export interface IVehicleSpeed {
+  land ?: SpeedMeasurement;
+  water ?: SpeedMeasurement;
+  air ?: SpeedMeasurement;
+  astral ?: SpeedMeasurement;
+};
+
+/**
+ * Details on vehicles (land, water, air).
+ *
+ * Schema: /vehicle.schema.json
+ */
+export interface IVehicle {
+  category ?: EVehicleCategory;
+  cost : Currency;
+  carryCapacity : WeightMeasurement;
+  speed : IVehicleSpeed;
+};
+
+/**
+ * Details on vehicles (land, water, air).
+ *
+ * Schema: /vehicle.schema.json
+ */
+export default class Vehicle extends Resource implements IVehicle, IValidatable {
+  /**
+   * Number of pounds in a ton, used for weight conversions.
+   */
+  public static readonly POUNDS_PER_TON = 2000;
+
+  /**
+   * The speed mediums a vehicle can have.
+   */
+  private static readonly speedKeys:Array<keyof IVehicleSpeed> = [
+    'land',
+    'water',
+    'air',
+    'astral',
+  ];
+
+  /**
+   * Performs type checking and throws errors if the
+   * properties needed are not the right types.
+   *
+   * Does not fully validate the data within them,
+   * but will check for emptyness, or incorrect Enums
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   */
+  protected static readonly strictValidateProps = (props:any):void => {
+    strictValidatePropsParameter(props, 'Vehicle');
+
+    strictValidateOptionalProp(props, 'Vehicle', 'category', 'string');
+    if(props.cost && typeof props.cost !== 'string' && typeof props.cost !== 'number' && !(props.cost instanceof Currency))
+      throw makeStrictValidateWrongType('Vehicle', 'cost', 'string or number', typeof props.cost);
+    Vehicle.strictValidateMeasurementProp(props, 'Vehicle', 'carryCapacity');
+    strictValidateRequiredObjectProp(props, 'Vehicle', 'speed', (speed:any):void => {
+      Vehicle.speedKeys.forEach((key:string) => Vehicle.strictValidateMeasurementProp(speed, 'Vehicle::Speed', key));
+    });
+  };
+
+  /**
+   * Checks that an optional measurement is either a number (in the default
+   * unit), or a measurement object.
+   *
+   * @throws TypeErrors for invalid properties
+   * @param props Incoming properties object
+   * @param className Name of the class being validated
+   * @param propName Name of the property
+   */
+  private static readonly strictValidateMeasurementProp = (props:any, className:string, propName:string):void => {
+    const prop = props[propName];
+    if(!prop || typeof prop === 'number')
+      return;
+
+    if(!isPlainObject(prop))
+      throw makeStrictValidateWrongType(className, propName, 'number or measurement object', typeof prop);
+
+    strictValidateOptionalProp(prop, `${className}.${propName}`, 'value', 'number');
+    strictValidateOptionalProp(prop, `${className}.${propName}`, 'unit', 'string');
+  };
+
+  /**
+   * Converts a measurement from either a number, or a measurement object.
+   *
+   * @param prop Number or measurement object
+   * @param unit The unit to use if given a number
+   * @returns New IMeasurement object
+   */
+  private static readonly convertMeasurement = <Unit>(prop:any, unit:Unit):IMeasurement<Unit> => {
+    if(isPlainObject(prop)) {
+      return {
+        value: prop.value ?? 0,
+        unit: prop.unit ?? unit,
+      };
+    }
+
+    return {
+      value: typeof prop === 'number' ? prop : 0,
+      unit,
+    };
+  };
+
+  /**
+   * Gets the unit the schema's plain speed numbers are in for the category.
+   * Mounts use feet, everything else uses miles per hour.
+   *
+   * @param category Vehicle category
+   * @returns Speed unit
+   */
+  public static readonly getDefaultSpeedUnit = (category?:EVehicleCategory):ESpeedUnit => (
+    category === VehicleCategories.MOUNT ? SpeedUnits.FEET : SpeedUnits.MILES_PER_HOUR
+  );
+
+  /**
+   * Converts a speed into miles per hour.
+   *
+   * Speeds in feet are treated as feet per round, and converted using the
+   * travel pace rule that a creature travels it's speed divided by 10 in
+   * miles per hour (ie. 30 feet is 3 miles per hour).
+   *
+   * @param speed Speed measurement
+   * @returns Miles per hour
+   */
+  public static readonly toMilesPerHour = (speed:SpeedMeasurement):number => {
+    if(speed.unit === SpeedUnits.FEET)
+      return speed.value / 10;
+    return speed.value;
+  };
+
+  /**
+   * Converts a weight into pounds.
+   *
+   * @param weight Weight measurement
+   * @returns Pounds
+   */
+  public static readonly toPounds = (weight:WeightMeasurement):number => {
+    if(weight.unit === WeightUnits.TONS)
+      return weight.value * Vehicle.POUNDS_PER_TON;
+    return weight.value;
+  };
+
+  category ?: EVehicleCategory;
+
+  cost : Currency = new Currency();
+
+  carryCapacity : WeightMeasurement = {
+    value: 0,
+    unit: WeightUnits.POUNDS,
+  };
+
+  speed : IVehicleSpeed = {};
+
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.VEHICLE,
+      uriBase: '/vehicle',
+    });
+
+    if(props) {
+      if(isPlainObject(props) || props instanceof Vehicle) {
+        Vehicle.strictValidateProps(props);
+
+        if(props.category)
+          this.category = props.category;
+        this.cost = Item.convertValue(props.cost ?? 0);
+        this.carryCapacity = Vehicle.convertMeasurement<EWeightUnit>(props.carryCapacity, WeightUnits.POUNDS);
+
+        const speedUnit = Vehicle.getDefaultSpeedUnit(props.category);
+        Vehicle.speedKeys.forEach((key:keyof IVehicleSpeed) => {
+          if(props.speed[key])
+            this.speed[key] = Vehicle.convertMeasurement<ESpeedUnit>(props.speed[key], speedUnit);
+        });
+      } else {
+        console.warn(`Attempting to instantiate a Vehicle object with an invalid parameter. Expected either a Vehicle object, or JSON object of properties. Instead encountered a "${typeof props}".`);
+      }
+    }
+  }
+
+  validate = ():PromiseValidation => new Promise<ValidationErrors>(resolve => {
+    this.validateResource().then((supErrs:ValidationErrors) => {
+      /*
+       * Use the validateSync option and combine with the super errors.
+       * We use the parameter here to let the super validation be async and then
+       * feed that into this version of validateSync().
+       */
+      resolve(this.validateSync(supErrs));
+    });
+  });
+
+  validateSync = (parentErrs?:ValidationErrors):ValidationErrors => {
+    const errs = parentErrs ?? this.validateResourceSync();
+
+    validateEnum(errs, 'Vehicle', 'category', this.category, VehicleCategories, true);
+    if(!(this.cost instanceof Currency))
+      errs.push(`Vehicle.cost should be a Currency object, instead found "${typeof this.cost}".`);
+    validateObject(errs, 'Vehicle', 'carryCapacity', this.carryCapacity, (weight:WeightMeasurement):ValidationErrors => {
+      const subErrs:ValidationErrors = [];
+
+      validateInteger(subErrs, 'Vehicle::CarryCapacity', 'value', weight.value, { positive: true }, true);
+      validateEnum(subErrs, 'Vehicle::CarryCapacity', 'unit', weight.unit, WeightUnits);
+
+      return subErrs;
+    });
+    validateObject(errs, 'Vehicle', 'speed', this.speed, this.validateSpeed);
+
+    return errs;
+  };
+
+  validateSpeed = (speed:IVehicleSpeed):ValidationErrors => {
+    const errs:ValidationErrors = [];
+
+    Vehicle.speedKeys.forEach((key:keyof IVehicleSpeed) => {
+      validateObject(errs, 'Vehicle::Speed', key, speed[key], (prop:SpeedMeasurement):ValidationErrors => {
+        const subErrs:ValidationErrors = [];
+
+        validateInteger(subErrs, `Vehicle::Speed.${key}`, 'value', prop.value, { positive: true }, true);
+        validateEnum(subErrs, `Vehicle::Speed.${key}`, 'unit', prop.unit, SpeedUnits);
+
+        return subErrs;
+      }, true);
+    });
+
+    return errs;
+  };
+}
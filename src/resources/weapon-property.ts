@@ -0,0 +1,18 @@
+import Resource from '../resource';
+import { ResourceTypes } from '../resource-type';
+
+/**
+ * Property of a weapon.
+ *
+ * This resource has no properties beyond those of a Resource.
+ *
+ * Schema: /weapon-property.schema.json
+ */
+export default class WeaponProperty extends Resource {
+  constructor(props?:any) {
+    super(props, {
+      type: ResourceTypes.WEAPON_PROPERTY,
+      uriBase: '/weapon-property',
+    });
+  }
+}
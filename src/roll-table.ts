@@ -3,12 +3,19 @@
  * See "LICENSE" in the root project folder.
  */
 import {
+  IRandomSource,
   IValidatable,
   PromiseValidation,
   ValidationErrors,
 } from './interfaces';
 
-import { DieSizes, EDieSize } from './die-size';
+import DiceDistribution, { IDiceOutcome } from './dice-distribution';
+import DiceExpression from './dice';
+import {
+  DieSizes,
+  EDieSize,
+  dieSizeAsSides,
+} from './die-size';
 import TextBlock from './text-block';
 
 import {
@@ -16,11 +23,14 @@ import {
   validateArrayOfObjects,
   validateEnum,
   validateInteger,
-  validateIntegerOptionsD100,
-  validateObject,
+  validateInstance,
+  validateString,
 } from './utils';
 
+import { getDefaultRandom } from './utils/random';
+
 import {
+  makeStrictValidateWrongType,
   strictValidateOptionalProp,
   strictValidatePropsParameter,
   strictValidateRequiredArrayProp,
@@ -28,6 +38,40 @@ import {
   strictValidateRequiredProp,
 } from './utils/errors';
 
+/**
+ * Entry values follow the schema, allowing 0 for a percentile "00".
+ */
+const validateIntegerOptionsEntry = {
+  positive: true,
+  minValue: 0,
+  maxValue: 100,
+};
+
+/**
+ * Entry values of tables using a dice expression may be any integer, as
+ * the totals depend on the expression. Values outside of the possible rolls
+ * are reported by `RollTable.validateCoverage()`.
+ */
+const validateIntegerOptionsDiceEntry = {};
+
+/**
+ * Percentile tables print a roll of 100 as "00", so they may use 0 in place
+ * of 100.
+ *
+ * @param val Value to normalize
+ * @param percentile Whether to treat 0 as 100
+ * @returns Normalized value
+ */
+const normalizePercentile = (val:number, percentile:boolean):number => ((percentile && val === 0) ? 100 : val);
+
+/**
+ * Formats an inclusive range of values for error messages, ie. "3-4".
+ *
+ * @param range Inclusive range
+ * @returns Formatted string
+ */
+const formatValueRange = ([ low, high ]:[number, number]):string => (low === high ? `${low}` : `${low}-${high}`);
+
 /**
  * An individual result from a roll-table.
  * Each value can be marked with optional
@@ -42,6 +86,8 @@ export interface IRollTableEntry {
     title ?: string;
 
     body : TextBlock;
+
+    table ?: string;
 };
 
 /**
@@ -63,10 +109,11 @@ export class RollTableEntry implements IRollTableEntry, IValidatable {
       strictValidatePropsParameter(props, 'RollTableEntry');
 
       strictValidateRequiredObjectProp(props, 'RollTableEntry', 'body', TextBlock.strictValidateProps);
-      strictValidateRequiredProp(props, 'RollTableEntry', 'value', 'number');
+      strictValidateOptionalProp(props, 'RollTableEntry', 'value', 'number');
       strictValidateOptionalProp(props, 'RollTableEntry', 'minimumValue', 'number');
       strictValidateOptionalProp(props, 'RollTableEntry', 'maximumValue', 'number');
       strictValidateOptionalProp(props, 'RollTableEntry', 'title', 'string');
+      strictValidateOptionalProp(props, 'RollTableEntry', 'table', 'string');
     }
 
     /**
@@ -101,6 +148,13 @@ export class RollTableEntry implements IRollTableEntry, IValidatable {
      */
     body : TextBlock;
 
+    /**
+     * An optional name, or URI, of another roll table which should be
+     * rolled on when this entry is the result. For example, a treasure
+     * entry rolling on an art objects table.
+     */
+    table ?: string;
+
     constructor(props?:any) {
       this.body = new TextBlock();
 
@@ -111,17 +165,20 @@ export class RollTableEntry implements IRollTableEntry, IValidatable {
 
           this.body = new TextBlock(props.body);
 
-          if(props.value)
+          if(typeof props.value === 'number')
             this.value = props.value;
           
-          if(props.minimumValue)
+          if(typeof props.minimumValue === 'number')
             this.minimumValue = props.minimumValue;
           
-          if(props.maximumValue)
+          if(typeof props.maximumValue === 'number')
             this.maximumValue = props.maximumValue;
           
           if(props.title)
             this.title = props.title;
+
+          if(props.table)
+            this.table = props.table;
         } else {
           // Console a warning
           console.warn(`Attempting to instantiate a RollTableEntry object with an invalid parameter. Expected either a RollTableEntry object, or a plain JSON Object of properties. Instead encountered a "${typeof props}"`);
@@ -133,27 +190,38 @@ export class RollTableEntry implements IRollTableEntry, IValidatable {
       resolve(this.validateSync());
     });
 
-    validateSync = ():ValidationErrors => {
+    validateSync = ():ValidationErrors => this.validateForTable(false);
+
+    /**
+     * Validates the entry as part of a table. Values are limited to the 0-100
+     * of the schema, unless the table is rolled with a dice expression.
+     *
+     * @param diceTable Whether the table uses a dice expression
+     * @returns Array of error messages
+     */
+    validateForTable = (diceTable:boolean):ValidationErrors => {
       const errs:ValidationErrors = [];
+      const options = (diceTable ? validateIntegerOptionsDiceEntry : validateIntegerOptionsEntry);
 
-      validateInteger(errs, 'RollTableEntry', 'value', this.value, validateIntegerOptionsD100, true);
-      validateInteger(errs, 'RollTableEntry', 'minValue', this.minimumValue, validateIntegerOptionsD100, true);
-      validateInteger(errs, 'RollTableEntry', 'maxValue', this.maximumValue, validateIntegerOptionsD100, true);
+      validateInteger(errs, 'RollTableEntry', 'value', this.value, options, true);
+      validateInteger(errs, 'RollTableEntry', 'minValue', this.minimumValue, options, true);
+      validateInteger(errs, 'RollTableEntry', 'maxValue', this.maximumValue, options, true);
       
       // Check for exclustivity
-      if(this.value && this.value >= 0) {
-        if(this.minimumValue)
+      if(typeof this.value === 'number') {
+        if(typeof this.minimumValue === 'number')
           errs.push(`RollTableEntry requires either value or minimum/maximum. Cannot use both, found minimumValue to be set.`);
-        if(this.maximumValue)
+        if(typeof this.maximumValue === 'number')
           errs.push(`RollTableEntry requires either value or minimum/maximum. Cannot use both, found maximumValue to be set.`);
       } else {
-        if(!this.minimumValue)
+        if(typeof this.minimumValue !== 'number')
           errs.push(`RollTableEntry requires a minimumValue to be set if not using value.`);
-        if(!this.maximumValue)
+        if(typeof this.maximumValue !== 'number')
           errs.push(`RollTableEntry requires a maximumValue to be set if not using value.`);
       }
 
-      validateObject(errs, 'RollTableEntry', 'body', this.body, this.body.validateSync);
+      validateInstance(errs, 'RollTableEntry', 'body', this.body, TextBlock);
+      validateString(errs, 'RollTableEntry', 'table', this.table, {}, true);
 
       return errs;
     }
@@ -167,15 +235,42 @@ export class RollTableEntry implements IRollTableEntry, IValidatable {
      * this Roll-Table Result entry.
      * Will return false if this result is not configured properly,
      * (ie. no value, or minimum/maximum created properly)
+     *
+     * Percentile tables print a roll of 100 as "00", so when `percentile`
+     * is set a value of 0 is treated as 100, ie. a range of "91-00".
      * @param val Number to check
+     * @param percentile Whether to treat 0 as 100
      * @returns True if the supplied number satisfies
      */
-    check = (val:number):boolean => {
-      if(this.value)
-        return (val === this.value);
-      if(this.minimumValue && this.maximumValue)
-        return (val >= this.minimumValue && val <= this.maximumValue);
-      return false;
+    check = (val:number, percentile = false):boolean => {
+      const range = this.getRange(percentile);
+      if(!range)
+        return false;
+
+      const num = normalizePercentile(val, percentile);
+      return (num >= range[0] && num <= range[1]);
+    }
+
+    /**
+     * Gets the inclusive range of values this entry covers. A single value
+     * is returned as a range of itself.
+     *
+     * @param percentile Whether to treat 0 as 100
+     * @returns Tuple of the minimum and maximum, or null if not configured
+     */
+    getRange = (percentile = false):([number, number] | null) => {
+      if(typeof this.value === 'number') {
+        const val = normalizePercentile(this.value, percentile);
+        return [ val, val ];
+      }
+
+      if(typeof this.minimumValue === 'number' && typeof this.maximumValue === 'number') {
+        const min = normalizePercentile(this.minimumValue, percentile);
+        const max = normalizePercentile(this.maximumValue, percentile);
+        return [ min, max ];
+      }
+
+      return null;
     }
 }
 
@@ -189,9 +284,47 @@ export class RollTableEntry implements IRollTableEntry, IValidatable {
 export interface IRollTable {
     die : EDieSize
 
+    dice ?: DiceExpression
+
     results : Array<IRollTableEntry>
 };
 
+/**
+ * Looks up another roll table by the name, or URI, given in an entry's
+ * `table` property. Should return null if the table is not known.
+ */
+export type RollTableResolver = (table:string) => (IRollTable | null);
+
+/**
+ * The chance of an entry being the result of a roll.
+ */
+export interface IRollTableEntryProbability {
+    entry : RollTableEntry;
+
+    /**
+     * Probability from 0 to 1.
+     */
+    probability : number;
+};
+
+/**
+ * The result of rolling on a roll-table.
+ */
+export interface IRollTableResult {
+
+    /**
+     * The raw value rolled on the die, a percentile "00" is given as 100.
+     */
+    roll : number;
+
+    entry : RollTableEntry;
+
+    /**
+     * The result of rolling on the entry's nested table, if it has one.
+     */
+    nested ?: IRollTableResult;
+};
+
 /**
  * A Roll-Table, in which a specified die
  * size should be rolled to produce a
@@ -200,6 +333,12 @@ export interface IRollTable {
  * Schema: /roll-table.schema.json
  */
 export default class RollTable implements IRollTable, IValidatable {
+    /**
+     * The most nested tables that will be rolled on from a single roll,
+     * preventing tables that reference each other from rolling forever.
+     */
+    public static readonly MAX_NESTED_ROLLS = 10;
+
     /**
      * Performs type checking and throws errors if the
      * properties needed are not the right types.
@@ -211,7 +350,13 @@ export default class RollTable implements IRollTable, IValidatable {
     public static strictValidateProps = (props:any):void => {
       strictValidatePropsParameter(props, 'RollTable');
 
-      strictValidateRequiredProp(props, 'RollTable', 'die', 'string');
+      if(props.dice) {
+        if(typeof props.dice !== 'string' && !(props.dice instanceof DiceExpression))
+          throw makeStrictValidateWrongType('RollTable', 'dice', 'string', typeof props.dice);
+        strictValidateOptionalProp(props, 'RollTable', 'die', 'string');
+      } else {
+        strictValidateRequiredProp(props, 'RollTable', 'die', 'string');
+      }
       strictValidateRequiredArrayProp(props, 'RollTable', 'results', RollTableEntry.strictValidateProps);
     }
  
@@ -220,6 +365,12 @@ export default class RollTable implements IRollTable, IValidatable {
      */
     readonly die : EDieSize;
 
+    /**
+     * An optional dice expression to roll on this table instead of the single
+     * die, ie. "2d6" for a table weighted towards it's middle entries.
+     */
+    readonly dice ?: DiceExpression;
+
     /**
      * An array of RollTableEntry objects, used to map the results.
      * Any checks will be done from index 0 onwards.
@@ -239,7 +390,9 @@ export default class RollTable implements IRollTable, IValidatable {
            */
           RollTable.strictValidateProps(props);
 
-          this.die = props.die;
+          this.die = props.die ?? DieSizes.UNKNOWN;
+          if(props.dice)
+            this.dice = (props.dice instanceof DiceExpression ? props.dice : new DiceExpression(props.dice));
           this.results = props.results.map((ent:any) => new RollTableEntry(ent));
         } else {
           console.warn(`Attempting to instantiate a RollTable object with an invalid parameter. Expected either a RollTable object, or a plain JSON Object of properties. Instead encountered a "${typeof props}"`);
@@ -251,12 +404,15 @@ export default class RollTable implements IRollTable, IValidatable {
       const errs:ValidationErrors = [];
 
       validateEnum(errs, 'RollTable', 'die', this.die, DieSizes);
+      this.validateDice(errs);
 
       if(this.results.length === 0) {
         errs.push(`RollTable.results should not be empty.`);
         resolve(errs);
       } else {
-        const proms = this.results.map((ent:RollTableEntry) => ent.validate());
+        const proms = this.results.map((ent:RollTableEntry) => (
+          Promise.resolve(ent.validateForTable(!!this.dice))
+        ));
 
         // Run each validation async using Promise.all
         Promise.all(proms).then((promErrs:Array<ValidationErrors>) => {
@@ -269,6 +425,7 @@ export default class RollTable implements IRollTable, IValidatable {
             const indErrs:ValidationErrors = resErr.map((err:string) => `RollTable.results[${ind}] ${err}`);
             errs.push(...indErrs);
           });
+          errs.push(...this.validateCoverage());
 
           // This marks the end of this process, push the results
           resolve(errs);
@@ -280,11 +437,134 @@ export default class RollTable implements IRollTable, IValidatable {
       const errs:ValidationErrors = [];
 
       validateEnum(errs, 'RollTable', 'die', this.die, DieSizes);
+      this.validateDice(errs);
       
-      if(this.results.length === 0)
+      if(this.results.length === 0) {
         errs.push(`RollTable.results should not be empty.`);
-      else
-        validateArrayOfObjects(errs, 'RollTable', 'results', this.results, (ent:RollTableEntry) => ent.validateSync());
+      } else {
+        validateArrayOfObjects(errs, 'RollTable', 'results', this.results, (ent:RollTableEntry) => (
+          ent.validateForTable(!!this.dice)
+        ));
+        errs.push(...this.validateCoverage());
+      }
+
+      return errs;
+    }
+
+    /**
+     * Checks the dice expression, if used, can be rolled without any named
+     * modifiers. This operation acts IN PLACE and is not immutable.
+     *
+     * @param errs Existing validation errors array
+     */
+    private validateDice = (errs:ValidationErrors):void => {
+      if(!this.dice)
+        return;
+
+      if(!(this.dice instanceof DiceExpression))
+        errs.push(`RollTable.dice should be a DiceExpression object, instead found "${typeof this.dice}".`);
+      else if(this.dice.getModifierNames().length > 0)
+        errs.push(`RollTable.dice should not use named modifiers, instead found "${this.dice.getModifierNames().join('", "')}".`);
+    }
+
+    /**
+     * Gets the expression that is rolled on this table. Either the `dice`
+     * expression, or a single roll of the `die`.
+     *
+     * @returns DiceExpression object, or null if the die is unknown
+     */
+    getExpression = ():(DiceExpression | null) => {
+      if(this.dice)
+        return this.dice;
+
+      const sides = dieSizeAsSides(this.die);
+      return (sides > 0 ? new DiceExpression(`1d${sides}`) : null);
+    }
+
+    /**
+     * Gets the probability of each total that can be rolled on this table.
+     *
+     * @returns New DiceDistribution object, or null if the table can not be
+     * rolled
+     */
+    getDistribution = ():(DiceDistribution | null) => {
+      const expr = this.getExpression();
+      if(!expr || expr.getModifierNames().length > 0)
+        return null;
+
+      return DiceDistribution.fromExpression(expr);
+    }
+
+    /**
+     * Whether this table is rolled with a single d100, so entries may use 0
+     * for a roll of "00".
+     *
+     * @returns True if percentile
+     */
+    isPercentile = ():boolean => {
+      if(this.dice)
+        return (this.dice.toString() === '1d100');
+      return (this.die === DieSizes.D100);
+    }
+
+    /**
+     * Checks that every possible roll is covered by exactly one entry.
+     * Reports entries outside of the range of rolls, values covered by more
+     * than one entry, and values not covered by any entry.
+     *
+     * Entries that are not configured properly are skipped, since they are
+     * reported by their own validation.
+     *
+     * @returns Array of error messages
+     */
+    validateCoverage = ():ValidationErrors => {
+      const errs:ValidationErrors = [];
+
+      const dist = this.getDistribution();
+      if(!dist)
+        return errs;
+
+      const ranges = this.results.map((ent:RollTableEntry) => ent.getRange(this.isPercentile()));
+
+      ranges.forEach((range:([number, number] | null), ind:number) => {
+        if(!range)
+          return;
+
+        if(range[0] > range[1])
+          errs.push(`RollTable.results[${ind}] has a minimumValue greater than it's maximumValue.`);
+        else if(range[0] < dist.min || range[1] > dist.max)
+          errs.push(`RollTable.results[${ind}] covers ${formatValueRange(range)}, which is outside of the possible rolls of ${dist.min}-${dist.max}.`);
+      });
+
+      ranges.forEach((lhs:([number, number] | null), lhsInd:number) => {
+        ranges.slice(lhsInd + 1).forEach((rhs:([number, number] | null), offset:number) => {
+          if(!lhs || !rhs)
+            return;
+
+          const low = Math.max(lhs[0], rhs[0]);
+          const high = Math.min(lhs[1], rhs[1]);
+          if(low <= high) {
+            const rhsInd = lhsInd + offset + 1;
+            errs.push(`RollTable.results[${lhsInd}] and RollTable.results[${rhsInd}] overlap on ${formatValueRange([ low, high ])}.`);
+          }
+        });
+      });
+
+      // Collapse the uncovered rolls into consecutive ranges
+      const missing = dist.getOutcomes()
+        .filter((outcome:IDiceOutcome) => outcome.probability > 0 && !this.get(outcome.value))
+        .map((outcome:IDiceOutcome) => outcome.value)
+        .reduce((acc:Array<[number, number]>, val:number) => {
+          const last = acc[acc.length - 1];
+          if(last && last[1] === val - 1)
+            last[1] = val;
+          else
+            acc.push([ val, val ]);
+          return acc;
+        }, []);
+
+      if(missing.length > 0)
+        errs.push(`RollTable is missing entries for ${missing.map(formatValueRange).join(', ')}.`);
 
       return errs;
     }
@@ -300,5 +580,80 @@ export default class RollTable implements IRollTable, IValidatable {
      * @param val Die result to check
      * @returns RollTableEntry if one satisfies or undefined if none do
      */
-    get = (val:number):(RollTableEntry|undefined) => this.results.find((ent:RollTableEntry) => ent.check(val));
+    get = (val:number):(RollTableEntry|undefined) => {
+      const percentile = this.isPercentile();
+      return this.results.find((ent:RollTableEntry) => ent.check(val, percentile));
+    }
+
+    /**
+     * Gets the chance of each entry being the result of a roll, in the same
+     * order as the results array. Values covered by more than one entry
+     * count towards the first, matching `get()`.
+     *
+     * @returns New array of IRollTableEntryProbability objects
+     */
+    getProbabilities = ():Array<IRollTableEntryProbability> => {
+      const probabilities:Array<number> = new Array(this.results.length).fill(0);
+
+      const dist = this.getDistribution();
+      if(dist) {
+        dist.getOutcomes().forEach((outcome:IDiceOutcome) => {
+          const entry = this.get(outcome.value);
+          if(entry)
+            probabilities[this.results.indexOf(entry)] += outcome.probability;
+        });
+      }
+
+      return this.results.map((entry:RollTableEntry, ind:number) => ({
+        entry,
+        probability: probabilities[ind],
+      }));
+    }
+
+    /**
+     * Rolls the table's dice and finds the matching entry. If the entry has a
+     * nested `table`, it is looked up using the resolver and rolled on as
+     * well.
+     *
+     * @throws Error if no entry matches the roll, or a nested table can not
+     * be resolved, or the dice use named modifiers
+     * @param rng Source of random numbers, defaults to getDefaultRandom()
+     * @param resolver Function returning the roll-table for a name, or URI
+     * @returns New IRollTableResult object
+     */
+    roll = (rng:IRandomSource = getDefaultRandom(), resolver:(RollTableResolver | null) = null):IRollTableResult => (
+      this.rollNested(rng, resolver, 0)
+    );
+
+    private rollNested = (rng:IRandomSource, resolver:(RollTableResolver | null), depth:number):IRollTableResult => {
+      const expr = this.getExpression();
+      if(!expr)
+        throw new Error(`RollTable cannot be rolled with the unknown die size "${this.die}".`);
+
+      const roll = expr.roll({}, rng).total;
+      const entry = this.get(roll);
+      if(!entry)
+        throw new Error(`RollTable has no entry for the roll of ${roll}.`);
+
+      if(!entry.table) {
+        return {
+          roll,
+          entry,
+        };
+      }
+
+      if(depth >= RollTable.MAX_NESTED_ROLLS)
+        throw new Error(`RollTable exceeded the maximum of ${RollTable.MAX_NESTED_ROLLS} nested tables when rolling on "${entry.table}".`);
+
+      const props = resolver ? resolver(entry.table) : null;
+      if(!props)
+        throw new Error(`RollTable entry for the roll of ${roll} references the table "${entry.table}", which could not be resolved.`);
+
+      const table = props instanceof RollTable ? props : new RollTable(props);
+      return {
+        roll,
+        entry,
+        nested: table.rollNested(rng, resolver, depth + 1),
+      };
+    }
 }
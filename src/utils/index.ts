@@ -2,4 +2,6 @@ export * from './arrays';
 export * from './enums';
 export * from './json-object';
 export * from './math';
+export * from './probability';
+export * from './random';
 export * from './validation';
@@ -1,3 +1,27 @@
+import type { IRandomSource } from '../interfaces';
+import { enumHas } from './enums';
+import { getDefaultRandom } from './random';
+
+/**
+ * Ways of rounding a fractional number to a whole number.
+ *
+ * - FLOOR rounds down
+ * - CEIL rounds up
+ * - ROUND rounds to the nearest, with halves rounding up
+ * - HALF_EVEN rounds to the nearest, with halves rounding to the even number
+ * - TRUNCATE rounds towards 0
+ */
+export const RoundingModes = {
+  FLOOR: 'FLOOR',
+  CEIL: 'CEIL',
+  ROUND: 'ROUND',
+  HALF_EVEN: 'HALF_EVEN',
+  TRUNCATE: 'TRUNCATE',
+} as const;
+export type ERoundingMode = typeof RoundingModes[keyof typeof RoundingModes];
+
+export const roundingModeHas = (key:string):boolean => enumHas(RoundingModes, key);
+
 /**
  * Ensures a number is positive by maxing it against 0.
  * 
@@ -37,16 +61,49 @@ export function clampInt(value:number, min = 0, max:number = Number.MAX_VALUE):n
  * Generates a random floating-point number within the range specified
  * @param min Minimum value, inclusive
  * @param max Maximum value, inclusive
+ * @param rng Random source, defaults to getDefaultRandom()
  */
-export function randomFloat(min = 0, max:number = Number.MAX_VALUE):number {
-  return (Math.random() * (max - min)) + min;
+export function randomFloat(min = 0, max:number = Number.MAX_VALUE, rng:IRandomSource = getDefaultRandom()):number {
+  return (rng.next() * (max - min)) + min;
 }
 
 /**
  * Generates a random integer within the range specified
  * @param min Minimum value, inclusive
  * @param max Maximum value, inclusive
+ * @param rng Random source, defaults to getDefaultRandom()
+ */
+export function randomInt(
+  min = 0,
+  max:number = Number.MAX_SAFE_INTEGER,
+  rng:IRandomSource = getDefaultRandom(),
+):number {
+  return Math.round(randomFloat(min, max, rng));
+}
+
+/**
+ * Rounds a number to a whole number using the given rounding mode.
+ *
+ * @param value Number to round
+ * @param mode Rounding mode, defaults to RoundingModes.ROUND
+ * @returns Whole number
  */
-export function randomInt(min = 0, max:number = Number.MAX_SAFE_INTEGER):number {
-  return Math.round(randomFloat(min, max));
+export function roundWith(value:number, mode:ERoundingMode = RoundingModes.ROUND):number {
+  switch(mode) {
+    case RoundingModes.FLOOR:
+      return Math.floor(value);
+    case RoundingModes.CEIL:
+      return Math.ceil(value);
+    case RoundingModes.TRUNCATE:
+      return Math.trunc(value);
+    case RoundingModes.HALF_EVEN: {
+      const floor = Math.floor(value);
+      const diff = value - floor;
+      if(diff === 0.5)
+        return (floor % 2 === 0 ? floor : floor + 1);
+      return Math.round(value);
+    }
+    default:
+      return Math.round(value);
+  }
 }
@@ -0,0 +1,186 @@
+/**
+ * A discrete probability distribution over consecutive integers.
+ *
+ * The probability at index `i` is for the value `min + i`.
+ */
+export type Probabilities = {
+  min : number;
+  probabilities : Array<number>;
+};
+
+/**
+ * Calculates the binomial coefficient "n choose k".
+ *
+ * @param total Number of items (n)
+ * @param chosen Number chosen (k)
+ * @returns Number of combinations
+ */
+export function binomial(total:number, chosen:number):number {
+  if(chosen < 0 || chosen > total)
+    return 0;
+
+  return Array.from({ length: Math.min(chosen, total - chosen) })
+    .reduce<number>((acc:number, _val:unknown, ind:number) => (acc * (total - ind)) / (ind + 1), 1);
+}
+
+/**
+ * Calculates the distribution of the sum of two independent distributions.
+ *
+ * @param lhs First distribution
+ * @param rhs Second distribution
+ * @returns New distribution of the sum
+ */
+export function convolveProbabilities(lhs:Probabilities, rhs:Probabilities):Probabilities {
+  const probabilities:Array<number> = new Array(lhs.probabilities.length + rhs.probabilities.length - 1).fill(0);
+
+  lhs.probabilities.forEach((lhsProb:number, lhsInd:number) => {
+    rhs.probabilities.forEach((rhsProb:number, rhsInd:number) => {
+      probabilities[lhsInd + rhsInd] += lhsProb * rhsProb;
+    });
+  });
+
+  return {
+    min: lhs.min + rhs.min,
+    probabilities,
+  };
+}
+
+/**
+ * Calculates the distribution of the sum of the highest, or lowest, values
+ * out of a number of independent samples of the same distribution. For
+ * example, the sum of the highest 3 of 4d6.
+ *
+ * Works by assigning the samples to each value in order (highest first, or
+ * lowest first), counting the combinations of how many samples take each
+ * value, so the work does not grow exponentially with the sample count.
+ *
+ * @param dist Distribution of a single sample
+ * @param count Number of samples
+ * @param keep Number of samples kept, clamped to the count
+ * @param highest Whether the highest samples are kept, otherwise the lowest
+ * @returns New distribution of the kept sum
+ */
+export function keepProbabilities(dist:Probabilities, count:number, keep:number, highest = true):Probabilities {
+  const kept = Math.max(Math.min(keep, count), 0);
+  if(kept === 0) {
+    return {
+      min: 0,
+      probabilities: [ 1 ],
+    };
+  }
+
+  const values = dist.probabilities
+    .map((prob:number, ind:number):[number, number] => [ dist.min + ind, prob ])
+    .filter(([ , prob ]:[number, number]) => prob > 0);
+  if(highest)
+    values.reverse();
+
+  /*
+   * Each state maps the sum of the kept samples to the probability of it,
+   * indexed by how many samples have been assigned a value so far. The first
+   * samples assigned are the ones kept.
+   */
+  const initial:Array<Map<number, number>> = Array.from({ length: count + 1 }, () => new Map<number, number>());
+  initial[0].set(0, 1);
+
+  const states = values.reduce((acc:Array<Map<number, number>>, [ value, prob ]:[number, number]) => {
+    const next:Array<Map<number, number>> = Array.from({ length: count + 1 }, () => new Map<number, number>());
+
+    acc.forEach((sums:Map<number, number>, assigned:number) => {
+      sums.forEach((sumProb:number, sum:number) => {
+        Array.from({ length: count - assigned + 1 }).forEach((_val:unknown, taking:number) => {
+          const newSum = sum + (Math.max(Math.min(taking, kept - assigned), 0) * value);
+          const newProb = sumProb * binomial(count - assigned, taking) * (prob ** taking);
+
+          next[assigned + taking].set(newSum, (next[assigned + taking].get(newSum) ?? 0) + newProb);
+        });
+      });
+    });
+
+    return next;
+  }, initial);
+
+  const sums = Array.from(states[count].keys());
+  const min = Math.min(...sums);
+  const probabilities:Array<number> = new Array(Math.max(...sums) - min + 1).fill(0);
+  states[count].forEach((prob:number, sum:number) => {
+    probabilities[sum - min] += prob;
+  });
+
+  return {
+    min,
+    probabilities,
+  };
+}
+
+/**
+ * Calculates the mean (expected value) of a distribution.
+ *
+ * @param dist Distribution
+ * @returns Mean value
+ */
+export function meanOfProbabilities(dist:Probabilities):number {
+  return dist.probabilities.reduce((acc:number, prob:number, ind:number) => acc + (prob * (dist.min + ind)), 0);
+}
+
+/**
+ * Removes any values with no probability from the ends of a distribution.
+ *
+ * @param dist Distribution
+ * @returns New distribution
+ */
+export function trimProbabilities(dist:Probabilities):Probabilities {
+  const start = dist.probabilities.findIndex((prob:number) => prob > 0);
+  if(start === -1) {
+    return {
+      min: dist.min,
+      probabilities: [ 0 ],
+    };
+  }
+
+  const end = dist.probabilities.length - [ ...dist.probabilities ].reverse().findIndex((prob:number) => prob > 0);
+
+  return {
+    min: dist.min + start,
+    probabilities: dist.probabilities.slice(start, end),
+  };
+}
+
+/**
+ * Removes the least likely values from the ends of a distribution, for as
+ * long as their combined probability at each end is at most the threshold.
+ * The probability removed is added to the nearest value kept, so the total
+ * is unchanged.
+ *
+ * Used to cut off the long, but almost impossible, tails of exploding dice.
+ *
+ * @param dist Distribution
+ * @param threshold Most probability that may be removed from each end
+ * @returns New distribution
+ */
+export function truncateProbabilities(dist:Probabilities, threshold:number):Probabilities {
+  const { probabilities } = dist;
+
+  let start = 0;
+  let lower = 0;
+  while(start < probabilities.length - 1 && lower + probabilities[start] <= threshold) {
+    lower += probabilities[start];
+    start += 1;
+  }
+
+  let end = probabilities.length;
+  let upper = 0;
+  while(end - 1 > start && upper + probabilities[end - 1] <= threshold) {
+    upper += probabilities[end - 1];
+    end -= 1;
+  }
+
+  const kept = probabilities.slice(start, end);
+  kept[0] += lower;
+  kept[kept.length - 1] += upper;
+
+  return {
+    min: dist.min + start,
+    probabilities: kept,
+  };
+}
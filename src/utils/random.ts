@@ -0,0 +1,82 @@
+import type { IRandomSource } from '../interfaces';
+
+/**
+ * Converts a string seed into a 32-bit integer using the FNV-1a hash.
+ *
+ * @param str Seed string
+ * @returns Unsigned 32-bit integer
+ */
+const hashSeed = (str:string):number => str.split('')
+  .reduce((hash:number, char:string) => Math.imul(hash ^ char.charCodeAt(0), 0x01000193), 0x811C9DC5) >>> 0;
+
+/**
+ * A seedable pseudo-random number generator (Mulberry32).
+ *
+ * Two SeededRandom objects created with the same seed will produce the same
+ * sequence of numbers. This is not suitable for cryptographic purposes.
+ */
+export class SeededRandom implements IRandomSource {
+  /**
+   * The seed this generator was created with, as a 32-bit integer.
+   */
+  readonly seed : number;
+
+  /**
+   * The current internal state, advanced with each number generated.
+   */
+  private state : number;
+
+  /**
+   * Constructs a new SeededRandom object.
+   *
+   * Strings are hashed into a numerical seed. If no seed is supplied, one is
+   * generated using Math.random().
+   *
+   * @param seed Number or string seed
+   */
+  constructor(seed:(number | string) = Math.floor(Math.random() * 0x100000000)) {
+    this.seed = (typeof seed === 'string' ? hashSeed(seed) : seed) >>> 0;
+    this.state = this.seed;
+  }
+
+  next = ():number => {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+
+    let val = Math.imul(this.state ^ (this.state >>> 15), this.state | 1);
+    val ^= val + Math.imul(val ^ (val >>> 7), val | 61);
+
+    return ((val ^ (val >>> 14)) >>> 0) / 0x100000000;
+  };
+
+  /**
+   * Restarts the sequence from the original seed.
+   */
+  reset = ():void => {
+    this.state = this.seed;
+  };
+}
+
+/**
+ * The random source used when one is not supplied to a function.
+ */
+let defaultRandom:IRandomSource = new SeededRandom();
+
+/**
+ * Gets the random source used when one is not supplied to a function.
+ *
+ * @returns Random source
+ */
+export const getDefaultRandom = ():IRandomSource => defaultRandom;
+
+/**
+ * Replaces the random source used when one is not supplied to a function.
+ * Setting a SeededRandom here makes all default random results repeatable.
+ *
+ * @param rng New random source
+ */
+export const setDefaultRandom = (rng:IRandomSource):void => {
+  if(!rng || typeof rng.next !== 'function')
+    throw new TypeError(`setDefaultRandom() requires an object with a next() function, instead found "${typeof rng}".`);
+
+  defaultRandom = rng;
+};
@@ -1,4 +1,5 @@
 import type {
+  ValidatableClass,
   ValidateArrayCB,
   ValidateObjectCB,
   ValidationErrors,
@@ -9,7 +10,6 @@ import {
   enumValuesToString,
   StringEnum,
 } from './enums';
-import { isPlainObject } from './json-object';
 
 /**
  * Regular expression testing for URI formats.
@@ -17,7 +17,7 @@ import { isPlainObject } from './json-object';
  * Passes: /some/v4lu3s-go/here
  * Fails: no/prefix/and/$ymbols
  */
-export const RegexpURI = /^(?:\/[a-z0-9\-_]+)+$/gi;
+export const RegexpURI = /^(?:\/[a-z0-9\-_]+)+$/i;
 
 /**
  * Tests that the given input is a string and
@@ -40,7 +40,7 @@ export function testURI(input:string, allowEmpty = false):boolean {
  * Passes: any-values01-here
  * Fails: Caps_and-symbols
  */
-export const RegexpKabob = /^[a-z0-9-]+$/g;
+export const RegexpKabob = /^[a-z0-9-]+$/;
 
 /**
  * Tests that the given input is a string and
@@ -384,7 +384,8 @@ export const validateObject = (
 
   if(prop) {
     if(typeof cb === 'function') {
-      if(isPlainObject(prop))
+      // Shallow check, the object may hold class instances such as references
+      if(typeof prop === 'object' && !Array.isArray(prop))
         newErrs.push(...cb(prop));
       else
         newErrs.push(`${className}.${propName} should be an object type, instead found "${typeof prop}".`);
@@ -446,3 +447,41 @@ export const validateArrayOfObjects = (
 
   inPlaceConcat<string>(errs, newErrs);
 };
+
+/**
+ * Adds validation errors for the given property to the supplied array of
+ * errors. This operation acts IN PLACE and is not immutable.
+ * 
+ * Checks that the prop is an instance of the given class (such as a Reference
+ * or TextBlock), and then runs that object's own `validateSync()`. The errors
+ * returned are prefixed with the parent class and property names.
+ * 
+ * @param errs Existing validation errors array
+ * @param className The name of the class validating
+ * @param propName The name of the prop being validated
+ * @param prop The property itself
+ * @param classType The class the property is expected to be an instance of
+ * @param optional Is this prop optional (null or undefined)?
+ */
+export const validateInstance = (
+  errs:ValidationErrors,
+  className:string,
+  propName:string,
+  prop:any,
+  classType:ValidatableClass,
+  optional = false,
+):void => {
+  const newErrs:ValidationErrors = [];
+
+  if(!optional && !prop)
+    newErrs.push(`${className}.${propName} is a required ${classType.name} object.`);
+
+  if(prop) {
+    if(prop instanceof classType)
+      newErrs.push(...prop.validateSync().map((err:string) => `${className}.${propName}: ${err}`));
+    else
+      newErrs.push(`${className}.${propName} should be a ${classType.name} object, instead found "${typeof prop}".`);
+  }
+
+  inPlaceConcat<string>(errs, newErrs);
+};
@@ -6,9 +6,9 @@ import {
   alignmentEntropyHas,
   alignmentMoralityHas,
   AlignmentAxes,
-  AlignmentEntropy,
-  Alignment,
-  AlignmentMorality,
+  AlignmentEntropies,
+  Alignments,
+  AlignmentMoralities,
 } from '../src/alignment';
 
 describe('Alignment', () => {
@@ -30,15 +30,15 @@ describe('Alignment', () => {
     });
     it('constructs from another object of class', () => {
       const objA = new AlignmentAxes();
-      objA.entropy = AlignmentEntropy.CHAOTIC;
+      objA.entropy = AlignmentEntropies.CHAOTIC;
       const objB = new AlignmentAxes(objA);
-      expect(objB).to.exist.and.to.be.a('object').and.to.have.property('entropy', AlignmentEntropy.CHAOTIC);
+      expect(objB).to.exist.and.to.be.a('object').and.to.have.property('entropy', AlignmentEntropies.CHAOTIC);
     });
     it('constructs from an alignment string', () => {
-      const obj = new AlignmentAxes(Alignment.CHAOTIC_GOOD);
+      const obj = new AlignmentAxes(Alignments.CHAOTIC_GOOD);
       expect(obj).to.exist.and.to.be.a('object');
-      expect(obj).to.have.property('entropy', AlignmentEntropy.CHAOTIC, 'bad entropy value');
-      expect(obj).to.have.property('morality', AlignmentMorality.GOOD, 'bad morality value');
+      expect(obj).to.have.property('entropy', AlignmentEntropies.CHAOTIC, 'bad entropy value');
+      expect(obj).to.have.property('morality', AlignmentMoralities.GOOD, 'bad morality value');
     });
     it('constructs from POJSO', () => {
       const obj = new AlignmentAxes({
@@ -46,14 +46,14 @@ describe('Alignment', () => {
         morality: 'GOOD',
       });
       expect(obj).to.exist.and.to.be.a('object');
-      expect(obj).to.have.property('entropy', AlignmentEntropy.CHAOTIC, 'bad entropy value');
-      expect(obj).to.have.property('morality', AlignmentMorality.GOOD, 'bad morality value');
+      expect(obj).to.have.property('entropy', AlignmentEntropies.CHAOTIC, 'bad entropy value');
+      expect(obj).to.have.property('morality', AlignmentMoralities.GOOD, 'bad morality value');
     });
 
     it('converts to enum', () => {
-      const obj = new AlignmentAxes(Alignment.CHAOTIC_GOOD);
+      const obj = new AlignmentAxes(Alignments.CHAOTIC_GOOD);
       const enm = obj.toEnum();
-      expect(enm).to.be.a('string').that.equals(Alignment.CHAOTIC_GOOD);
+      expect(enm).to.be.a('string').that.equals(Alignments.CHAOTIC_GOOD);
     });
   });
 });
\ No newline at end of file
@@ -4,7 +4,8 @@ import { describe } from 'mocha';
 import {
   creatureSizeHas,
   creatureSizeAsFeet,
-  CreatureSize,
+  CreatureSizes,
+  ECreatureSize,
 } from '../src/creature-size';
 
 describe('Creature Size', () => {
@@ -14,7 +15,7 @@ describe('Creature Size', () => {
   });
 
   describe('creatureSizeAsFeet()', () => {
-    it('returns correct for known', () => expect(creatureSizeAsFeet(CreatureSize.MEDIUM)).to.equal(5));
-    it('returns 0 on garbage', () => expect(creatureSizeAsFeet('GARBAGE' as CreatureSize)).to.equal(0));
+    it('returns correct for known', () => expect(creatureSizeAsFeet(CreatureSizes.MEDIUM)).to.equal(5));
+    it('returns 0 on garbage', () => expect(creatureSizeAsFeet('GARBAGE' as ECreatureSize)).to.equal(0));
   });
 });
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import {
+  CurrencySystemPHB,
+  getCurrencyDenomination,
+  makeCurrencySystem,
+} from '../src/currency-system';
+import type { CurrencyDenomination } from '../src/currency';
+
+describe('Currency Systems', () => {
+  describe('CurrencySystemPHB', () => {
+    it('uses the PHB exchange rates', () => {
+      expect(CurrencySystemPHB.denominations.map(ent => ent.value)).to.deep.equal([ 1, 10, 50, 100, 1000 ]);
+    });
+  });
+
+  describe('makeCurrencySystem()', () => {
+    const coin = (metal:string) => ({
+      abbreviation: `${metal[0]}c`,
+      name: `${metal} coin`,
+      plural: `${metal} coins`,
+    });
+
+    it('orders the denominations by value', () => {
+      const system = makeCurrencySystem({
+        name: 'Test',
+        standard: 'gold',
+        denominations: [
+          {
+            ...coin('gold'),
+            key: 'gold',
+            value: 20,
+          },
+          {
+            ...coin('copper'),
+            key: 'copper',
+            value: 1,
+          },
+        ],
+      });
+
+      expect(system.denominations.map(ent => ent.key)).to.deep.equal([ 'copper', 'gold' ]);
+      expect(getCurrencyDenomination(system, 'gold')?.value).to.eq(20);
+      expect(getCurrencyDenomination(system, 'silver')).to.be.null;
+    });
+
+    it('throws on invalid systems', () => {
+      expect(() => makeCurrencySystem({
+        name: 'Empty',
+        standard: 'gold',
+        denominations: [],
+      })).to.throw(TypeError);
+
+      expect(() => makeCurrencySystem({
+        name: 'No Base',
+        standard: 'gold',
+        denominations: [
+          {
+            ...coin('gold'),
+            key: 'gold',
+            value: 10,
+          },
+        ],
+      })).to.throw(TypeError);
+
+      expect(() => makeCurrencySystem({
+        name: 'Unknown Coin',
+        standard: 'copper',
+        denominations: [
+          {
+            ...coin('copper'),
+            key: 'copper',
+            value: 1,
+          },
+          {
+            ...coin('mithral'),
+            key: 'mithral' as CurrencyDenomination,
+            value: 500,
+          },
+        ],
+      })).to.throw(TypeError);
+
+      expect(() => makeCurrencySystem({
+        name: 'No Standard',
+        standard: 'gold',
+        denominations: [
+          {
+            ...coin('copper'),
+            key: 'copper',
+            value: 1,
+          },
+        ],
+      })).to.throw(TypeError);
+    });
+
+    it('throws on names used by more than one denomination', () => {
+      const clashing = (other:object) => () => makeCurrencySystem({
+        name: 'Clashing',
+        standard: 'copper',
+        denominations: [
+          {
+            ...coin('copper'),
+            key: 'copper',
+            value: 1,
+          },
+          {
+            ...coin('gold'),
+            ...other,
+            key: 'gold',
+            value: 10,
+          },
+        ],
+      });
+
+      expect(clashing({ abbreviation: 'CC' })).to.throw(TypeError, 'uses the same abbreviation or name for "copper" and "gold"');
+      expect(clashing({ name: 'Copper Coin' })).to.throw(TypeError);
+      expect(clashing({ aliases: [ 'copper coins' ] })).to.throw(TypeError);
+      expect(clashing({ aliases: [ 'gold' ] })).to.not.throw();
+    });
+  });
+});
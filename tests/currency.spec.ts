@@ -0,0 +1,379 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Currency, { InsufficientFundsError } from '../src/currency';
+import { CurrencySystemPHB, makeCurrencySystem } from '../src/currency-system';
+import { RoundingModes } from '../src/utils/math';
+
+/**
+ * A homebrew system of iron bits, silver marks, and gold crowns.
+ */
+const crowns = makeCurrencySystem({
+  name: 'Crowns',
+  standard: 'gold',
+  denominations: [
+    {
+      key: 'gold',
+      abbreviation: 'gc',
+      name: 'gold crown',
+      plural: 'gold crowns',
+      value: 240,
+    },
+    {
+      key: 'copper',
+      abbreviation: 'ib',
+      name: 'iron bit',
+      plural: 'iron bits',
+      value: 1,
+    },
+    {
+      key: 'silver',
+      abbreviation: 'sm',
+      name: 'silver mark',
+      plural: 'silver marks',
+      value: 12,
+    },
+  ],
+});
+
+describe('Currency', () => {
+  describe('parse()', () => {
+    it('parses a single amount', () => {
+      expect(Currency.parse('15 gp').toTuple()).to.deep.equal([ 0, 0, 0, 15, 0 ]);
+      expect(Currency.parse('15GP').toTuple()).to.deep.equal([ 0, 0, 0, 15, 0 ]);
+    });
+
+    it('parses multiple amounts', () => {
+      expect(Currency.parse('2pp 5sp').toTuple()).to.deep.equal([ 0, 5, 0, 0, 2 ]);
+      expect(Currency.parse('1 gold piece, 3 silver and 2 copper pieces').toTuple()).to.deep.equal([ 2, 3, 0, 1, 0 ]);
+    });
+
+    it('keeps electrum', () => {
+      expect(Currency.parse('4 ep').electrum).to.eq(4);
+    });
+
+    it('parses grouped thousands', () => {
+      expect(Currency.parse('1,500gp').gold).to.eq(1500);
+    });
+
+    it('breaks down decimals', () => {
+      expect(Currency.parse('7.3 gp').toTuple()).to.deep.equal([ 0, 3, 0, 7, 0 ]);
+      expect(Currency.parse('0.25 gp').toTuple()).to.deep.equal([ 5, 2, 0, 0, 0 ]);
+    });
+
+    it('throws on invalid strings', () => {
+      expect(() => Currency.parse('')).to.throw(SyntaxError);
+      expect(() => Currency.parse('15')).to.throw(SyntaxError);
+      expect(() => Currency.parse('15 goldfish')).to.throw(SyntaxError);
+      expect(() => Currency.parse('a diamond worth 300 gp')).to.throw(SyntaxError);
+      expect(() => Currency.parse('0.5 cp')).to.throw(SyntaxError);
+    });
+  });
+
+  describe('format()', () => {
+    const purse = new Currency({
+      platinum: 2,
+      silver: 5,
+    });
+
+    it('abbreviates by default', () => expect(purse.format()).to.eq('2 pp 5 sp'));
+
+    it('uses full names', () => {
+      expect(purse.format({ fullNames: true })).to.eq('2 platinum pieces 5 silver pieces');
+      expect(new Currency({ gold: 1 }).format({ fullNames: true })).to.eq('1 gold piece');
+    });
+
+    it('includes zero denominations', () => {
+      expect(purse.format({ omitZero: false })).to.eq('2 pp 0 gp 0 ep 5 sp 0 cp');
+    });
+
+    it('formats as a single denomination', () => {
+      expect(purse.format({ single: 'gold' })).to.eq('20.5 gp');
+    });
+
+    it('groups thousands', () => {
+      expect(new Currency({ gold: 1500 }).format({ grouping: true })).to.eq('1,500 gp');
+    });
+
+    it('formats zero', () => expect(new Currency().format()).to.eq('0 gp'));
+
+    it('round trips with parse()', () => {
+      expect(Currency.parse(purse.format()).toTuple()).to.deep.equal(purse.toTuple());
+      expect(Currency.parse(purse.format({ fullNames: true })).toTuple()).to.deep.equal(purse.toTuple());
+      expect(Currency.parse(purse.format({ single: 'gold' })).toGold()).to.be.closeTo(20.5, 1e-9);
+      expect(Currency.parse(purse.format({ single: 'copper', grouping: true })).copper).to.eq(2050);
+    });
+  });
+
+  describe('fromGold(), toGold()', () => {
+    it('breaks down gold values', () => {
+      expect(new Currency(123).toTuple()).to.deep.equal([ 0, 0, 0, 3, 12 ]);
+      expect(new Currency(123.56, false, true).toTuple()).to.deep.equal([ 6, 0, 1, 123, 0 ]);
+    });
+
+    it('converts to gold', () => expect(new Currency({ platinum: 1, silver: 5 }).toGold()).to.be.closeTo(10.5, 1e-9));
+
+    it('uses the exchange rates of the system', () => {
+      expect(new Currency(1.5, true, false, crowns).toTuple()).to.deep.equal([ 0, 10, 0, 1, 0 ]);
+      expect(new Currency({ silver: 20 }).toGold(false, crowns)).to.eq(1);
+    });
+
+    it('throws on coins the system does not use', () => {
+      expect(() => new Currency({ platinum: 1 }).toGold(false, crowns)).to.throw(RangeError);
+    });
+  });
+
+  describe('base units', () => {
+    it('does not drift with floating-point gold', () => {
+      expect(new Currency(0.3).toTuple()).to.deep.equal([ 0, 3, 0, 0, 0 ]);
+      expect(new Currency(0.29).toTuple()).to.deep.equal([ 9, 2, 0, 0, 0 ]);
+      expect(new Currency().fromGold(0.3)).to.eq(0);
+    });
+
+    it('rounds fractions of a copper using the rounding mode', () => {
+      const floor = new Currency();
+      const ceil = new Currency();
+
+      expect(floor.fromGold(0.125)).to.be.closeTo(0.005, 1e-12);
+      expect(floor.copper).to.eq(2);
+      ceil.fromGold(0.125, true, false, CurrencySystemPHB, RoundingModes.CEIL);
+      expect(ceil.copper).to.eq(3);
+    });
+
+    it('rounds Gold Value numbers in the constructor, and add()', () => {
+      expect(new Currency(0.125).copper).to.eq(2);
+      expect(new Currency(0.125, true, false, CurrencySystemPHB, RoundingModes.ROUND).copper).to.eq(3);
+
+      const purse = new Currency();
+      purse.add(0.125, false, CurrencySystemPHB, RoundingModes.CEIL);
+      purse.subtract(0.005, false, CurrencySystemPHB, RoundingModes.CEIL);
+      expect(purse.toTuple()).to.deep.equal([ 2, 1, 0, 0, 0 ]);
+      expect(purse.plus(0.005, false, CurrencySystemPHB, RoundingModes.CEIL).toBaseUnits()).to.eq(13);
+      expect(purse.minus(0.005, false, CurrencySystemPHB, RoundingModes.CEIL).toBaseUnits()).to.eq(11);
+    });
+
+    it('converts to and from whole copper', () => {
+      expect(new Currency({ gold: 7, silver: 3 }).toBaseUnits()).to.eq(730);
+      expect(Currency.fromBaseUnits(12345).toTuple()).to.deep.equal([ 5, 4, 0, 3, 12 ]);
+      expect(() => Currency.fromBaseUnits(1.5)).to.throw(RangeError);
+    });
+
+    it('keeps a ledger exact over many transactions', () => {
+      const ledger = new Currency();
+      Array.from({ length: 1000 }).forEach(() => ledger.add(0.1, true));
+
+      expect(ledger.toBaseUnits()).to.eq(10000);
+    });
+  });
+
+  describe('balance()', () => {
+    it('exchanges upwards', () => {
+      const purse = new Currency({
+        copper: 125,
+        silver: 3,
+        platinum: 1,
+      });
+      purse.balance();
+
+      expect(purse.toTuple()).to.deep.equal([ 5, 5, 0, 1, 1 ]);
+    });
+
+    it('uses the exchange rates of the system', () => {
+      const purse = new Currency({
+        copper: 30,
+        silver: 25,
+      });
+      purse.balance(true, false, crowns);
+
+      expect(purse.toTuple()).to.deep.equal([ 6, 7, 0, 1, 0 ]);
+    });
+  });
+
+  describe('comparison', () => {
+    it('compares by total value', () => {
+      expect(new Currency({ gold: 1 }).equals(new Currency({ silver: 10 }))).to.eq(true);
+      expect(new Currency({ gold: 1 }).greaterThan(new Currency({ silver: 9 }))).to.eq(true);
+      expect(new Currency({ gold: 1 }).greaterThan(1)).to.eq(false);
+      expect(new Currency({ copper: 5 }).compare(0.1)).to.eq(-1);
+    });
+
+    it('sorts prices', () => {
+      const prices = [
+        new Currency({ gold: 2 }),
+        new Currency({ silver: 5 }),
+        new Currency({ electrum: 3 }, true, true),
+      ];
+      prices.sort(Currency.compare);
+
+      expect(prices.map((price: Currency) => price.toBaseUnits())).to.deep.equal([ 50, 150, 200 ]);
+    });
+  });
+
+  describe('sum()', () => {
+    it('adds together a list of values', () => {
+      const total = Currency.sum([
+        new Currency({ gold: 2 }),
+        new Currency({ electrum: 1 }, true, true),
+        0.5,
+      ]);
+
+      expect(total.toTuple()).to.deep.equal([ 0, 5, 1, 2, 0 ]);
+    });
+
+    it('keeps negative amounts', () => {
+      const debt = new Currency({ gold: 1 }).minus(4);
+
+      expect(Currency.sum([ debt ]).toBaseUnits()).to.eq(-300);
+      expect(Currency.sum([ debt, new Currency({ silver: 5 }) ]).toBaseUnits()).to.eq(-250);
+    });
+
+    it('returns zero for an empty list', () => expect(Currency.sum([]).toBaseUnits()).to.eq(0));
+  });
+
+  describe('immutable operations', () => {
+    it('adds and subtracts without changing the original', () => {
+      const price = new Currency({ gold: 3 });
+
+      expect(price.plus(new Currency({ silver: 4 })).toTuple()).to.deep.equal([ 0, 4, 0, 3, 0 ]);
+      expect(price.minus(1.5, true).toTuple()).to.deep.equal([ 0, 5, 0, 1, 0 ]);
+      expect(price.toTuple()).to.deep.equal([ 0, 0, 0, 3, 0 ]);
+    });
+
+    it('chains through negative results', () => {
+      const gold = new Currency({ gold: 1 });
+
+      expect(gold.plus(gold.minus(4)).toBaseUnits()).to.eq(-200);
+      expect(gold.minus(gold.minus(4)).toBaseUnits()).to.eq(400);
+      expect(gold.minus(4).plus(3).equals(0)).to.eq(true);
+    });
+
+    it('multiplies', () => {
+      const price = new Currency({ gold: 1, silver: 5 });
+
+      expect(price.times(3).toTuple()).to.deep.equal([ 0, 15, 0, 3, 0 ]);
+      expect(price.times(0.25).toTuple()).to.deep.equal([ 7, 3, 0, 0, 0 ]);
+      expect(price.times(0.25, RoundingModes.CEIL).toTuple()).to.deep.equal([ 8, 3, 0, 0, 0 ]);
+      expect(price.toTuple()).to.deep.equal([ 0, 5, 0, 1, 0 ]);
+    });
+  });
+
+  describe('pay()', () => {
+    it('pays exactly from the purse when possible', () => {
+      const purse = new Currency({
+        copper: 50,
+        silver: 1,
+        gold: 10,
+      });
+      const { paid, change } = purse.pay(new Currency({ gold: 7, silver: 3 }));
+
+      expect(paid.toTuple()).to.deep.equal([ 20, 1, 0, 7, 0 ]);
+      expect(change.toTuple()).to.deep.equal([ 0, 0, 0, 0, 0 ]);
+      expect(purse.toTuple()).to.deep.equal([ 30, 0, 0, 3, 0 ]);
+    });
+
+    it('hands over the smallest coin needed and receives change', () => {
+      const purse = new Currency({ gold: 2, platinum: 1 });
+      const { paid, change } = purse.pay(7.3);
+
+      expect(paid.toTuple()).to.deep.equal([ 0, 0, 0, 0, 1 ]);
+      expect(change.toTuple()).to.deep.equal([ 0, 7, 0, 2, 0 ]);
+      expect(purse.toTuple()).to.deep.equal([ 0, 7, 0, 4, 0 ]);
+    });
+
+    it('limits the change to the coins of the merchant', () => {
+      const purse = new Currency({ platinum: 1 });
+      const merchant = new Currency({ copper: 5, gold: 1 });
+      const { change, owed } = purse.pay(7.3, merchant);
+
+      expect(change.toTuple()).to.deep.equal([ 5, 0, 0, 1, 0 ]);
+      expect(owed.toBaseUnits()).to.eq(165);
+      expect(merchant.toTuple()).to.deep.equal([ 5, 0, 0, 1, 0 ]);
+    });
+
+    it('throws on a negative or invalid price', () => {
+      const purse = new Currency({ gold: 10 });
+
+      expect(() => purse.pay(-5)).to.throw(RangeError);
+      expect(() => purse.pay(Number.NaN)).to.throw(RangeError);
+      expect(() => purse.pay(Number.POSITIVE_INFINITY)).to.throw(RangeError);
+      expect(() => purse.pay(new Currency({ gold: 1 }).minus(4))).to.throw(RangeError);
+      expect(purse.toTuple()).to.deep.equal([ 0, 0, 0, 10, 0 ]);
+    });
+
+    it('throws when there are not enough funds', () => {
+      const purse = new Currency({ gold: 5 });
+
+      expect(() => purse.pay(7.3)).to.throw(InsufficientFundsError).with.property('shortfall', 230);
+      expect(purse.toTuple()).to.deep.equal([ 0, 0, 0, 5, 0 ]);
+    });
+  });
+
+  describe('split()', () => {
+    it('splits evenly with the remainder left over', () => {
+      const treasure = new Currency({ gold: 10, copper: 3 });
+      const { shares, remainder } = treasure.split(3);
+
+      expect(shares.map((share: Currency) => share.toTuple())).to.deep.equal([
+        [ 4, 3, 0, 3, 0 ],
+        [ 4, 3, 0, 3, 0 ],
+        [ 4, 3, 0, 3, 0 ],
+      ]);
+      expect(remainder.toTuple()).to.deep.equal([ 1, 0, 0, 0, 0 ]);
+      expect(treasure.toTuple()).to.deep.equal([ 3, 0, 0, 10, 0 ]);
+    });
+
+    it('splits by weighted shares', () => {
+      const { shares, remainder } = new Currency({ platinum: 1 }).split([ 1, 1, 0.5 ], false);
+
+      expect(shares.map((share: Currency) => share.toBaseUnits())).to.deep.equal([ 400, 400, 200 ]);
+      expect(shares[0].toTuple()).to.deep.equal([ 0, 0, 0, 4, 0 ]);
+      expect(remainder.toBaseUnits()).to.eq(0);
+    });
+
+    it('never creates or destroys value', () => {
+      const treasure = new Currency({
+        copper: 7,
+        silver: 13,
+        electrum: 3,
+        gold: 41,
+        platinum: 2,
+      }, true, true);
+      const { shares, remainder } = treasure.split([ 2, 1, 1, 3 ], true, true);
+      const total = shares.reduce((acc: number, share: Currency) => acc + share.toBaseUnits(), remainder.toBaseUnits());
+
+      expect(total).to.eq(treasure.toBaseUnits());
+    });
+
+    it('uses the exchange rates of the system', () => {
+      const { shares, remainder } = new Currency({ gold: 1 }).split(7, true, false, crowns);
+
+      expect(shares[0].toTuple()).to.deep.equal([ 10, 2, 0, 0, 0 ]);
+      expect(remainder.toTuple()).to.deep.equal([ 2, 0, 0, 0, 0 ]);
+    });
+
+    it('throws on invalid shares', () => {
+      expect(() => new Currency(1).split(0)).to.throw(RangeError);
+      expect(() => new Currency(1).split([ 0, 0 ])).to.throw(RangeError);
+      expect(() => new Currency(1).split([ 1, -1 ])).to.throw(RangeError);
+    });
+  });
+
+  describe('currency systems', () => {
+    it('parses and formats with the system names', () => {
+      const purse = Currency.parse('1 gold crown, 3 sm', crowns);
+
+      expect(purse.toTuple()).to.deep.equal([ 0, 3, 0, 1, 0 ]);
+      expect(purse.format({ fullNames: true }, crowns)).to.eq('1 gold crown 3 silver marks');
+      expect(purse.format({ single: 'copper' }, crowns)).to.eq('276 ib');
+    });
+
+    it('formats a single denomination exactly where the system allows', () => {
+      const bits = new Currency({ copper: 3 });
+
+      expect(bits.format({ single: 'gold' }, crowns)).to.eq('0.0125 gc');
+      expect(Currency.parse(bits.format({ single: 'gold' }, crowns), crowns).toTuple()).to.deep.equal([ 3, 0, 0, 0, 0 ]);
+      expect(new Currency({ copper: 1 }).format({ single: 'gold' }, crowns)).to.eq('0.004 gc');
+      expect(new Currency({ copper: 16 }).format({ single: 'silver' }, crowns)).to.eq('1.33 sm');
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import DiceDistribution from '../src/dice-distribution';
+import { DieSizes } from '../src/die-size';
+
+describe('DiceDistribution', () => {
+  describe('fromDie()', () => {
+    it('is uniform', () => {
+      const dist = DiceDistribution.fromDie(DieSizes.D6);
+
+      expect(dist.min).to.eq(1);
+      expect(dist.max).to.eq(6);
+      expect(dist.probabilityOf(3)).to.be.closeTo(1 / 6, 1e-12);
+    });
+
+    it('throws on unknown dice', () => {
+      expect(() => DiceDistribution.fromDie(DieSizes.UNKNOWN)).to.throw(Error);
+    });
+  });
+
+  describe('fromExpression()', () => {
+    it('convolves multiple dice', () => {
+      const dist = DiceDistribution.fromExpression('2d6 + 3');
+
+      expect(dist.min).to.eq(5);
+      expect(dist.max).to.eq(15);
+      expect(dist.probabilityOf(10)).to.be.closeTo(6 / 36, 1e-12);
+      expect(dist.probabilityOf(5)).to.be.closeTo(1 / 36, 1e-12);
+      expect(dist.probabilityOf(16)).to.eq(0);
+    });
+
+    it('handles subtraction and modifiers', () => {
+      const dist = DiceDistribution.fromExpression('1d4 - MOD', { MOD: 2 });
+
+      expect(dist.min).to.eq(-1);
+      expect(dist.max).to.eq(2);
+    });
+
+    it('sums to one', () => {
+      const total = DiceDistribution.fromExpression('3d8 - 1d6')
+        .getOutcomes()
+        .reduce((acc, ent) => acc + ent.probability, 0);
+
+      expect(total).to.be.closeTo(1, 1e-12);
+    });
+
+    it('keeps the highest dice', () => {
+      const dist = DiceDistribution.fromExpression('4d6dl1');
+
+      expect(dist.min).to.eq(3);
+      expect(dist.max).to.eq(18);
+      expect(dist.probabilityOf(18)).to.be.closeTo(21 / 1296, 1e-12);
+      expect(dist.probabilityOf(3)).to.be.closeTo(1 / 1296, 1e-12);
+    });
+
+    it('accepts spelled out phrases', () => {
+      expect(DiceDistribution.fromExpression('4d6 drop lowest').probabilities)
+        .to.deep.equal(DiceDistribution.fromExpression('4d6dl1').probabilities);
+    });
+
+    it('handles advantage and disadvantage', () => {
+      expect(DiceDistribution.fromExpression('1d20adv').atLeast(20)).to.be.closeTo(1 - ((19 / 20) ** 2), 1e-12);
+      expect(DiceDistribution.fromExpression('1d20dis').atLeast(20)).to.be.closeTo(1 / 400, 1e-12);
+    });
+
+    it('handles rerolls and minimums', () => {
+      expect(DiceDistribution.fromExpression('1d6r1').probabilityOf(1)).to.be.closeTo(1 / 36, 1e-12);
+      expect(DiceDistribution.fromExpression('1d20min10').probabilityOf(10)).to.be.closeTo(10 / 20, 1e-12);
+    });
+
+    it('handles exploding dice', () => {
+      const dist = DiceDistribution.fromExpression('1d6!');
+
+      expect(dist.probabilityOf(6)).to.eq(0);
+      expect(dist.probabilityOf(7)).to.be.closeTo(1 / 36, 1e-12);
+      expect(dist.mean()).to.be.closeTo(4.2, 1e-9);
+    });
+
+    it('keeps exploding dice without slowing down', () => {
+      const start = Date.now();
+      const dist = DiceDistribution.fromExpression('8d6!kh3');
+
+      expect(Date.now() - start).to.be.below(2000);
+      expect(dist.min).to.eq(3);
+      expect(dist.probabilities.reduce((acc:number, prob:number) => acc + prob, 0)).to.be.closeTo(1, 1e-9);
+      expect(DiceDistribution.fromExpression('4d6!kh3').mean()).to.be.closeTo(15.0432432432, 1e-9);
+    });
+  });
+
+  describe('atLeast(), atMost()', () => {
+    const dist = DiceDistribution.fromExpression('1d20 + 5');
+
+    it('calculates P(result >= DC)', () => {
+      expect(dist.atLeast(15)).to.be.closeTo(0.55, 1e-12);
+      expect(dist.atLeast(0)).to.be.closeTo(1, 1e-12);
+      expect(dist.atLeast(30)).to.eq(0);
+    });
+
+    it('calculates P(result <= value)', () => {
+      expect(dist.atMost(15)).to.be.closeTo(0.5, 1e-12);
+    });
+  });
+
+  describe('mean(), variance()', () => {
+    const dist = DiceDistribution.fromExpression('2d6');
+
+    it('calculates the mean', () => expect(dist.mean()).to.be.closeTo(7, 1e-12));
+    it('calculates the variance', () => expect(dist.variance()).to.be.closeTo(35 / 6, 1e-12));
+  });
+
+  describe('expectedDamage()', () => {
+    it('scales by the hit chance', () => {
+      expect(DiceDistribution.fromExpression('1d8 + 3').expectedDamage(0.6)).to.be.closeTo(4.5, 1e-12);
+    });
+
+    it('applies half damage on a miss, rounded down', () => {
+      // 8d6 averages 28 on a hit, misses deal half of each total rounded down
+      const dist = DiceDistribution.fromExpression('8d6');
+      const halves = dist.getOutcomes().reduce((acc, ent) => acc + (ent.probability * Math.floor(ent.value / 2)), 0);
+
+      expect(dist.expectedDamage(0.5, 0.5)).to.be.closeTo((0.5 * 28) + (0.5 * halves), 1e-9);
+    });
+
+    it('does not allow negative damage', () => {
+      expect(DiceDistribution.fromExpression('1d4 - 4').expectedDamage(1)).to.be.closeTo(0, 1e-12);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import DiceExpression, { DiceNodeTypes } from '../src/dice';
+import { DieSizes } from '../src/die-size';
+import { IRandomSource } from '../src/interfaces';
+
+/**
+ * Creates a random source that returns the given values in order.
+ */
+const sequence = (...values:Array<number>):IRandomSource => {
+  let ind = 0;
+  return {
+    next: ():number => {
+      const val = values[ind % values.length];
+      ind += 1;
+      return val;
+    },
+  };
+};
+
+describe('DiceExpression', () => {
+  describe('parse()', () => {
+    it('parses a single dice group', () => {
+      expect(DiceExpression.parse('8d6')).to.deep.equal({
+        type: DiceNodeTypes.DICE,
+        count: 8,
+        die: DieSizes.D6,
+      });
+    });
+
+    it('defaults the count to 1', () => {
+      expect(DiceExpression.parse('d20')).to.deep.include({ count: 1 });
+    });
+
+    it('treats d% as a d100', () => {
+      expect(DiceExpression.parse('d%')).to.deep.include({ die: DieSizes.D100 });
+    });
+
+    it('parses constants and modifiers left to right', () => {
+      const node = DiceExpression.parse('1d8 + 2 - mod');
+
+      expect(node.type).to.equal(DiceNodeTypes.SUBTRACT);
+      expect(node).to.have.nested.property('right.name', 'MOD');
+      expect(node).to.have.nested.property('left.type', DiceNodeTypes.ADD);
+      expect(node).to.have.nested.property('left.right.value', 2);
+    });
+
+    it('parses a leading negative', () => {
+      expect(DiceExpression.parse('-1d4').type).to.equal(DiceNodeTypes.NEGATE);
+    });
+
+    it('throws on malformed expressions', () => {
+      expect(() => DiceExpression.parse('')).to.throw(SyntaxError);
+      expect(() => DiceExpression.parse('2d6 +')).to.throw(SyntaxError);
+      expect(() => DiceExpression.parse('2d6 * 2')).to.throw(SyntaxError);
+      expect(() => DiceExpression.parse('2d7')).to.throw(SyntaxError);
+      expect(() => DiceExpression.parse('0d6')).to.throw(SyntaxError);
+    });
+
+    it('parses dice modifiers', () => {
+      expect(DiceExpression.parse('4d6dl1')).to.deep.include({ keep: { highest: true, amount: 3 } });
+      expect(DiceExpression.parse('2d20KL1')).to.deep.include({ keep: { highest: false, amount: 1 } });
+      expect(DiceExpression.parse('2d6r<2')).to.deep.include({ reroll: 2 });
+      expect(DiceExpression.parse('1d20min10')).to.deep.include({ minimum: 10 });
+      expect(DiceExpression.parse('3d6!')).to.deep.include({ explode: true });
+    });
+
+    it('parses spelled out keep, and drop, phrases', () => {
+      expect(DiceExpression.parse('4d6 drop lowest')).to.deep.equal(DiceExpression.parse('4d6dl1'));
+      expect(DiceExpression.parse('4d6 Keep Highest 3')).to.deep.equal(DiceExpression.parse('4d6kh3'));
+      expect(DiceExpression.parse('2d20 keep lowest')).to.deep.include({ keep: { highest: false, amount: 1 } });
+      expect(DiceExpression.parse('4d6 drop highest 2 + 3')).to.deep.include({
+        left: {
+          type: 'DICE',
+          count: 4,
+          die: 'D6',
+          keep: { highest: false, amount: 2 },
+        },
+      });
+    });
+
+    it('throws on invalid keep, and drop, phrases', () => {
+      expect(() => DiceExpression.parse('4d6 drop lowest 4')).to.throw(SyntaxError);
+      expect(() => DiceExpression.parse('4d6kh3 drop lowest')).to.throw(SyntaxError);
+      expect(() => DiceExpression.parse('4d6 drop')).to.throw(SyntaxError);
+      expect(() => DiceExpression.parse('4d6 keep most 2')).to.throw(SyntaxError);
+    });
+
+    it('parses advantage and disadvantage', () => {
+      expect(DiceExpression.parse('d20adv')).to.deep.include({
+        count: 2,
+        keep: { highest: true, amount: 1 },
+      });
+      expect(DiceExpression.parse('1d20dis')).to.deep.include({
+        count: 2,
+        keep: { highest: false, amount: 1 },
+      });
+    });
+
+    it('throws on invalid dice modifiers', () => {
+      expect(() => DiceExpression.parse('2d20adv')).to.throw(SyntaxError);
+      expect(() => DiceExpression.parse('4d6kh5')).to.throw(SyntaxError);
+      expect(() => DiceExpression.parse('4d6dl4')).to.throw(SyntaxError);
+      expect(() => DiceExpression.parse('4d6kh3kl1')).to.throw(SyntaxError);
+      expect(() => DiceExpression.parse('1d6r6')).to.throw(SyntaxError);
+      expect(() => DiceExpression.parse('1d6min7')).to.throw(SyntaxError);
+      expect(() => DiceExpression.parse('1d6kh')).to.throw(SyntaxError);
+    });
+  });
+
+  describe('test()', () => {
+    it('allows valid expressions', () => expect(DiceExpression.test('1d8 + MOD')).to.be.true);
+    it('disallows invalid expressions', () => expect(DiceExpression.test('1d8 +')).to.be.false);
+  });
+
+  describe('roll()', () => {
+    it('rolls each die using the random source', () => {
+      const res = new DiceExpression('2d6 + 3').roll({}, sequence(0, 0.99));
+
+      expect(res.total).to.equal(10);
+      expect(res.groups).to.deep.equal([
+        {
+          die: DieSizes.D6,
+          results: [
+            {
+              value: 1,
+              rolls: [ 1 ],
+              kept: true,
+              rerolled: false,
+              exploded: false,
+            },
+            {
+              value: 6,
+              rolls: [ 6 ],
+              kept: true,
+              rerolled: false,
+              exploded: false,
+            },
+          ],
+          total: 7,
+        },
+      ]);
+    });
+
+    it('marks the dice that are kept', () => {
+      const res = new DiceExpression('4d6dl1').roll({}, sequence(0.5, 0, 0.99, 0.5));
+
+      expect(res.total).to.equal(14);
+      expect(res.groups[0].results.map(die => die.kept)).to.deep.equal([ true, false, true, true ]);
+    });
+
+    it('rolls with advantage', () => {
+      const res = new DiceExpression('1d20adv').roll({}, sequence(0.1, 0.7));
+
+      expect(res.total).to.equal(15);
+      expect(res.groups[0].results.map(die => die.value)).to.deep.equal([ 3, 15 ]);
+    });
+
+    it('rerolls once', () => {
+      const res = new DiceExpression('1d6r2').roll({}, sequence(0, 0));
+
+      expect(res.total).to.equal(1);
+      expect(res.groups[0].results[0]).to.deep.include({
+        rolls: [ 1, 1 ],
+        rerolled: true,
+      });
+    });
+
+    it('applies minimums', () => {
+      expect(new DiceExpression('1d20min10').roll({}, sequence(0)).total).to.equal(10);
+    });
+
+    it('explodes on the highest face', () => {
+      const res = new DiceExpression('1d6!').roll({}, sequence(0.99, 0.99, 0.2));
+
+      expect(res.total).to.equal(14);
+      expect(res.groups[0].results[0]).to.deep.include({
+        rolls: [ 6, 6, 2 ],
+        exploded: true,
+      });
+    });
+
+    it('applies modifiers', () => {
+      expect(new DiceExpression('1d8 + MOD').roll({ mod: 3 }, sequence(0.5)).total).to.equal(8);
+    });
+
+    it('throws on missing modifiers', () => {
+      expect(() => new DiceExpression('1d8 + MOD').roll()).to.throw(Error);
+    });
+  });
+
+  describe('min(), max(), average()', () => {
+    const expr = new DiceExpression('2d6 + PB - 1d4');
+
+    it('calculates the minimum', () => expect(expr.min({ PB: 2 })).to.equal(0));
+    it('calculates the maximum', () => expect(expr.max({ PB: 2 })).to.equal(13));
+    it('calculates the average', () => expect(expr.average({ PB: 2 })).to.equal(6.5));
+
+    it('includes dice modifiers', () => {
+      const stats = new DiceExpression('4d6kh3');
+
+      expect(stats.min()).to.equal(3);
+      expect(stats.max()).to.equal(18);
+      expect(stats.average()).to.be.closeTo(15869 / 1296, 1e-9);
+      expect(new DiceExpression('1d20min10').min()).to.equal(10);
+      expect(new DiceExpression('1d6!').average()).to.be.closeTo(4.2, 1e-9);
+    });
+  });
+
+  describe('getModifierNames()', () => {
+    it('returns unique names', () => {
+      expect(new DiceExpression('MOD + 1d6 + mod + PB').getModifierNames()).to.deep.equal([ 'MOD', 'PB' ]);
+    });
+  });
+
+  describe('toString()', () => {
+    it('normalizes the notation', () => {
+      expect(new DiceExpression('d8+mod -2').toString()).to.equal('1d8 + MOD - 2');
+      expect(new DiceExpression('d20adv + 4d6DL1').toString()).to.equal('2d20kh1 + 4d6kh3');
+    });
+  });
+});
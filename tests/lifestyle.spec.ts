@@ -0,0 +1,30 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import { getLifestyleCost, Lifestyles } from '../src/lifestyle';
+
+describe('Lifestyle', () => {
+  describe('getLifestyleCost()', () => {
+    it('costs a single day by default', () => {
+      expect(getLifestyleCost(Lifestyles.MODEST).toTuple()).to.deep.equal([ 0, 0, 0, 1, 0 ]);
+      expect(getLifestyleCost(Lifestyles.WRETCHED).toBaseUnits()).to.eq(0);
+    });
+
+    it('costs a number of days balanced up to gold', () => {
+      expect(getLifestyleCost(Lifestyles.SQUALID, 15).toTuple()).to.deep.equal([ 0, 5, 0, 1, 0 ]);
+      expect(getLifestyleCost(Lifestyles.ARISTOCRATIC, 30).toTuple()).to.deep.equal([ 0, 0, 0, 300, 0 ]);
+    });
+
+    it('rounds up to whole months', () => {
+      expect(getLifestyleCost(Lifestyles.POOR, 31, true).toTuple()).to.deep.equal([ 0, 0, 0, 12, 0 ]);
+      expect(getLifestyleCost(Lifestyles.COMFORTABLE, 30, true).toTuple()).to.deep.equal([ 0, 0, 0, 60, 0 ]);
+      expect(getLifestyleCost(Lifestyles.WEALTHY, 0, true).toBaseUnits()).to.eq(0);
+    });
+
+    it('throws on invalid parameters', () => {
+      expect(() => getLifestyleCost(Lifestyles.UNKNOWN)).to.throw(RangeError);
+      expect(() => getLifestyleCost(Lifestyles.MODEST, 1.5)).to.throw(RangeError);
+      expect(() => getLifestyleCost(Lifestyles.MODEST, -1)).to.throw(RangeError);
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import { ResourceTypes } from '../src/resource-type';
+import Reference, { ReferenceRace } from '../src/reference';
+
+describe('Reference', () => {
+  describe('Typed references', () => {
+    it('creates an empty reference of the type', () => {
+      const ref = new ReferenceRace();
+
+      expect(ref).to.have.property('type', ResourceTypes.RACE);
+      expect(ref).to.have.property('uri', '/');
+    });
+
+    it('copies the properties with the type', () => {
+      const ref = new ReferenceRace({
+        uri: '/race/elf',
+        name: 'Elf',
+      });
+
+      expect(ref).to.have.property('type', ResourceTypes.RACE);
+      expect(ref).to.have.property('uri', '/race/elf');
+      expect(ref.validateSync()).to.deep.equal([]);
+    });
+
+    it('requires a uri when properties are supplied', () => {
+      expect(() => new ReferenceRace({ name: 'Elf' })).to.throw(TypeError);
+    });
+
+    it('is an empty reference of unknown type by default', () => expect(new Reference().isZeroValue()).to.be.true);
+  });
+});
@@ -2,30 +2,58 @@ import { expect } from 'chai';
 import { describe } from 'mocha';
 
 import Resource from '../src/resource';
+import Source from '../src/source';
+
+import type { ValidationErrors } from '../src/interfaces';
+
+/**
+ * Exposes the protected validation for testing.
+ */
+class TestResource extends Resource {
+  static readonly check = (props:any):void => Resource.strictValidateProps(props);
+
+  validateSync = ():ValidationErrors => this.validateResourceSync();
+}
+
+const exampleProps = {
+  type: 'CLASS',
+  id: 'some-id',
+  uri: '/class/some-id',
+  name: 'Test Object',
+  description: {
+    plainText: [ 'Example object description' ],
+  },
+  source: {
+    publicationID: 'HB',
+    title: 'Test',
+  },
+  tags: [ 'tag-one', 'tag-two' ],
+};
 
 describe('Resource Class', () => {
   describe('Resource.strictValidateProps()', () => {
     it('requires a prop parameter', () => {
-      expect(() => Resource.strictValidateProps(null)).to.throw(TypeError);
-      expect(() => Resource.strictValidateProps(123)).to.throw();
+      expect(() => TestResource.check(null)).to.throw(TypeError);
+      expect(() => TestResource.check(123)).to.throw();
     });
 
-    it('validates valid example', () => {
-      const props = {
-        type: 'CLASS',
-        id: 'some-id',
-        name: 'Test Object',
-        description: {
-          plainText: [ 'Example object description' ],
-        },
-        source: {
-          publicationID: 'HB',
-          title: 'Test',
-        },
-        tags: [ 'tag1', 'tag2' ],
-      };
-
-      expect(() => Resource.strictValidateProps(props)).to.not.throw();
+    it('validates valid example', () => expect(() => TestResource.check(exampleProps)).to.not.throw());
+  });
+
+  describe('Resource.validateSync()', () => {
+    it('copies the source into a Source object', () => {
+      expect(new TestResource(exampleProps).source).to.be.an.instanceof(Source);
+    });
+
+    it('validates from a child class', () => expect(new TestResource(exampleProps).validateSync()).to.deep.equal([]));
+
+    it('validates asynchronously', async() => expect(await new TestResource(exampleProps).validate()).to.deep.equal([]));
+
+    it('reports invalid properties', () => {
+      const obj = new TestResource(exampleProps);
+      obj.id = 'Not Kabob';
+
+      expect(obj.validateSync()).to.have.length(1);
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,164 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import CharacterClass from '../../src/resources/character-class';
+import Reference, { ReferenceClassFeature } from '../../src/reference';
+
+const feature = (id:string, name:string) => ({
+  type: 'CLASS_FEATURE',
+  uri: `/class-feature/${id}`,
+  name,
+});
+
+const fighter = {
+  type: 'CLASS',
+  id: 'fighter',
+  name: 'Fighter',
+  description: { plainText: [ 'A master of martial combat.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+  hitDie: 10,
+  proficiencies: {
+    savingThrows: [
+      {
+        type: 'ABILITY_SCORE',
+        uri: '/ability-score/strength',
+        name: 'Strength',
+      },
+    ],
+    starting: [
+      {
+        type: 'PROFICIENCY',
+        uri: '/proficiency/all-armor',
+        name: 'All Armor',
+      },
+    ],
+  },
+  levels: Array.from({ length: 20 }, (_val:unknown, ind:number) => ({
+    level: 20 - ind,
+    proficiencyBonus: 2 + Math.floor((19 - ind) / 4),
+    features: [],
+  })).map((lvl:any) => {
+    if(lvl.level === 1)
+      return { ...lvl, features: [ feature('second-wind', 'Second Wind') ] };
+    if(lvl.level === 2)
+      return { ...lvl, features: [ feature('action-surge', 'Action Surge') ] };
+    if(lvl.level === 4)
+      return { ...lvl, abilityScoreIncrease: true };
+    return lvl;
+  }),
+  equipment: {
+    starting: [
+      {
+        type: 'ITEM',
+        uri: '/item/javelin',
+        name: 'Javelin',
+        amount: 2,
+      },
+    ],
+    options: [
+      [
+        [
+          {
+            type: 'ITEM',
+            uri: '/item/chain-mail',
+            name: 'Chain Mail',
+          },
+        ],
+        [
+          {
+            type: 'ITEM',
+            uri: '/item/leather-armor',
+            name: 'Leather Armor',
+          },
+          {
+            type: 'ITEM',
+            uri: '/item/longbow',
+            name: 'Longbow',
+          },
+        ],
+      ],
+    ],
+  },
+};
+
+describe('CharacterClass', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const cls = new CharacterClass(fighter);
+
+      expect(cls).to.have.property('uri', '/class/fighter');
+      expect(cls.proficiencies.savingThrows[0]).to.be.an.instanceof(Reference);
+      expect(cls.equipment.starting[0]).to.be.an.instanceof(Reference).and.to.have.property('amount', 2);
+      expect(cls.equipment.options[0][1]).to.have.length(2);
+    });
+
+    it('sorts the levels', () => {
+      expect(new CharacterClass(fighter).levels.map((lvl:any) => lvl.level))
+        .to.deep.equal(Array.from({ length: 20 }, (_val:unknown, ind:number) => ind + 1));
+    });
+
+    it('throws on missing properties', () => {
+      expect(() => new CharacterClass({
+        ...fighter,
+        levels: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('getLevel()', () => {
+    it('finds the level entry', () => {
+      expect(new CharacterClass(fighter).getLevel(4)).to.have.property('abilityScoreIncrease', true);
+      expect(new CharacterClass(fighter).getLevel(5)).to.have.property('proficiencyBonus', 3);
+    });
+
+    it('returns undefined for unknown levels', () => expect(new CharacterClass(fighter).getLevel(21)).to.be.undefined);
+  });
+
+  describe('featuresUpTo()', () => {
+    it('collects the features in order', () => {
+      const features = new CharacterClass(fighter).featuresUpTo(3);
+
+      expect(features.map((ent:ReferenceClassFeature) => ent.name)).to.deep.equal([ 'Second Wind', 'Action Surge' ]);
+      expect(features[0]).to.be.an.instanceof(ReferenceClassFeature);
+    });
+
+    it('returns nothing below level 1', () => expect(new CharacterClass(fighter).featuresUpTo(0)).to.deep.equal([]));
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid class', () => expect(new CharacterClass(fighter).validateSync()).to.deep.equal([]));
+
+    it('passes a valid class asynchronously', async() => {
+      expect(await new CharacterClass(fighter).validate()).to.deep.equal([]);
+    });
+
+    it('requires 20 levels', () => {
+      const cls = new CharacterClass(fighter);
+      cls.levels.pop();
+
+      expect(cls.validateSync()).to.deep.equal([ 'CharacterClass.levels should have exactly 20 entries, instead found 19.' ]);
+    });
+
+    it('requires a valid hit-die', () => {
+      const cls = new CharacterClass(fighter);
+      cls.hitDie = 7;
+
+      expect(cls.validateSync()).to.have.length(1);
+    });
+
+    it('requires the proficiencies, and equipment objects', () => {
+      const cls = new CharacterClass(fighter);
+      (cls as any).proficiencies = 'none';
+      (cls as any).equipment = undefined;
+
+      expect(cls.validateSync()).to.deep.equal([
+        'CharacterClass.proficiencies should be an object type, instead found "string".',
+        'CharacterClass.equipment is a required object.',
+      ]);
+    });
+  });
+});
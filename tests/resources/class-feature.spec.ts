@@ -0,0 +1,77 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import ClassFeature, { FeatureRecharges } from '../../src/resources/class-feature';
+import { ReferenceClass } from '../../src/reference';
+
+const secondWind = {
+  type: 'CLASS_FEATURE',
+  id: 'second-wind',
+  name: 'Second Wind',
+  description: { plainText: [ 'You have a limited well of stamina that you can draw on.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+  class: {
+    type: 'CLASS',
+    uri: '/class/fighter',
+    name: 'Fighter',
+  },
+  level: 1,
+  usage: {
+    amount: 1,
+    recharge: 'SHORT_REST',
+  },
+};
+
+describe('ClassFeature', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const feature = new ClassFeature(secondWind);
+
+      expect(feature).to.have.property('uri', '/class-feature/second-wind');
+      expect(feature.class).to.be.an.instanceof(ReferenceClass).and.to.have.property('uri', '/class/fighter');
+      expect(feature.subClass).to.be.undefined;
+      expect(feature.usage).to.deep.equal({
+        amount: 1,
+        recharge: FeatureRecharges.SHORT_REST,
+      });
+    });
+
+    it('defaults to an empty class', () => expect(new ClassFeature().class).to.be.an.instanceof(ReferenceClass));
+
+    it('throws on missing properties', () => {
+      expect(() => new ClassFeature({
+        ...secondWind,
+        class: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid feature', () => expect(new ClassFeature(secondWind).validateSync()).to.deep.equal([]));
+
+    it('passes a valid feature asynchronously', async() => {
+      expect(await new ClassFeature(secondWind).validate()).to.deep.equal([]);
+    });
+
+    it('limits the level to the class levels', () => {
+      const feature = new ClassFeature(secondWind);
+      feature.level = 21;
+
+      expect(feature.validateSync()).to.have.length(1);
+    });
+
+    it('rejects unknown recharges', () => {
+      expect(new ClassFeature({
+        ...secondWind,
+        usage: {
+          amount: 1,
+          recharge: 'WEEKLY',
+        },
+      }).validateSync()).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Condition from '../../src/resources/condition';
+
+const blinded = {
+  type: 'CONDITION',
+  id: 'blinded',
+  name: 'Blinded',
+  description: { plainText: [ 'A blinded creature cannot see.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+};
+
+describe('Condition', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const res = new Condition(blinded);
+
+      expect(res).to.have.property('uri', '/condition/blinded');
+      expect(res).to.have.property('name', 'Blinded');
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid condition', () => expect(new Condition(blinded).validateSync()).to.deep.equal([]));
+
+    it('passes a valid condition asynchronously', async() => {
+      expect(await new Condition(blinded).validate()).to.deep.equal([]);
+    });
+
+    it('requires a name', () => {
+      const res = new Condition(blinded);
+      res.name = '';
+
+      expect(res.validateSync()).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import DamageType from '../../src/resources/damage-type';
+
+const fire = {
+  type: 'DAMAGE_TYPE',
+  id: 'fire',
+  name: 'Fire',
+  description: { plainText: [ 'Red dragons breathe fire.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+};
+
+describe('DamageType', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const res = new DamageType(fire);
+
+      expect(res).to.have.property('uri', '/damage-type/fire');
+      expect(res).to.have.property('name', 'Fire');
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid damage type', () => expect(new DamageType(fire).validateSync()).to.deep.equal([]));
+
+    it('passes a valid damage type asynchronously', async() => {
+      expect(await new DamageType(fire).validate()).to.deep.equal([]);
+    });
+
+    it('requires a name', () => {
+      const res = new DamageType(fire);
+      res.name = '';
+
+      expect(res.validateSync()).to.have.length(1);
+    });
+  });
+});
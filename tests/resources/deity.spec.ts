@@ -0,0 +1,121 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Deity, { DeityRanks } from '../../src/resources/deity';
+
+const deity = (id:string, name:string, props:any) => ({
+  type: 'DEITY',
+  id,
+  name,
+  description: { plainText: [ `${name}, a deity.` ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+  titles: [],
+  symbol: '',
+  portfolio: [],
+  ...props,
+});
+
+const moradin = deity('moradin', 'Moradin', {
+  titles: [ 'The Soul Forger' ],
+  symbol: 'Hammer and anvil',
+  pantheons: [ 'Dwarven' ],
+  alignment: 'LAWFUL_GOOD',
+  rank: 'GREATER',
+  portfolio: [ 'Creation', 'Smithing' ],
+  domains: [ 'Knowledge' ],
+  worshippers: [ 'Dwarves' ],
+});
+
+const corellon = deity('corellon', 'Corellon Larethian', {
+  pantheons: [ 'Elven', 'Seldarine' ],
+  alignment: 'CHAOTIC_GOOD',
+  domains: [ 'Light' ],
+});
+
+const bahamut = deity('bahamut', 'Bahamut', {
+  pantheons: [ 'Draconic', 'Dwarven' ],
+  alignment: 'LAWFUL_GOOD',
+  domains: [ 'Life', 'War' ],
+});
+
+describe('Deity', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const god = new Deity(moradin);
+
+      expect(god).to.have.property('uri', '/deity/moradin');
+      expect(god.titles).to.deep.equal([ 'The Soul Forger' ]);
+      expect(god.rank).to.equal(DeityRanks.GREATER);
+      expect(god.worshippers).to.deep.equal([ 'Dwarves' ]);
+    });
+
+    it('throws on missing properties', () => {
+      expect(() => new Deity({
+        ...moradin,
+        pantheons: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('groupByPantheon()', () => {
+    it('lists deities under each of their pantheons', () => {
+      const groups = Deity.groupByPantheon([ moradin, corellon, bahamut ].map((ent:any) => new Deity(ent)));
+
+      expect(Object.keys(groups)).to.have.members([ 'Dwarven', 'Elven', 'Seldarine', 'Draconic' ]);
+      expect(groups.Dwarven.map((ent:Deity) => ent.name)).to.deep.equal([ 'Moradin', 'Bahamut' ]);
+      expect(groups.Seldarine[0]).to.be.an.instanceof(Deity);
+    });
+
+    it('returns an empty object for no deities', () => expect(Deity.groupByPantheon([])).to.deep.equal({}));
+
+    it('gives pantheons named like Object properties their own array', () => {
+      const groups = Deity.groupByPantheon([ 'constructor', 'toString', '__proto__', 'hasOwnProperty' ]
+        .map((pantheon:string) => new Deity({
+          ...moradin,
+          pantheons: [ pantheon ],
+        })));
+
+      expect(Object.keys(groups)).to.have.members([ 'constructor', 'toString', '__proto__', 'hasOwnProperty' ]);
+      Object.keys(groups).forEach((pantheon:string) => {
+        expect(groups[pantheon]).to.be.an('array').with.length(1);
+      });
+    });
+  });
+
+  describe('filterByDomain()', () => {
+    const deities = [ moradin, corellon, bahamut ].map((ent:any) => new Deity(ent));
+
+    it('compares names case-insensitively', () => {
+      expect(Deity.filterByDomain(deities, ' war ').map((ent:Deity) => ent.name)).to.deep.equal([ 'Bahamut' ]);
+    });
+
+    it('accepts a reference', () => {
+      expect(Deity.filterByDomain(deities, {
+        type: 'CLASS_FEATURE',
+        uri: '/class-feature/light-domain',
+        name: 'Light',
+      }).map((ent:Deity) => ent.name)).to.deep.equal([ 'Corellon Larethian' ]);
+    });
+
+    it('returns nothing for unknown domains', () => expect(Deity.filterByDomain(deities, 'Trickery')).to.deep.equal([]));
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid deity', () => expect(new Deity(moradin).validateSync()).to.deep.equal([]));
+
+    it('passes a valid deity asynchronously', async() => {
+      expect(await new Deity(corellon).validate()).to.deep.equal([]);
+    });
+
+    it('requires a pantheon', () => {
+      const god = new Deity(moradin);
+      god.pantheons = [];
+
+      expect(god.validateSync()).to.deep.equal([ 'Deity.pantheons should have at least one pantheon.' ]);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Disease from '../../src/resources/disease';
+
+const sewerPlague = {
+  type: 'DISEASE',
+  id: 'sewer-plague',
+  name: 'Sewer Plague',
+  description: { plainText: [ 'A generic term for a broad category of illnesses.' ] },
+  source: {
+    publicationID: 'DMG',
+    title: 'Dungeon Master\'s Guide',
+  },
+  tags: [],
+};
+
+describe('Disease', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const res = new Disease(sewerPlague);
+
+      expect(res).to.have.property('uri', '/disease/sewer-plague');
+      expect(res).to.have.property('name', 'Sewer Plague');
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid disease', () => expect(new Disease(sewerPlague).validateSync()).to.deep.equal([]));
+
+    it('passes a valid disease asynchronously', async() => {
+      expect(await new Disease(sewerPlague).validate()).to.deep.equal([]);
+    });
+
+    it('requires a name', () => {
+      const res = new Disease(sewerPlague);
+      res.name = '';
+
+      expect(res.validateSync()).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Currency from '../../src/currency';
+import EquipmentPack, { EquipmentPackItemData } from '../../src/resources/equipment-pack';
+import Item from '../../src/resources/item';
+import { ReferenceItem } from '../../src/reference';
+
+const content = (id:string, name:string, quantity:number) => ({
+  uri: `/item/${id}`,
+  name,
+  quantity,
+});
+
+const explorersPack = {
+  type: 'EQUIPMENT_PACK',
+  id: 'explorers-pack',
+  name: 'Explorer\'s Pack',
+  description: { plainText: [ 'Everything needed to explore the wilderness.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+  value: '10gp',
+  contents: [
+    content('backpack', 'Backpack', 1),
+    content('rations', 'Rations (1 day)', 10),
+    content('torch', 'Torch', 10),
+    content('waterskin', 'Waterskin', 1),
+  ],
+};
+
+const items:{[uri:string]: EquipmentPackItemData} = {
+  '/item/backpack': {
+    value: Item.convertValue('2gp'),
+    weight: 5,
+  },
+  '/item/rations': {
+    value: Item.convertValue('5sp'),
+    weight: 2,
+  },
+  '/item/torch': {
+    value: Item.convertValue('1cp'),
+    weight: 1,
+  },
+  '/item/waterskin': {
+    value: Item.convertValue('2sp'),
+    weight: 5,
+  },
+};
+
+const resolver = (ref:ReferenceItem):(EquipmentPackItemData | null) => items[ref.uri] ?? null;
+
+describe('EquipmentPack', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const pack = new EquipmentPack(explorersPack);
+
+      expect(pack).to.have.property('uri', '/equipment-pack/explorers-pack');
+      expect(pack.value).to.be.an.instanceof(Currency);
+      expect(pack.value.toGold()).to.equal(10);
+      expect(pack.contents).to.have.length(4);
+      expect(pack.contents[1].type).to.be.an.instanceof(ReferenceItem).and.to.have.property('uri', '/item/rations');
+      expect(pack.contents[1].count).to.equal(10);
+    });
+
+    it('throws on invalid contents', () => {
+      expect(() => new EquipmentPack({
+        ...explorersPack,
+        contents: [ { uri: '/item/torch' } ],
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('getTotalWeight()', () => {
+    it('adds the weight of each item', () => expect(new EquipmentPack(explorersPack).getTotalWeight(resolver)).to.equal(40));
+
+    it('throws for unknown items', () => {
+      expect(() => new EquipmentPack(explorersPack).getTotalWeight(() => null)).to.throw(Error);
+    });
+  });
+
+  describe('getTotalValue()', () => {
+    it('adds the value of each item', () => {
+      const value = new EquipmentPack(explorersPack).getTotalValue(resolver);
+
+      expect(value).to.be.an.instanceof(Currency);
+      expect(value.toBaseUnits()).to.equal(730);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid pack', () => expect(new EquipmentPack(explorersPack).validateSync()).to.deep.equal([]));
+
+    it('passes a valid pack asynchronously', async() => {
+      expect(await new EquipmentPack(explorersPack).validate()).to.deep.equal([]);
+    });
+
+    it('requires positive counts', () => {
+      const pack = new EquipmentPack(explorersPack);
+      pack.contents[0].count = 0;
+
+      expect(pack.validateSync()).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Feat, { FeatPrerequisiteTypes } from '../../src/resources/feat';
+import { ReferenceAbilityScore, ReferenceProficiency, ReferenceRace } from '../../src/reference';
+
+const abilityScore = (id:string, name:string) => ({
+  type: 'ABILITY_SCORE',
+  uri: `/ability-score/${id}`,
+  name,
+});
+
+const race = (id:string, name:string) => new ReferenceRace({
+  uri: `/race/${id}`,
+  name,
+});
+
+const base = {
+  type: 'FEAT',
+  description: { plainText: [ 'A feat.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+  proficiencies: [],
+};
+
+const elvenAccuracy = {
+  ...base,
+  id: 'elven-accuracy',
+  name: 'Elven Accuracy',
+  prerequisites: {
+    races: [
+      {
+        type: 'RACE',
+        uri: '/race/elf',
+        name: 'Elf',
+      },
+      {
+        type: 'RACE',
+        uri: '/race/half-elf',
+        name: 'Half-Elf',
+      },
+    ],
+    proficiencies: [],
+    spellcasting: false,
+    other: [],
+  },
+  abilityScoreIncreases: {
+    options: [
+      {
+        amount: 1,
+        choices: [
+          abilityScore('dexterity', 'Dexterity'),
+          abilityScore('intelligence', 'Intelligence'),
+          abilityScore('wisdom', 'Wisdom'),
+          abilityScore('charisma', 'Charisma'),
+        ],
+      },
+    ],
+  },
+};
+
+const heavyArmorMaster = {
+  ...base,
+  id: 'heavy-armor-master',
+  name: 'Heavy Armor Master',
+  prerequisites: {
+    races: [],
+    proficiencies: [
+      {
+        type: 'PROFICIENCY',
+        uri: '/proficiency/heavy-armor',
+        name: 'Heavy Armor',
+      },
+    ],
+    spellcasting: false,
+    other: [ 'Dungeon Master approval' ],
+  },
+  abilityScoreIncreases: {
+    starting: [
+      {
+        ...abilityScore('strength', 'Strength'),
+        amount: 1,
+      },
+    ],
+  },
+};
+
+const ritualCaster = {
+  ...base,
+  id: 'ritual-caster',
+  name: 'Ritual Caster',
+  prerequisites: {
+    races: [],
+    proficiencies: [],
+    spellcasting: true,
+    abilityScores: [
+      {
+        ...abilityScore('intelligence', 'Intelligence'),
+        value: 13,
+      },
+      {
+        ...abilityScore('wisdom', 'Wisdom'),
+        value: 13,
+      },
+    ],
+    other: [],
+  },
+  abilityScoreIncreases: {},
+};
+
+describe('Feat', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const feat = new Feat(ritualCaster);
+
+      expect(feat).to.have.property('uri', '/feat/ritual-caster');
+      expect(feat.prerequisites.spellcasting).to.be.true;
+      expect(feat.prerequisites.abilityScores?.[0]).to.be.an.instanceof(ReferenceAbilityScore)
+        .and.to.have.property('value', 13);
+      expect(new Feat(elvenAccuracy).abilityScoreIncreases.options?.[0].choices).to.have.length(4);
+    });
+
+    it('throws on missing properties', () => {
+      expect(() => new Feat({
+        ...elvenAccuracy,
+        prerequisites: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('checkPrerequisites()', () => {
+    it('accepts a matching race or sub-race', () => {
+      const feat = new Feat(elvenAccuracy);
+
+      expect(feat.checkPrerequisites({ race: race('half-elf', 'Half-Elf') })).to.deep.equal({
+        available: true,
+        failed: [],
+        unchecked: [],
+      });
+      expect(feat.checkPrerequisites({
+        race: race('human', 'Human'),
+        subRace: race('elf', 'Elf'),
+      }).available).to.be.true;
+    });
+
+    it('rejects another race', () => {
+      const { available, failed } = new Feat(elvenAccuracy).checkPrerequisites({ race: race('dwarf', 'Dwarf') });
+
+      expect(available).to.be.false;
+      expect(failed).to.have.length(1);
+      expect(failed[0]).to.have.property('type', FeatPrerequisiteTypes.RACE);
+      expect(failed[0]).to.have.property('message', 'Requires the race Elf or Half-Elf.');
+    });
+
+    it('lists missing proficiencies, and unchecked prerequisites', () => {
+      const feat = new Feat(heavyArmorMaster);
+      const res = feat.checkPrerequisites({});
+
+      expect(res.available).to.be.false;
+      expect(res.failed[0]).to.have.property('type', FeatPrerequisiteTypes.PROFICIENCY);
+      expect(res.failed[0].required?.map((ref:any) => ref.uri)).to.deep.equal([ '/proficiency/heavy-armor' ]);
+      expect(res.unchecked).to.deep.equal([ 'Dungeon Master approval' ]);
+
+      expect(feat.checkPrerequisites({
+        proficiencies: [
+          new ReferenceProficiency({
+            uri: '/proficiency/heavy-armor',
+            name: 'Heavy Armor',
+          }),
+        ],
+      }).available).to.be.true;
+    });
+
+    it('requires spellcasting, and any one ability score', () => {
+      const feat = new Feat(ritualCaster);
+      const wisdom = (value:number) => Object.assign(new ReferenceAbilityScore(abilityScore('wisdom', 'Wisdom')), {
+        value,
+      });
+
+      expect(feat.checkPrerequisites({
+        spellcasting: true,
+        abilityScores: [ wisdom(13) ],
+      }).available).to.be.true;
+      expect(feat.checkPrerequisites({
+        spellcasting: false,
+        abilityScores: [ wisdom(12) ],
+      }).failed.map((ent:any) => ent.type)).to.deep.equal([
+        FeatPrerequisiteTypes.SPELLCASTING,
+        FeatPrerequisiteTypes.ABILITY_SCORE,
+      ]);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes valid feats', () => {
+      expect(new Feat(elvenAccuracy).validateSync()).to.deep.equal([]);
+      expect(new Feat(heavyArmorMaster).validateSync()).to.deep.equal([]);
+      expect(new Feat(ritualCaster).validateSync()).to.deep.equal([]);
+    });
+
+    it('passes a valid feat asynchronously', async() => {
+      expect(await new Feat(elvenAccuracy).validate()).to.deep.equal([]);
+    });
+
+    it('requires positive increases', () => {
+      const feat = new Feat(heavyArmorMaster);
+      (feat.abilityScoreIncreases.starting ?? [])[0].amount = 0;
+
+      expect(feat.validateSync()).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Hazard, { HazardCategories } from '../../src/resources/hazard';
+
+const brownMold = {
+  type: 'HAZARD',
+  id: 'brown-mold',
+  name: 'Brown Mold',
+  description: { plainText: [ 'Brown mold feeds on warmth, drawing heat from anything around it.' ] },
+  source: {
+    publicationID: 'DMG',
+    title: 'Dungeon Master\'s Guide',
+  },
+  tags: [],
+  category: 'WILDERNESS',
+};
+
+describe('Hazard', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const hazard = new Hazard(brownMold);
+
+      expect(hazard).to.have.property('uri', '/hazard/brown-mold');
+      expect(hazard.category).to.equal(HazardCategories.WILDERNESS);
+    });
+
+    it('throws on missing properties', () => {
+      expect(() => new Hazard({
+        ...brownMold,
+        category: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid hazard', () => expect(new Hazard(brownMold).validateSync()).to.deep.equal([]));
+
+    it('passes a valid hazard asynchronously', async() => {
+      expect(await new Hazard(brownMold).validate()).to.deep.equal([]);
+    });
+
+    it('rejects unknown categories', () => {
+      expect(new Hazard({
+        ...brownMold,
+        category: 'SWAMP',
+      }).validateSync()).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import ItemCategory from '../../src/resources/item-category';
+import { ItemCategories } from '../../src/resources/item';
+import { ReferenceItem } from '../../src/reference';
+
+const weapons = {
+  type: 'ITEM_CATEGORY',
+  id: 'weapons',
+  name: 'Weapons',
+  description: { plainText: [ 'Simple, and martial weapons.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+  category: 'WEAPON',
+  items: [
+    {
+      type: 'ITEM',
+      uri: '/item/longsword',
+      name: 'Longsword',
+    },
+  ],
+};
+
+describe('ItemCategory', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const category = new ItemCategory(weapons);
+
+      expect(category).to.have.property('uri', '/item-category/weapons');
+      expect(category.category).to.equal(ItemCategories.WEAPON);
+      expect(category.items?.[0]).to.be.an.instanceof(ReferenceItem);
+    });
+
+    it('throws on missing properties', () => {
+      expect(() => new ItemCategory({
+        ...weapons,
+        category: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid category', () => expect(new ItemCategory(weapons).validateSync()).to.deep.equal([]));
+
+    it('passes a valid category asynchronously', async() => {
+      expect(await new ItemCategory(weapons).validate()).to.deep.equal([]);
+    });
+
+    it('rejects unknown categories', () => {
+      expect(new ItemCategory({
+        ...weapons,
+        category: 'TREASURE',
+      }).validateSync()).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Item from '../../src/resources/item';
+import Currency from '../../src/currency';
+import { ReferenceDamageType, ReferenceWeaponProperty } from '../../src/reference';
+
+const baseProps = {
+  type: 'ITEM',
+  name: 'Test Item',
+  description: { plainText: [ 'An item.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+};
+
+const longsword = {
+  ...baseProps,
+  id: 'longsword',
+  name: 'Longsword',
+  category: 'WEAPON',
+  value: '15GP',
+  weight: 3,
+  weapon: {
+    category: 'MARTIAL',
+    properties: [
+      {
+        type: 'WEAPON_PROPERTY',
+        uri: '/weapon-property/versatile',
+        name: 'Versatile',
+      },
+    ],
+    range: { type: 'MELEE' },
+    damage: [
+      {
+        amount: '1d8',
+        twoHanded: '1d10',
+        type: {
+          type: 'DAMAGE_TYPE',
+          uri: '/damage-type/slashing',
+          name: 'Slashing',
+        },
+      },
+    ],
+  },
+};
+
+const chainMail = {
+  ...baseProps,
+  id: 'chain-mail',
+  name: 'Chain Mail',
+  category: 'ARMOR',
+  value: 75,
+  weight: 55,
+  armor: {
+    category: 'HEAVY',
+    baseAC: 16,
+    strengthRequired: 13,
+    stealthDisadvantage: true,
+  },
+};
+
+const potion = {
+  ...baseProps,
+  id: 'potion-of-healing',
+  name: 'Potion of Healing',
+  category: 'POTION',
+  value: '50 gp',
+  weight: 0.5,
+  magic: {
+    rarity: 'COMMON',
+    details: [ 'You regain 2d4 + 2 hit points when you drink this potion.' ],
+  },
+};
+
+describe('Item', () => {
+  describe('Item.convertValue()', () => {
+    it('parses written values', () => {
+      expect(Item.convertValue('15GP').toTuple()).to.deep.equal([ 0, 0, 0, 15, 0 ]);
+      expect(Item.convertValue('2pp 5sp').toTuple()).to.deep.equal([ 0, 5, 0, 0, 2 ]);
+    });
+
+    it('breaks down gold values without platinum', () => {
+      expect(Item.convertValue(12.5).toTuple()).to.deep.equal([ 0, 5, 0, 12, 0 ]);
+    });
+
+    it('returns zero for invalid values', () => expect(Item.convertValue({}).toBaseUnits()).to.eq(0));
+  });
+
+  describe('constructor', () => {
+    it('copies a weapon', () => {
+      const item = new Item(longsword);
+
+      expect(item).to.have.property('uri', '/item/longsword');
+      expect(item.value).to.be.an.instanceof(Currency);
+      expect(item.weapon?.properties[0]).to.be.an.instanceof(ReferenceWeaponProperty);
+      expect(item.weapon?.damage[0].type).to.be.an.instanceof(ReferenceDamageType);
+    });
+
+    it('copies armor', () => expect(new Item(chainMail).armor).to.deep.equal(chainMail.armor));
+
+    it('throws on invalid properties', () => {
+      expect(() => new Item({
+        ...longsword,
+        value: true,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes valid items', () => {
+      expect(new Item(longsword).validateSync()).to.deep.equal([]);
+      expect(new Item(chainMail).validateSync()).to.deep.equal([]);
+      expect(new Item(potion).validateSync()).to.deep.equal([]);
+    });
+
+    it('passes valid items asynchronously', async() => expect(await new Item(longsword).validate()).to.deep.equal([]));
+
+    it('requires the properties of the category', () => {
+      const item = new Item(chainMail);
+      delete item.armor;
+
+      expect(item.validateSync()).to.deep.equal([ 'Item.armor is required if the category is "ARMOR".' ]);
+    });
+
+    it('reports invalid armor', () => {
+      const item = new Item(chainMail);
+      if(item.armor)
+        item.armor.baseAC = 5;
+
+      expect(item.validateSync()).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Language from '../../src/resources/language';
+
+const dwarvish = {
+  type: 'LANGUAGE',
+  id: 'dwarvish',
+  name: 'Dwarvish',
+  description: { plainText: [ 'Full of hard consonants and guttural sounds.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+  script: 'Dwarvish',
+  speakers: [ 'Dwarves' ],
+};
+
+describe('Language', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const language = new Language(dwarvish);
+
+      expect(language).to.have.property('uri', '/language/dwarvish');
+      expect(language.script).to.equal('Dwarvish');
+      expect(language.speakers).to.deep.equal([ 'Dwarves' ]);
+    });
+
+    it('defaults to a standard language', () => expect(new Language(dwarvish).exotic).to.be.false);
+
+    it('throws on missing properties', () => {
+      expect(() => new Language({
+        ...dwarvish,
+        script: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid language', () => expect(new Language(dwarvish).validateSync()).to.deep.equal([]));
+
+    it('passes a valid language asynchronously', async() => {
+      expect(await new Language({
+        ...dwarvish,
+        exotic: true,
+      }).validate()).to.deep.equal([]);
+    });
+
+    it('rejects empty speakers', () => {
+      const language = new Language(dwarvish);
+      language.speakers.push('');
+
+      expect(language.validateSync()).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import MagicSchool from '../../src/resources/magic-school';
+
+const evocation = {
+  type: 'MAGIC_SCHOOL',
+  id: 'evocation',
+  name: 'Evocation',
+  description: { plainText: [ 'Spells that manipulate magical energy.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+};
+
+describe('MagicSchool', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const res = new MagicSchool(evocation);
+
+      expect(res).to.have.property('uri', '/magic-school/evocation');
+      expect(res).to.have.property('name', 'Evocation');
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid magic school', () => expect(new MagicSchool(evocation).validateSync()).to.deep.equal([]));
+
+    it('passes a valid magic school asynchronously', async() => {
+      expect(await new MagicSchool(evocation).validate()).to.deep.equal([]);
+    });
+
+    it('requires a name', () => {
+      const res = new MagicSchool(evocation);
+      res.name = '';
+
+      expect(res.validateSync()).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Monster from '../../src/resources/monster';
+import { ReferenceDamageType } from '../../src/reference';
+
+const abilityScore = (score:number) => ({
+  score,
+  modifier: Math.floor((score - 10) / 2),
+});
+
+const goblin = {
+  type: 'MONSTER',
+  id: 'goblin',
+  name: 'Goblin',
+  description: { plainText: [ 'A small, black-hearted humanoid.' ] },
+  source: {
+    publicationID: 'MM',
+    title: 'Monster Manual',
+  },
+  tags: [ 'humanoid' ],
+  challengeRating: 1,
+  size: 'SMALL',
+  kind: {
+    primary: 'HUMANOID',
+    additional: [ 'goblinoid' ],
+  },
+  alignment: 'EVIL',
+  maxHP: 7,
+  hitDice: '2d6',
+  armorClass: 15,
+  speed: { walk: 30 },
+  senses: {
+    passivePerception: 9,
+    darkvision: 60,
+  },
+  abilityScores: {
+    strength: abilityScore(8),
+    dexterity: abilityScore(14),
+    constitution: abilityScore(10),
+    intelligence: abilityScore(10),
+    wisdom: abilityScore(8),
+    charisma: abilityScore(8),
+  },
+  proficiencies: [
+    {
+      type: 'PROFICIENCY',
+      uri: '/proficiency/stealth',
+      name: 'Stealth',
+      amount: 6,
+    },
+  ],
+  resistances: [],
+  immunities: { damageTypes: [] },
+  languages: { additional: [ 'Common', 'Goblin' ] },
+  actions: [
+    {
+      name: 'Scimitar',
+      description: 'Melee Weapon Attack: +4 to hit, reach 5 ft., one target.',
+      type: 'MELEE_WEAPON',
+      attackBonus: 4,
+      reach: 5,
+      range: {},
+      damage: [
+        {
+          amount: '1d6 + 2',
+          type: {
+            type: 'DAMAGE_TYPE',
+            uri: '/damage-type/slashing',
+            name: 'Slashing',
+          },
+        },
+      ],
+    },
+  ],
+};
+
+describe('Monster', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const monster = new Monster(goblin);
+
+      expect(monster).to.have.property('uri', '/monster/goblin');
+      expect(monster).to.have.property('size', 'SMALL');
+      expect(monster.speed).to.deep.equal({
+        walk: 30,
+        swim: 0,
+        fly: 0,
+      });
+      expect(monster.abilityScores.dexterity).to.deep.equal({
+        score: 14,
+        modifier: 2,
+        savingThrow: 0,
+      });
+      expect(monster.actions[0].damage?.[0].type).to.be.an.instanceof(ReferenceDamageType);
+    });
+
+    it('throws on missing properties', () => expect(() => new Monster({ ...goblin, size: null })).to.throw(TypeError));
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid monster', () => expect(new Monster(goblin).validateSync()).to.deep.equal([]));
+
+    it('passes a valid monster asynchronously', async() => expect(await new Monster(goblin).validate()).to.deep.equal([]));
+
+    it('reports invalid values', () => {
+      const monster = new Monster(goblin);
+      monster.maxHP = 0;
+      monster.hitDice = 'lots';
+
+      expect(monster.validateSync()).to.have.length(2);
+    });
+  });
+});
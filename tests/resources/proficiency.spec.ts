@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Proficiency, { ProficiencyCategories } from '../../src/resources/proficiency';
+import { ReferenceClass, ReferenceRace } from '../../src/reference';
+
+const battleaxes = {
+  type: 'PROFICIENCY',
+  id: 'battleaxes',
+  name: 'Battleaxes',
+  description: { plainText: [ 'Proficiency with battleaxes.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+  category: 'WEAPON',
+  races: [
+    {
+      type: 'RACE',
+      uri: '/race/dwarf',
+      name: 'Dwarf',
+    },
+  ],
+  classes: [
+    {
+      type: 'CLASS',
+      uri: '/class/fighter',
+      name: 'Fighter',
+    },
+  ],
+  references: [
+    {
+      type: 'ITEM',
+      uri: '/item/battleaxe',
+      name: 'Battleaxe',
+    },
+  ],
+};
+
+describe('Proficiency', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const proficiency = new Proficiency(battleaxes);
+
+      expect(proficiency).to.have.property('uri', '/proficiency/battleaxes');
+      expect(proficiency.category).to.equal(ProficiencyCategories.WEAPON);
+      expect(proficiency.races?.[0]).to.be.an.instanceof(ReferenceRace);
+      expect(proficiency.classes?.[0]).to.be.an.instanceof(ReferenceClass);
+      expect(proficiency.references).to.have.length(1);
+    });
+
+    it('throws on missing properties', () => {
+      expect(() => new Proficiency({
+        ...battleaxes,
+        category: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid proficiency', () => expect(new Proficiency(battleaxes).validateSync()).to.deep.equal([]));
+
+    it('passes a valid proficiency asynchronously', async() => {
+      expect(await new Proficiency(battleaxes).validate()).to.deep.equal([]);
+    });
+
+    it('rejects unknown categories', () => {
+      expect(new Proficiency({
+        ...battleaxes,
+        category: 'MAGIC',
+      }).validateSync()).to.have.length(1);
+    });
+  });
+});
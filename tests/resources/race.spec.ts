@@ -0,0 +1,203 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Race from '../../src/resources/race';
+import SubRace from '../../src/resources/sub-race';
+import { ReferenceAbilityScore, ReferenceLanguage, ReferenceRace } from '../../src/reference';
+
+const abilityScore = (id:string, name:string, amount:number) => ({
+  type: 'ABILITY_SCORE',
+  uri: `/ability-score/${id}`,
+  name,
+  amount,
+});
+
+const language = (id:string, name:string) => ({
+  type: 'LANGUAGE',
+  uri: `/language/${id}`,
+  name,
+});
+
+const trait = (id:string, name:string) => ({
+  type: 'TRAIT',
+  uri: `/trait/${id}`,
+  name,
+});
+
+const dwarf = {
+  type: 'RACE',
+  id: 'dwarf',
+  name: 'Dwarf',
+  description: { plainText: [ 'Bold and hardy.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [ 'core' ],
+  alignment: 'Most dwarves are lawful.',
+  age: {
+    description: 'Dwarves mature at the same rate as humans.',
+    adulthood: 50,
+    lifespan: 350,
+  },
+  size: { type: 'MEDIUM' },
+  speed: { walk: 25 },
+  senses: { darkvision: 60 },
+  abilityScores: {
+    starting: [ abilityScore('constitution', 'Constitution', 2) ],
+  },
+  languages: {
+    starting: [ language('common', 'Common'), language('dwarvish', 'Dwarvish') ],
+  },
+  traits: {
+    starting: [ trait('dwarven-resilience', 'Dwarven Resilience') ],
+  },
+  subRaces: [
+    {
+      type: 'SUB_RACE',
+      uri: '/sub-race/hill-dwarf',
+      name: 'Hill Dwarf',
+    },
+  ],
+};
+
+const hillDwarf = {
+  type: 'SUB_RACE',
+  id: 'hill-dwarf',
+  name: 'Hill Dwarf',
+  description: { plainText: [ 'Keen senses and deep intuition.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [ 'hill' ],
+  parentRace: {
+    type: 'RACE',
+    uri: '/race/dwarf',
+    name: 'Dwarf',
+  },
+  abilityScores: {
+    starting: [ abilityScore('wisdom', 'Wisdom', 1), abilityScore('constitution', 'Constitution', 1) ],
+  },
+  traits: {
+    starting: [ trait('dwarven-toughness', 'Dwarven Toughness') ],
+  },
+};
+
+describe('Race', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const race = new Race(dwarf);
+
+      expect(race).to.have.property('uri', '/race/dwarf');
+      expect(race.speed).to.deep.equal({
+        walk: 25,
+        swim: 0,
+        fly: 0,
+      });
+      expect(race.abilityScores?.starting?.[0]).to.be.an.instanceof(ReferenceAbilityScore)
+        .and.to.have.property('amount', 2);
+      expect(race.languages?.starting?.[1]).to.be.an.instanceof(ReferenceLanguage);
+    });
+
+    it('throws on missing properties', () => {
+      expect(() => new Race({
+        ...dwarf,
+        alignment: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid race', () => expect(new Race(dwarf).validateSync()).to.deep.equal([]));
+
+    it('passes a valid race asynchronously', async() => {
+      expect(await new Race(dwarf).validate()).to.deep.equal([]);
+    });
+
+    it('rejects an unknown size', () => {
+      const race = new Race(dwarf);
+      race.size = { type: 'UNKNOWN' };
+
+      expect(race.validateSync()).to.deep.equal([ 'Race::Size.type should not be "UNKNOWN".' ]);
+    });
+  });
+});
+
+describe('SubRace', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const sub = new SubRace(hillDwarf);
+
+      expect(sub.parentRace).to.be.an.instanceof(ReferenceRace).and.to.have.property('uri', '/race/dwarf');
+      expect(sub.alignment).to.be.undefined;
+      expect(sub.abilityScores?.starting).to.have.length(2);
+    });
+
+    it('defaults to an empty parent race', () => expect(new SubRace().parentRace).to.be.an.instanceof(ReferenceRace));
+
+    it('throws on a missing parent race', () => {
+      expect(() => new SubRace({
+        ...hillDwarf,
+        parentRace: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('merge()', () => {
+    it('layers the sub-race on the parent race', () => {
+      const merged = new SubRace(hillDwarf).merge(new Race(dwarf));
+
+      expect(merged).to.be.an.instanceof(Race);
+      expect(merged).to.have.property('uri', '/sub-race/hill-dwarf');
+      expect(merged.parentRace).to.have.property('uri', '/race/dwarf');
+      expect(merged.alignment).to.equal(dwarf.alignment);
+      expect(merged.tags).to.deep.equal([ 'core', 'hill' ]);
+      expect(merged.senses).to.deep.equal({ darkvision: 60 });
+    });
+
+    it('adds ability score bonuses together', () => {
+      const merged = new SubRace(hillDwarf).merge(new Race(dwarf));
+
+      expect(merged.abilityScores?.starting?.map((ent:any) => [ ent.uri, ent.amount ])).to.deep.equal([
+        [ '/ability-score/constitution', 3 ],
+        [ '/ability-score/wisdom', 1 ],
+      ]);
+    });
+
+    it('combines the traits', () => {
+      const merged = new SubRace(hillDwarf).merge(new Race(dwarf));
+
+      expect(merged.traits?.starting?.map((ent:any) => ent.name)).to.deep.equal([
+        'Dwarven Resilience',
+        'Dwarven Toughness',
+      ]);
+    });
+
+    it('does not change the parent race', () => {
+      const race = new Race(dwarf);
+      new SubRace(hillDwarf).merge(race);
+
+      expect(race.abilityScores?.starting?.[0]).to.have.property('amount', 2);
+    });
+
+    it('produces a valid race', () => {
+      expect(new SubRace(hillDwarf).merge(new Race(dwarf)).validateSync()).to.deep.equal([]);
+    });
+
+    it('throws for another race', () => {
+      expect(() => new SubRace(hillDwarf).merge(new Race({
+        ...dwarf,
+        id: 'elf',
+      }))).to.throw(Error);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid sub-race', () => expect(new SubRace(hillDwarf).validateSync()).to.deep.equal([]));
+
+    it('passes a valid sub-race asynchronously', async() => {
+      expect(await new SubRace(hillDwarf).validate()).to.deep.equal([]);
+    });
+  });
+});
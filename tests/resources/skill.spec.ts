@@ -0,0 +1,51 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Skill from '../../src/resources/skill';
+import { ReferenceAbilityScore } from '../../src/reference';
+
+const athletics = {
+  type: 'SKILL',
+  id: 'athletics',
+  name: 'Athletics',
+  description: { plainText: [ 'Covers difficult situations you encounter while climbing, jumping, or swimming.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+  abilityScore: {
+    type: 'ABILITY_SCORE',
+    uri: '/ability-score/strength',
+    name: 'Strength',
+  },
+};
+
+describe('Skill', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const skill = new Skill(athletics);
+
+      expect(skill).to.have.property('uri', '/skill/athletics');
+      expect(skill.abilityScore).to.be.an.instanceof(ReferenceAbilityScore)
+        .and.to.have.property('uri', '/ability-score/strength');
+    });
+
+    it('defaults to an empty ability score', () => expect(new Skill().abilityScore).to.be.an.instanceof(ReferenceAbilityScore));
+
+    it('throws on missing properties', () => {
+      expect(() => new Skill({
+        ...athletics,
+        abilityScore: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid skill', () => expect(new Skill(athletics).validateSync()).to.deep.equal([]));
+
+    it('passes a valid skill asynchronously', async() => {
+      expect(await new Skill(athletics).validate()).to.deep.equal([]);
+    });
+  });
+});
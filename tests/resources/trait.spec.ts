@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Trait from '../../src/resources/trait';
+import { ReferenceRace } from '../../src/reference';
+
+const darkvision = {
+  type: 'TRAIT',
+  id: 'darkvision',
+  name: 'Darkvision',
+  description: { plainText: [ 'You can see in dim light within 60 feet of you as if it were bright light.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+  races: [
+    {
+      type: 'RACE',
+      uri: '/race/dwarf',
+      name: 'Dwarf',
+    },
+    {
+      type: 'RACE',
+      uri: '/race/elf',
+      name: 'Elf',
+    },
+  ],
+};
+
+describe('Trait', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const trait = new Trait(darkvision);
+
+      expect(trait).to.have.property('uri', '/trait/darkvision');
+      expect(trait.races).to.have.length(2);
+      expect(trait.races[0]).to.be.an.instanceof(ReferenceRace);
+    });
+
+    it('throws on missing properties', () => {
+      expect(() => new Trait({
+        ...darkvision,
+        races: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid trait', () => expect(new Trait(darkvision).validateSync()).to.deep.equal([]));
+
+    it('passes a valid trait asynchronously', async() => {
+      expect(await new Trait(darkvision).validate()).to.deep.equal([]);
+    });
+
+    it('requires race references', () => {
+      const trait = new Trait(darkvision);
+      trait.races.push({} as ReferenceRace);
+
+      expect(trait.validateSync()).to.deep.equal([ 'Trait.races[2]: supplied object is not a ReferenceRace object.' ]);
+    });
+  });
+});
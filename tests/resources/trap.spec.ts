@@ -0,0 +1,126 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Trap, { TrapCategories } from '../../src/resources/trap';
+
+const base = {
+  type: 'TRAP',
+  source: {
+    publicationID: 'DMG',
+    title: 'Dungeon Master\'s Guide',
+  },
+  tags: [],
+};
+
+const pitTrap = {
+  ...base,
+  id: 'hidden-pit',
+  name: 'Hidden Pit',
+  description: { plainText: [ 'A pit covered by a false floor.' ] },
+  category: 'MECHANICAL',
+  trigger: [ 'Stepping on the false floor.' ],
+  counterMeasure: [ 'A DC 15 Wisdom (Perception) check spots the seams.' ],
+  effects: [ 'The creature falls 10 feet.' ],
+  threatLevel: 1,
+};
+
+const sphereOfCrushing = {
+  ...base,
+  id: 'sphere-of-crushing-doom',
+  name: 'Sphere of Crushing Doom',
+  description: { plainText: [ 'A massive stone sphere rolls down the hall.' ] },
+  category: 'COMPLEX',
+  trigger: [ 'Opening the door at the top of the hall.' ],
+  counterMeasure: [ 'Wedge the sphere with a spike.' ],
+  effects: [ 'The sphere crushes everything in its path.' ],
+  tier: 2,
+  threatLevel: 3,
+  complex: {
+    initiatives: [ 10, 20 ],
+    elements: {
+      constant: [ 'The hall is difficult terrain.' ],
+      active: [ 'The sphere rolls 60 feet.' ],
+      dynamic: [ 'The sphere speeds up each round.' ],
+    },
+  },
+};
+
+describe('Trap', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const trap = new Trap(sphereOfCrushing);
+
+      expect(trap).to.have.property('uri', '/trap/sphere-of-crushing-doom');
+      expect(trap.category).to.equal(TrapCategories.COMPLEX);
+      expect(trap.complex?.elements.active).to.deep.equal([ 'The sphere rolls 60 feet.' ]);
+      expect(new Trap(pitTrap).tier).to.equal(0);
+    });
+
+    it('throws on missing properties', () => {
+      expect(() => new Trap({
+        ...pitTrap,
+        category: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('getInitiativeOrder()', () => {
+    it('sorts from highest to lowest', () => expect(new Trap(sphereOfCrushing).getInitiativeOrder()).to.deep.equal([ 20, 10 ]));
+
+    it('is empty for simple traps', () => expect(new Trap(pitTrap).getInitiativeOrder()).to.deep.equal([]));
+  });
+
+  describe('getElementsOnInitiative()', () => {
+    it('includes every element on an initiative count the trap acts on', () => {
+      expect(new Trap(sphereOfCrushing).getElementsOnInitiative(20)).to.deep.equal(sphereOfCrushing.complex.elements);
+    });
+
+    it('includes only the constant elements on other counts', () => {
+      expect(new Trap(sphereOfCrushing).getElementsOnInitiative(15)).to.deep.equal({
+        constant: [ 'The hall is difficult terrain.' ],
+        active: [],
+        dynamic: [],
+      });
+    });
+
+    it('is empty for simple traps', () => {
+      expect(new Trap(pitTrap).getElementsOnInitiative(20)).to.deep.equal({
+        constant: [],
+        active: [],
+        dynamic: [],
+      });
+    });
+
+    it('returns copies', () => {
+      const trap = new Trap(sphereOfCrushing);
+      trap.getElementsOnInitiative(20).active.push('Changed.');
+
+      expect(trap.complex?.elements.active).to.have.length(1);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes valid traps', () => {
+      expect(new Trap(pitTrap).validateSync()).to.deep.equal([]);
+      expect(new Trap(sphereOfCrushing).validateSync()).to.deep.equal([]);
+    });
+
+    it('passes a valid trap asynchronously', async() => {
+      expect(await new Trap(sphereOfCrushing).validate()).to.deep.equal([]);
+    });
+
+    it('requires complex traps to have initiatives', () => {
+      const trap = new Trap(sphereOfCrushing);
+      trap.complex = undefined;
+
+      expect(trap.validateSync()).to.deep.equal([ 'Trap.complex is required if the category is "COMPLEX".' ]);
+    });
+
+    it('rejects duplicate initiative counts', () => {
+      const trap = new Trap(sphereOfCrushing);
+      trap.complex?.initiatives.push(10);
+
+      expect(trap.validateSync()).to.deep.equal([ 'Trap::Complex.initiatives[2] "10" is a duplicate initiative count.' ]);
+    });
+  });
+});
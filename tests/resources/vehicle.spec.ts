@@ -0,0 +1,127 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import Currency from '../../src/currency';
+import Vehicle, { SpeedUnits, VehicleCategories, WeightUnits } from '../../src/resources/vehicle';
+
+const base = {
+  type: 'VEHICLE',
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+};
+
+const warhorse = {
+  ...base,
+  id: 'warhorse',
+  name: 'Warhorse',
+  description: { plainText: [ 'A horse trained for battle.' ] },
+  category: 'MOUNT',
+  cost: 400,
+  carryCapacity: 540,
+  speed: { land: 60 },
+};
+
+const galley = {
+  ...base,
+  id: 'galley',
+  name: 'Galley',
+  description: { plainText: [ 'A large oared ship.' ] },
+  category: 'WATER',
+  cost: '30000gp',
+  carryCapacity: {
+    value: 150,
+    unit: 'TONS',
+  },
+  speed: { water: 4 },
+};
+
+describe('Vehicle', () => {
+  describe('constructor', () => {
+    it('uses feet for mount speeds', () => {
+      const mount = new Vehicle(warhorse);
+
+      expect(mount).to.have.property('uri', '/vehicle/warhorse');
+      expect(mount.speed.land).to.deep.equal({
+        value: 60,
+        unit: SpeedUnits.FEET,
+      });
+      expect(mount.carryCapacity).to.deep.equal({
+        value: 540,
+        unit: WeightUnits.POUNDS,
+      });
+    });
+
+    it('uses miles per hour for other speeds', () => {
+      const ship = new Vehicle(galley);
+
+      expect(ship.category).to.equal(VehicleCategories.WATER);
+      expect(ship.speed).to.deep.equal({
+        water: {
+          value: 4,
+          unit: SpeedUnits.MILES_PER_HOUR,
+        },
+      });
+      expect(ship.cost).to.be.an.instanceof(Currency);
+      expect(ship.cost.toTuple()).to.deep.equal([ 0, 0, 0, 30000, 0 ]);
+    });
+
+    it('throws on missing properties', () => {
+      expect(() => new Vehicle({
+        ...galley,
+        speed: null,
+      })).to.throw(TypeError);
+    });
+  });
+
+  describe('unit conversion', () => {
+    it('converts feet per round to miles per hour', () => {
+      expect(Vehicle.toMilesPerHour({
+        value: 60,
+        unit: SpeedUnits.FEET,
+      })).to.equal(6);
+      expect(Vehicle.toMilesPerHour({
+        value: 4,
+        unit: SpeedUnits.MILES_PER_HOUR,
+      })).to.equal(4);
+    });
+
+    it('converts tons to pounds', () => {
+      expect(Vehicle.toPounds(new Vehicle(galley).carryCapacity)).to.equal(300000);
+      expect(Vehicle.toPounds(new Vehicle(warhorse).carryCapacity)).to.equal(540);
+    });
+
+    it('picks the default speed unit by category', () => {
+      expect(Vehicle.getDefaultSpeedUnit(VehicleCategories.MOUNT)).to.equal(SpeedUnits.FEET);
+      expect(Vehicle.getDefaultSpeedUnit(VehicleCategories.AIR)).to.equal(SpeedUnits.MILES_PER_HOUR);
+      expect(Vehicle.getDefaultSpeedUnit()).to.equal(SpeedUnits.MILES_PER_HOUR);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes valid vehicles', () => {
+      expect(new Vehicle(warhorse).validateSync()).to.deep.equal([]);
+      expect(new Vehicle(galley).validateSync()).to.deep.equal([]);
+    });
+
+    it('passes a valid vehicle asynchronously', async() => {
+      expect(await new Vehicle(galley).validate()).to.deep.equal([]);
+    });
+
+    it('rejects unknown units', () => {
+      const ship = new Vehicle({
+        ...galley,
+        speed: {
+          water: {
+            value: 4,
+            unit: 'KNOTS',
+          },
+        },
+      });
+
+      expect(ship.validateSync()).to.have.length(1);
+    });
+  });
+});
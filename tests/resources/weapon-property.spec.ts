@@ -0,0 +1,42 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import WeaponProperty from '../../src/resources/weapon-property';
+
+const finesse = {
+  type: 'WEAPON_PROPERTY',
+  id: 'finesse',
+  name: 'Finesse',
+  description: { plainText: [ 'Use Strength or Dexterity for attack rolls.' ] },
+  source: {
+    publicationID: 'PHB',
+    title: 'Player\'s Handbook',
+  },
+  tags: [],
+};
+
+describe('WeaponProperty', () => {
+  describe('constructor', () => {
+    it('copies the properties', () => {
+      const res = new WeaponProperty(finesse);
+
+      expect(res).to.have.property('uri', '/weapon-property/finesse');
+      expect(res).to.have.property('name', 'Finesse');
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('passes a valid weapon property', () => expect(new WeaponProperty(finesse).validateSync()).to.deep.equal([]));
+
+    it('passes a valid weapon property asynchronously', async() => {
+      expect(await new WeaponProperty(finesse).validate()).to.deep.equal([]);
+    });
+
+    it('requires a name', () => {
+      const res = new WeaponProperty(finesse);
+      res.name = '';
+
+      expect(res.validateSync()).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import RollTable from '../src/roll-table';
+import { DieSizes } from '../src/die-size';
+import { IRandomSource } from '../src/interfaces';
+
+/**
+ * Creates a random source that returns the given values in order.
+ */
+const sequence = (...values:Array<number>):IRandomSource => {
+  let ind = 0;
+  return {
+    next: ():number => {
+      const val = values[ind % values.length];
+      ind += 1;
+      return val;
+    },
+  };
+};
+
+const entry = (text:string, range:any):any => ({
+  ...range,
+  body: { plainText: [ text ] },
+});
+
+describe('RollTable', () => {
+  const treasure = new RollTable({
+    die: DieSizes.D4,
+    results: [
+      entry('Coins', { minimumValue: 1, maximumValue: 3 }),
+      {
+        ...entry('Art object', { value: 4 }),
+        table: 'art-objects',
+      },
+    ],
+  });
+
+  const artObjects = new RollTable({
+    die: DieSizes.D100,
+    results: [
+      entry('Silver ewer', { minimumValue: 1, maximumValue: 90 }),
+      entry('Gold locket', { minimumValue: 91, maximumValue: 0 }),
+    ],
+  });
+
+  describe('get()', () => {
+    it('matches ranges', () => {
+      expect(treasure.get(2)?.body.plainText).to.deep.equal([ 'Coins' ]);
+    });
+
+    it('treats "00" as 100 on percentile tables', () => {
+      expect(artObjects.get(100)?.body.plainText).to.deep.equal([ 'Gold locket' ]);
+      expect(artObjects.get(95)?.body.plainText).to.deep.equal([ 'Gold locket' ]);
+    });
+  });
+
+  describe('validateSync()', () => {
+    it('allows tables covering every value once', () => {
+      expect(treasure.validateSync()).to.be.empty;
+      expect(artObjects.validateSync()).to.be.empty;
+    });
+
+    it('reports missing values', () => {
+      const table = new RollTable({
+        die: DieSizes.D6,
+        results: [
+          entry('One', { value: 1 }),
+          entry('Three', { value: 3 }),
+        ],
+      });
+
+      expect(table.validateSync()).to.deep.equal([ 'RollTable is missing entries for 2, 4-6.' ]);
+    });
+
+    it('reports overlapping entries', () => {
+      const table = new RollTable({
+        die: DieSizes.D4,
+        results: [
+          entry('Low', { minimumValue: 1, maximumValue: 3 }),
+          entry('High', { minimumValue: 2, maximumValue: 4 }),
+        ],
+      });
+
+      expect(table.validateSync()).to.deep.equal([ 'RollTable.results[0] and RollTable.results[1] overlap on 2-3.' ]);
+    });
+
+    it('reports entries outside of the die', () => {
+      const table = new RollTable({
+        die: DieSizes.D4,
+        results: [
+          entry('All', { minimumValue: 1, maximumValue: 4 }),
+          entry('Five', { value: 5 }),
+        ],
+      });
+
+      expect(table.validateSync()).to.deep.equal([ 'RollTable.results[1] covers 5, which is outside of the possible rolls of 1-4.' ]);
+    });
+  });
+
+  describe('getProbabilities()', () => {
+    it('returns the chance of each entry', () => {
+      const [ coins, art ] = treasure.getProbabilities();
+      const [ ewer, locket ] = artObjects.getProbabilities();
+
+      expect(coins.probability).to.be.closeTo(0.75, 1e-12);
+      expect(art.probability).to.be.closeTo(0.25, 1e-12);
+      expect(ewer.probability).to.be.closeTo(0.9, 1e-12);
+      expect(locket.probability).to.be.closeTo(0.1, 1e-12);
+    });
+  });
+
+  describe('dice expressions', () => {
+    const encounters = new RollTable({
+      dice: '2d6',
+      results: [
+        entry('Rare', { minimumValue: 2, maximumValue: 3 }),
+        entry('Common', { minimumValue: 4, maximumValue: 10 }),
+        entry('Rare', { minimumValue: 11, maximumValue: 12 }),
+      ],
+    });
+
+    it('covers the range of the expression', () => {
+      expect(encounters.validateSync()).to.be.empty;
+      expect(new RollTable({
+        dice: '1d8+1d12',
+        results: [ entry('Low', { minimumValue: 2, maximumValue: 10 }) ],
+      }).validateSync()).to.deep.equal([ 'RollTable is missing entries for 11-20.' ]);
+    });
+
+    it('allows totals over 100', () => {
+      const table = new RollTable({
+        dice: '2d100',
+        results: [
+          entry('Low', { minimumValue: 2, maximumValue: 100 }),
+          entry('High', { minimumValue: 101, maximumValue: 200 }),
+        ],
+      });
+
+      expect(table.validateSync()).to.be.empty;
+    });
+
+    it('allows totals under 0', async() => {
+      const table = new RollTable({
+        dice: '1d6-3',
+        results: [
+          entry('Bad', { minimumValue: -2, maximumValue: 0 }),
+          entry('Worst', { value: -2 }),
+          entry('Good', { minimumValue: 1, maximumValue: 3 }),
+        ],
+      });
+
+      expect(await table.validate()).to.deep.equal([ 'RollTable.results[0] and RollTable.results[1] overlap on -2.' ]);
+
+      table.results.splice(1, 1);
+      expect(table.validateSync()).to.be.empty;
+      expect(await table.validate()).to.be.empty;
+    });
+
+    it('reports entries outside of the expression', () => {
+      expect(new RollTable({
+        dice: '1d6-3',
+        results: [
+          entry('Bad', { minimumValue: -3, maximumValue: 0 }),
+          entry('Good', { minimumValue: 1, maximumValue: 3 }),
+        ],
+      }).validateSync()).to.deep.equal([ 'RollTable.results[0] covers -3-0, which is outside of the possible rolls of -2-3.' ]);
+    });
+
+    it('keeps the 0-100 limit for tables without an expression', () => {
+      const table = new RollTable({
+        die: DieSizes.D100,
+        results: [
+          entry('All', { minimumValue: 1, maximumValue: 100 }),
+          entry('Extra', { value: 101 }),
+        ],
+      });
+
+      expect(table.validateSync()).to.have.length(2);
+    });
+
+    it('uses the distribution for probabilities', () => {
+      const [ low, common, high ] = encounters.getProbabilities();
+
+      expect(low.probability).to.be.closeTo(3 / 36, 1e-12);
+      expect(common.probability).to.be.closeTo(30 / 36, 1e-12);
+      expect(high.probability).to.be.closeTo(3 / 36, 1e-12);
+    });
+
+    it('rolls the expression', () => {
+      const res = encounters.roll(sequence(0, 0.2));
+
+      expect(res.roll).to.eq(3);
+      expect(res.entry).to.eq(encounters.results[0]);
+    });
+
+    it('does not allow named modifiers', () => {
+      const table = new RollTable({
+        dice: '1d6 + MOD',
+        results: [ entry('Any', { minimumValue: 1, maximumValue: 6 }) ],
+      });
+
+      expect(table.validateSync()).to.have.length(1);
+      expect(() => table.roll()).to.throw(Error);
+    });
+  });
+
+  describe('roll()', () => {
+    it('returns the raw roll and entry', () => {
+      const res = treasure.roll(sequence(0.3));
+
+      expect(res.roll).to.eq(2);
+      expect(res.entry.body.plainText).to.deep.equal([ 'Coins' ]);
+      expect(res.nested).to.be.undefined;
+    });
+
+    it('rolls on nested tables', () => {
+      const res = treasure.roll(sequence(0.99, 0.995), (name:string) => (name === 'art-objects' ? artObjects : null));
+
+      expect(res.roll).to.eq(4);
+      expect(res.nested?.roll).to.eq(100);
+      expect(res.nested?.entry.body.plainText).to.deep.equal([ 'Gold locket' ]);
+    });
+
+    it('throws when a nested table can not be resolved', () => {
+      expect(() => treasure.roll(sequence(0.99))).to.throw(Error);
+    });
+
+    it('throws when no entry matches', () => {
+      const gap = new RollTable({
+        die: DieSizes.D4,
+        results: [ entry('One', { value: 1 }) ],
+      });
+
+      expect(() => gap.roll(sequence(0.99))).to.throw(Error);
+    });
+  });
+});
@@ -7,6 +7,8 @@ import {
   clampInt,
   randomFloat,
   randomInt,
+  roundWith,
+  RoundingModes,
 } from '../../src/utils/math';
 
 describe('Math Utilities', () => {
@@ -61,4 +63,19 @@ describe('Math Utilities', () => {
       };
     });
   });
-});
\ No newline at end of file
+
+  describe('roundWith()', () => {
+    it('rounds using each mode', () => {
+      expect(roundWith(2.5, RoundingModes.FLOOR)).to.eq(2);
+      expect(roundWith(2.1, RoundingModes.CEIL)).to.eq(3);
+      expect(roundWith(2.5, RoundingModes.ROUND)).to.eq(3);
+      expect(roundWith(-2.5, RoundingModes.TRUNCATE)).to.eq(-2);
+    });
+
+    it('rounds halves to even', () => {
+      expect(roundWith(2.5, RoundingModes.HALF_EVEN)).to.eq(2);
+      expect(roundWith(3.5, RoundingModes.HALF_EVEN)).to.eq(4);
+      expect(roundWith(3.4, RoundingModes.HALF_EVEN)).to.eq(3);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import {
+  binomial,
+  convolveProbabilities,
+  keepProbabilities,
+  meanOfProbabilities,
+  trimProbabilities,
+  truncateProbabilities,
+} from '../../src/utils/probability';
+
+const d4 = {
+  min: 1,
+  probabilities: [ 0.25, 0.25, 0.25, 0.25 ],
+};
+
+describe('Probability Utilities', () => {
+  describe('binomial()', () => {
+    it('returns the number of combinations', () => {
+      expect(binomial(4, 2)).to.eq(6);
+      expect(binomial(10, 0)).to.eq(1);
+      expect(binomial(3, 4)).to.eq(0);
+    });
+  });
+
+  describe('convolveProbabilities()', () => {
+    it('adds two distributions', () => {
+      const res = convolveProbabilities(d4, d4);
+
+      expect(res.min).to.eq(2);
+      expect(res.probabilities).to.have.length(7);
+      expect(res.probabilities[3]).to.be.closeTo(4 / 16, 1e-12);
+    });
+  });
+
+  describe('keepProbabilities()', () => {
+    it('keeps the highest', () => {
+      const res = keepProbabilities(d4, 2, 1);
+
+      expect(res.min).to.eq(1);
+      expect(res.probabilities[3]).to.be.closeTo(7 / 16, 1e-12);
+    });
+
+    it('keeps the lowest', () => {
+      const res = keepProbabilities(d4, 2, 1, false);
+
+      expect(res.probabilities[0]).to.be.closeTo(7 / 16, 1e-12);
+    });
+
+    it('matches convolution when keeping everything', () => {
+      expect(keepProbabilities(d4, 2, 2).probabilities[3]).to.be.closeTo(4 / 16, 1e-12);
+    });
+  });
+
+  describe('meanOfProbabilities()', () => {
+    it('returns the expected value', () => expect(meanOfProbabilities(d4)).to.be.closeTo(2.5, 1e-12));
+  });
+
+  describe('trimProbabilities()', () => {
+    it('removes empty values from the ends', () => {
+      expect(trimProbabilities({
+        min: 1,
+        probabilities: [ 0, 0.5, 0.5, 0 ],
+      })).to.deep.equal({
+        min: 2,
+        probabilities: [ 0.5, 0.5 ],
+      });
+    });
+  });
+
+  describe('truncateProbabilities()', () => {
+    it('moves unlikely values at the ends onto their neighbours', () => {
+      expect(truncateProbabilities({
+        min: 1,
+        probabilities: [ 0.125, 0.5, 0.25, 0.0625, 0.0625 ],
+      }, 0.125)).to.deep.equal({
+        min: 2,
+        probabilities: [ 0.625, 0.375 ],
+      });
+    });
+
+    it('keeps at least one value', () => {
+      expect(truncateProbabilities({
+        min: 3,
+        probabilities: [ 1 ],
+      }, 1)).to.deep.equal({
+        min: 3,
+        probabilities: [ 1 ],
+      });
+    });
+
+    it('leaves likely values alone', () => expect(truncateProbabilities(d4, 0.1)).to.deep.equal(d4));
+  });
+});
@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+import { describe } from 'mocha';
+
+import {
+  SeededRandom,
+  getDefaultRandom,
+  setDefaultRandom,
+} from '../../src/utils/random';
+import { randomFloat, randomInt } from '../../src/utils/math';
+
+describe('Random Utilities', () => {
+  describe('SeededRandom', () => {
+    it('generates numbers between 0 and 1', () => {
+      const rng = new SeededRandom(42);
+      for(let ind = 0; ind < 1000; ind++) {
+        const val = rng.next();
+        expect(val).to.be.gte(0);
+        expect(val).to.be.lt(1);
+      }
+    });
+
+    it('repeats the sequence for the same seed', () => {
+      const lhs = new SeededRandom(1234);
+      const rhs = new SeededRandom(1234);
+      for(let ind = 0; ind < 100; ind++)
+        expect(lhs.next()).to.eq(rhs.next());
+    });
+
+    it('differs for different seeds', () => {
+      expect(new SeededRandom(1).next()).to.not.eq(new SeededRandom(2).next());
+    });
+
+    it('accepts string seeds', () => {
+      expect(new SeededRandom('session').next()).to.eq(new SeededRandom('session').next());
+      expect(new SeededRandom('session').seed).to.not.eq(new SeededRandom('other').seed);
+    });
+
+    it('restarts the sequence on reset()', () => {
+      const rng = new SeededRandom(99);
+      const first = rng.next();
+      rng.next();
+      rng.reset();
+      expect(rng.next()).to.eq(first);
+    });
+  });
+
+  describe('setDefaultRandom()', () => {
+    const original = getDefaultRandom();
+    after(() => setDefaultRandom(original));
+
+    it('is used by the random helpers', () => {
+      setDefaultRandom(new SeededRandom(7));
+      const first = [ randomFloat(0, 10), randomInt(0, 100) ];
+
+      setDefaultRandom(new SeededRandom(7));
+      expect([ randomFloat(0, 10), randomInt(0, 100) ]).to.deep.eq(first);
+    });
+
+    it('throws on invalid sources', () => {
+      expect(() => setDefaultRandom({} as any)).to.throw(TypeError);
+    });
+  });
+});
@@ -6,7 +6,11 @@ import {
   testIfPositiveInteger,
   testKabob,
   testURI,
+  validateObject,
 } from '../../src/utils/validation';
+import Reference from '../../src/reference';
+
+import type { ValidationErrors } from '../../src/interfaces';
 
 describe('Validation Utilities', () => {
   describe('testURI()', () => {
@@ -31,6 +35,10 @@ describe('Validation Utilities', () => {
     it('allows proper Kabobs', () => {
       expect(testKabob('any-values01-here')).to.be.true;
     });
+    it('gives the same result when repeated', () => {
+      expect(testKabob('tag-one')).to.be.true;
+      expect(testKabob('tag-one')).to.be.true;
+    });
   });
 
   describe('testIfInteger()', () => {
@@ -62,4 +70,20 @@ describe('Validation Utilities', () => {
       expect(testIfPositiveInteger(123)).to.be.true;
     });
   });
-});
\ No newline at end of file
+
+  describe('validateObject()', () => {
+    it('validates objects holding class instances', () => {
+      const errs:ValidationErrors = [];
+      validateObject(errs, 'Test', 'prop', { ref: new Reference() }, ():ValidationErrors => [ 'called' ]);
+
+      expect(errs).to.deep.equal([ 'called' ]);
+    });
+
+    it('rejects non-objects', () => {
+      const errs:ValidationErrors = [];
+      validateObject(errs, 'Test', 'prop', [ 1 ], ():ValidationErrors => []);
+
+      expect(errs).to.have.length(1);
+    });
+  });
+});